@@ -219,6 +219,20 @@ async function main() {
       category: 'TIMING' as const,
       dataType: 'NUMBER' as const,
     },
+    {
+      key: 'game.disconnect_grace_seconds',
+      value: '60',
+      description: 'Seconds a disconnected player has to reconnect before abandoning an ONLINE game',
+      category: 'TIMING' as const,
+      dataType: 'NUMBER' as const,
+    },
+    {
+      key: 'game.spectator_delay_seconds',
+      value: '30',
+      description: 'Seconds spectators of bet games lag behind the live board',
+      category: 'TIMING' as const,
+      dataType: 'NUMBER' as const,
+    },
     // Scoring Settings
     {
       key: 'game.points_per_win',
@@ -248,6 +262,13 @@ async function main() {
       category: 'SCORING' as const,
       dataType: 'BOOLEAN' as const,
     },
+    {
+      key: 'game.backgammon_enabled',
+      value: 'false',
+      description: 'Enable backgammon (triple) scoring on top of Mars',
+      category: 'SCORING' as const,
+      dataType: 'BOOLEAN' as const,
+    },
     // Rules Settings
     {
       key: 'game.allow_undo',
@@ -270,6 +291,13 @@ async function main() {
       category: 'RULES' as const,
       dataType: 'NUMBER' as const,
     },
+    {
+      key: 'game.invitation_expiry_minutes',
+      value: '15',
+      description: 'Minutes before a pending game invitation expires',
+      category: 'RULES' as const,
+      dataType: 'NUMBER' as const,
+    },
     // Bets Settings
     {
       key: 'game.allowed_bet_amounts',
@@ -278,6 +306,56 @@ async function main() {
       category: 'BETS' as const,
       dataType: 'JSON' as const,
     },
+    {
+      key: 'game.house_rake_percent',
+      value: '5',
+      description: 'House rake taken from the pot of bet games (percent)',
+      category: 'BETS' as const,
+      dataType: 'NUMBER' as const,
+    },
+    // Matchmaking
+    {
+      key: 'matchmaking.rating_band',
+      value: '100',
+      description: 'Initial rating difference allowed between paired players',
+      category: 'RULES' as const,
+      dataType: 'NUMBER' as const,
+    },
+    {
+      key: 'matchmaking.band_widen_per_10s',
+      value: '50',
+      description: 'Rating band widening for every 10 seconds in the queue',
+      category: 'RULES' as const,
+      dataType: 'NUMBER' as const,
+    },
+    {
+      key: 'matchmaking.abandon_penalty_seconds',
+      value: '120',
+      description: 'Queue lockout per game abandoned in the last 24 hours',
+      category: 'RULES' as const,
+      dataType: 'NUMBER' as const,
+    },
+    {
+      key: 'matchmaking.bot_fallback_enabled',
+      value: 'false',
+      description: 'Pair with a bot user when no human opponent is found (free games only)',
+      category: 'RULES' as const,
+      dataType: 'BOOLEAN' as const,
+    },
+    {
+      key: 'matchmaking.bot_fallback_seconds',
+      value: '30',
+      description: 'Seconds in the queue before falling back to a bot user',
+      category: 'RULES' as const,
+      dataType: 'NUMBER' as const,
+    },
+    {
+      key: 'matchmaking.bot_difficulty',
+      value: 'MEDIUM',
+      description: 'Level the server plays bot users at: EASY, MEDIUM, HARD, EXPERT or ADAPTIVE',
+      category: 'RULES' as const,
+      dataType: 'STRING' as const,
+    },
     // AI Behavior
     {
       key: 'ai.move_delay_min',
@@ -293,6 +371,49 @@ async function main() {
       category: 'AI' as const,
       dataType: 'NUMBER' as const,
     },
+    {
+      key: 'ai.adaptive_window_games',
+      value: '10',
+      description: 'Recent AI games looked at when picking the ADAPTIVE difficulty level',
+      category: 'AI' as const,
+      dataType: 'NUMBER' as const,
+    },
+    // AI Engines
+    {
+      key: 'ai.default_engine',
+      value: 'builtin',
+      description: 'AI engine for every difficulty not listed in ai.engine_by_difficulty (builtin, gnubg)',
+      category: 'AI' as const,
+      dataType: 'STRING' as const,
+    },
+    {
+      key: 'ai.engine_by_difficulty',
+      value: '{}',
+      description: 'AI engine per difficulty, e.g. {"EXPERT": "gnubg"}',
+      category: 'AI' as const,
+      dataType: 'JSON' as const,
+    },
+    {
+      key: 'ai.external_engine_host',
+      value: 'localhost',
+      description: 'Host of the external engine (gnubg in external player mode)',
+      category: 'AI' as const,
+      dataType: 'STRING' as const,
+    },
+    {
+      key: 'ai.external_engine_port',
+      value: '7000',
+      description: 'TCP port of the external engine (gnubg: external <port>)',
+      category: 'AI' as const,
+      dataType: 'NUMBER' as const,
+    },
+    {
+      key: 'ai.external_engine_timeout_ms',
+      value: '3000',
+      description: 'Max wait (ms) for the external engine before falling back to the built-in engine',
+      category: 'AI' as const,
+      dataType: 'NUMBER' as const,
+    },
   ];
 
   for (const setting of gameSettings) {
@@ -10,6 +10,8 @@ import { AdminModule } from './modules/admin/admin.module';
 import { WalletModule } from './modules/wallet/wallet.module';
 import { SettingsModule } from './modules/settings/settings.module';
 import { BotUserModule } from './modules/bot-user/bot-user.module';
+import { MatchmakingModule } from './modules/matchmaking/matchmaking.module';
+import { InvitationsModule } from './modules/invitations/invitations.module';
 import { HealthController } from './common/controllers/health.controller';
 
 @Module({
@@ -42,6 +44,8 @@ import { HealthController } from './common/controllers/health.controller';
     WalletModule,
     SettingsModule,
     BotUserModule,
+    MatchmakingModule,
+    InvitationsModule,
   ],
   controllers: [HealthController],
 })
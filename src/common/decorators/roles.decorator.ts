@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+
+/**
+ * Roles decorator
+ * Restrict a route (or a whole controller) to the given roles - enforced by RolesGuard
+ * Usage: @Roles(UserRole.ADMIN) or @Roles(UserRole.ADMIN, UserRole.SUPPORT)
+ * Method-level @Roles overrides the controller-level one
+ */
+export const ROLES_KEY = 'roles';
+export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
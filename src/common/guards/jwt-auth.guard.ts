@@ -2,6 +2,14 @@ import { Injectable, CanActivate, ExecutionContext, UnauthorizedException } from
 import { Reflector } from '@nestjs/core';
 import { JwtService } from '@nestjs/jwt';
 import { Request } from 'express';
+import { JwtPayload } from '../../modules/auth/interfaces/auth.interface';
+
+/**
+ * Request on a JwtAuthGuard route (request.user)
+ */
+export interface AuthenticatedRequest extends Request {
+  user: JwtPayload & { userId: string };
+}
 
 /**
  * JWT Authentication Guard
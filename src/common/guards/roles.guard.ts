@@ -0,0 +1,51 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { UserRole } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+
+/**
+ * Roles Guard
+ * Allows a request only if the user has one of the roles from @Roles()
+ * Must run after JwtAuthGuard: @UseGuards(JwtAuthGuard, RolesGuard)
+ *
+ * The role in the JWT is checked first, then re-checked against the database
+ * so demoted or banned users lose access before their token expires
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private prisma: PrismaService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const requiredRoles = this.reflector.getAllAndOverride<UserRole[]>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    // No @Roles() - any authenticated user
+    if (!requiredRoles || requiredRoles.length === 0) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const tokenUser = request.user;
+
+    if (!tokenUser?.userId || !requiredRoles.includes(tokenUser.role)) {
+      throw new ForbiddenException('Insufficient permissions');
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: tokenUser.userId },
+      select: { role: true, status: true },
+    });
+
+    if (!user || user.status !== 'ACTIVE' || !requiredRoles.includes(user.role)) {
+      throw new ForbiddenException('Insufficient permissions');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,66 @@
+import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { WsException } from '@nestjs/websockets';
+import { Socket } from 'socket.io';
+import { JwtPayload } from '../../modules/auth/interfaces/auth.interface';
+
+/**
+ * User attached to an authenticated socket (client.data.user)
+ */
+export interface SocketUser extends JwtPayload {
+  userId: string;
+}
+
+/**
+ * Authenticate a socket at handshake time with the same JWT as JwtAuthGuard
+ * Token from: handshake.auth.token | Authorization: Bearer header | ?token= query
+ * Returns the user (also attached to client.data.user) or null if the token is missing / invalid
+ */
+export async function authenticateSocket(
+  jwtService: JwtService,
+  client: Socket,
+): Promise<SocketUser | null> {
+  const token = extractSocketToken(client);
+  if (!token) return null;
+
+  try {
+    const payload = await jwtService.verifyAsync<JwtPayload>(token);
+    const user: SocketUser = { ...payload, userId: payload.sub };
+    client.data.user = user;
+    return user;
+  } catch (error) {
+    return null;
+  }
+}
+
+function extractSocketToken(client: Socket): string | undefined {
+  const authToken = client.handshake.auth?.token;
+  if (typeof authToken === 'string' && authToken) {
+    return authToken.replace(/^Bearer /, '');
+  }
+
+  const [type, headerToken] = client.handshake.headers.authorization?.split(' ') ?? [];
+  if (type === 'Bearer' && headerToken) {
+    return headerToken;
+  }
+
+  const queryToken = client.handshake.query?.token;
+  return typeof queryToken === 'string' && queryToken ? queryToken : undefined;
+}
+
+/**
+ * WebSocket Authentication Guard
+ * Rejects messages from sockets that were not authenticated at handshake
+ */
+@Injectable()
+export class WsJwtAuthGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const client = context.switchToWs().getClient<Socket>();
+
+    if (!client.data?.user?.userId) {
+      throw new WsException('Unauthorized');
+    }
+
+    return true;
+  }
+}
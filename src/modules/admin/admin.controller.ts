@@ -1,18 +1,24 @@
 import { Controller, Get, Put, Param, Query, UseGuards, Body, Post, Delete } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { Roles } from '../../common/decorators/roles.decorator';
 import { AdminService } from './admin.service';
 import { DatabaseMaintenanceService } from './database-maintenance.service';
+import { GameService } from '../game/game.service';
 
 @ApiTags('admin')
 @ApiBearerAuth('JWT-auth')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
 @Controller('admin')
 export class AdminController {
   constructor(
     private readonly adminService: AdminService,
-    private readonly databaseMaintenance: DatabaseMaintenanceService
+    private readonly databaseMaintenance: DatabaseMaintenanceService,
+    private readonly gameService: GameService,
   ) {}
 
   @Get('stats')
@@ -28,6 +34,7 @@ export class AdminController {
   }
 
   @Get('users')
+  @Roles(UserRole.ADMIN, UserRole.SUPPORT)
   @ApiOperation({ summary: 'Get all users (paginated with search and sorting)' })
   async getUsers(
     @Query('page') page?: number,
@@ -48,12 +55,14 @@ export class AdminController {
   }
 
   @Get('users/:id/details')
+  @Roles(UserRole.ADMIN, UserRole.SUPPORT)
   @ApiOperation({ summary: 'Get user detailed info (device, location, login history)' })
   async getUserDetails(@Param('id') userId: string) {
     return this.adminService.getUserDetails(userId);
   }
 
   @Get('users/:id/login-history')
+  @Roles(UserRole.ADMIN, UserRole.SUPPORT)
   @ApiOperation({ summary: 'Get user login history' })
   async getUserLoginHistory(
     @Param('id') userId: string,
@@ -63,6 +72,7 @@ export class AdminController {
   }
 
   @Get('games')
+  @Roles(UserRole.ADMIN, UserRole.SUPPORT)
   @ApiOperation({ summary: 'Get all games (paginated with filters)' })
   async getGames(
     @Query('page') page?: number,
@@ -82,6 +92,15 @@ export class AdminController {
     );
   }
 
+  @Put('games/:id/cancel')
+  @ApiOperation({ summary: 'Cancel a game (refunds both bet stakes)' })
+  async cancelGame(
+    @Param('id') gameId: string,
+    @CurrentUser('sub') adminId: string,
+  ) {
+    return this.gameService.cancelGame(gameId, adminId);
+  }
+
   @Put('users/:id/status')
   @ApiOperation({ summary: 'Update user status' })
   async updateUserStatus(
@@ -96,7 +115,7 @@ export class AdminController {
   @ApiOperation({ summary: 'Update user role' })
   async updateUserRole(
     @Param('id') userId: string,
-    @Body('role') role: 'USER' | 'ADMIN',
+    @Body('role') role: UserRole,
     @CurrentUser('sub') adminId: string,
   ) {
     return this.adminService.updateUserRole(userId, role, adminId);
@@ -1,11 +1,12 @@
 import { Module } from '@nestjs/common';
 import { AuthModule } from '../auth/auth.module';
+import { GamesModule } from '../games/games.module';
 import { AdminController } from './admin.controller';
 import { AdminService } from './admin.service';
 import { DatabaseMaintenanceService } from './database-maintenance.service';
 
 @Module({
-  imports: [AuthModule],
+  imports: [AuthModule, GamesModule],
   controllers: [AdminController],
   providers: [AdminService, DatabaseMaintenanceService],
   exports: [DatabaseMaintenanceService],
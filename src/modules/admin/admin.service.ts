@@ -1,4 +1,5 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
 import { PrismaService } from '../../database/prisma.service';
 import * as bcrypt from 'bcrypt';
 
@@ -50,6 +51,15 @@ export class AdminService {
       },
     });
 
+    // 🤖 AI games by level
+    const aiGamesByDifficulty = await this.prisma.game.groupBy({
+      by: ['aiDifficulty'],
+      where: { gameType: 'AI', aiDifficulty: { not: null } },
+      _count: {
+        id: true,
+      },
+    });
+
     return {
       totalUsers,
       totalGames,
@@ -61,6 +71,13 @@ export class AdminService {
         acc[item.gameType] = item._count.id;
         return acc;
       }, {} as Record<string, number>),
+      aiGamesByDifficulty: aiGamesByDifficulty.reduce(
+        (acc, item) => {
+          acc[item.aiDifficulty as string] = item._count.id;
+          return acc;
+        },
+        {} as Record<string, number>,
+      ),
     };
   }
 
@@ -271,7 +288,7 @@ export class AdminService {
    * Update user role
    * SECURITY: Prevent anyone from becoming admin - only demote admin to user
    */
-  async updateUserRole(userId: string, role: 'USER' | 'ADMIN', adminId: string) {
+  async updateUserRole(userId: string, role: UserRole, adminId: string) {
     // SECURITY: Prevent promoting users to admin
     if (role === 'ADMIN') {
       throw new Error('Cannot promote users to admin role. Only one admin should exist.');
@@ -0,0 +1,72 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../../database/prisma.service';
+import { SettingsService } from '../../settings/settings.service';
+import { AIDifficulty } from './ai.types';
+
+const LEVELS = [AIDifficulty.EASY, AIDifficulty.MEDIUM, AIDifficulty.HARD, AIDifficulty.EXPERT];
+
+const DEFAULT_WINDOW = 10; // Recent AI games looked at (setting ai.adaptive_window_games)
+const MIN_GAMES_AT_LEVEL = 3; // Games at the current level before it may change
+const STEP_UP_WIN_RATE = 0.65;
+const STEP_DOWN_WIN_RATE = 0.35;
+
+/**
+ * 📈 Adaptive AI difficulty
+ *
+ * Starts at MEDIUM, then looks at the player's recent finished AI games:
+ * - The level of the last game is the current level
+ * - After MIN_GAMES_AT_LEVEL games at it: win rate ≥ 65% → one level up, ≤ 35% → one level down
+ * Only the latest run of games at the current level counts, so every change starts a fresh sample.
+ */
+@Injectable()
+export class AdaptiveDifficultyService {
+  private readonly AI_PLAYER_ID = '00000000-0000-0000-0000-000000000001';
+
+  constructor(
+    private prisma: PrismaService,
+    private settingsService: SettingsService,
+  ) {}
+
+  async resolveDifficulty(userId: string): Promise<AIDifficulty> {
+    const windowSetting = await this.settingsService.getGameSetting('ai.adaptive_window_games');
+    const window = windowSetting ? parseInt(windowSetting.value, 10) : DEFAULT_WINDOW;
+
+    const games = await this.prisma.game.findMany({
+      where: {
+        gameType: 'AI',
+        status: 'COMPLETED',
+        aiDifficulty: { not: null },
+        OR: [{ whitePlayerId: userId }, { blackPlayerId: userId }],
+      },
+      select: { aiDifficulty: true, winner: true, whitePlayerId: true },
+      orderBy: { endedAt: 'desc' },
+      take: Number.isFinite(window) && window > 0 ? window : DEFAULT_WINDOW,
+    });
+
+    if (games.length === 0) {
+      return AIDifficulty.MEDIUM;
+    }
+
+    const current = games[0].aiDifficulty as AIDifficulty;
+    const levelChange = games.findIndex((game) => game.aiDifficulty !== current);
+    const atLevel = levelChange === -1 ? games : games.slice(0, levelChange);
+    if (atLevel.length < MIN_GAMES_AT_LEVEL) {
+      return current;
+    }
+
+    const wins = atLevel.filter((game) => {
+      const userColor = game.whitePlayerId === this.AI_PLAYER_ID ? 'BLACK' : 'WHITE';
+      return game.winner === userColor;
+    }).length;
+    const winRate = wins / atLevel.length;
+
+    const index = LEVELS.indexOf(current);
+    if (winRate >= STEP_UP_WIN_RATE) {
+      return LEVELS[Math.min(index + 1, LEVELS.length - 1)];
+    }
+    if (winRate <= STEP_DOWN_WIN_RATE) {
+      return LEVELS[Math.max(index - 1, 0)];
+    }
+    return current;
+  }
+}
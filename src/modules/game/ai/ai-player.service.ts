@@ -9,36 +9,29 @@
  */
 
 import { Injectable } from '@nestjs/common';
-
-export interface BoardState {
-  points: Array<{ white: number; black: number }>;
-  bar: { white: number; black: number };
-  off: { white: number; black: number };
-  currentPlayer: 'white' | 'black';
-}
-
-export interface AIMove {
-  from: number;
-  to: number;
-  diceUsed: number;
-}
-
-export enum AIDifficulty {
-  EASY = 'EASY',
-  MEDIUM = 'MEDIUM',
-  HARD = 'HARD',
-  EXPERT = 'EXPERT',
-}
+import { RulesEngineService } from '../core/rules-engine.service';
+import { ExpertEngineService } from './expert-engine.service';
+import { CubeDecisionService } from './cube-decision.service';
+import type { CubeContext, CubeDecision } from './engines/ai-engine.interface';
+import { AIDifficulty, AIMove, BoardState } from './ai.types';
 
 @Injectable()
 export class AIPlayerService {
+  constructor(
+    private rulesEngine: RulesEngineService,
+    private expertEngine: ExpertEngineService,
+    private cubeDecision: CubeDecisionService,
+  ) {}
+
   /**
    * AI makes a move based on board state and difficulty
+   * `random` drives the EASY / MEDIUM / HARD picks (seeded per game, see createSeededRandom)
    */
   async makeMove(
     boardState: BoardState,
     diceRoll: [number, number],
-    difficulty: AIDifficulty = AIDifficulty.MEDIUM
+    difficulty: AIDifficulty = AIDifficulty.MEDIUM,
+    random: () => number = Math.random,
   ): Promise<AIMove[]> {
     const possibleMoves = this.generatePossibleMoves(boardState, diceRoll);
 
@@ -49,398 +42,58 @@ export class AIPlayerService {
     // Select moves based on difficulty
     switch (difficulty) {
       case AIDifficulty.EASY:
-        return this.selectRandomMove(possibleMoves);
+        return this.selectRandomMove(possibleMoves, random);
 
       case AIDifficulty.MEDIUM:
-        return this.selectDecentMove(possibleMoves, boardState);
+        return this.selectDecentMove(possibleMoves, boardState, random);
 
       case AIDifficulty.HARD:
-        return this.selectGoodMove(possibleMoves, boardState);
+        return this.selectGoodMove(possibleMoves, boardState, random);
 
       case AIDifficulty.EXPERT:
         return this.selectBestMove(possibleMoves, boardState);
 
       default:
-        return this.selectRandomMove(possibleMoves);
+        return this.selectRandomMove(possibleMoves, random);
     }
   }
 
   /**
    * Generate all possible moves for the AI
-   * این فانکشن باید همه ترکیبات ممکن رو امتحان کنه
+   * ✅ Legal plays come from the shared rules engine (forced-play rule included)
    */
   private generatePossibleMoves(
     boardState: BoardState,
     diceRoll: [number, number]
   ): AIMove[][] {
-    const [die1, die2] = diceRoll;
-    const isDouble = die1 === die2;
     const aiColor = boardState.currentPlayer;
-    
-    // For doubles, we can use each die up to 4 times
-    const diceToUse = isDouble ? [die1, die1, die1, die1] : [die1, die2];
+    const diceToUse = this.rulesEngine.expandDice(diceRoll);
 
     console.log(`🎲 Generating moves for dice: ${diceToUse.join(', ')}`);
 
-    // ✅ حالا از همه checker ها شروع میکنیم (نه فقط یکی!)
-    const allSequences: AIMove[][] = [];
-    this.generateAllPossibleSequences(
-      boardState,
-      diceToUse,
-      aiColor,
-      [],
-      allSequences
-    );
+    const allSequences = this.rulesEngine.getLegalSequences(boardState, diceToUse, aiColor);
 
     console.log(`✅ Found ${allSequences.length} possible move sequences`);
 
-    // If no moves found, return empty
-    return allSequences.length > 0 ? allSequences : [];
-  }
-
-  /**
-   * Generate all possible move sequences (با همه checker ها)
-   */
-  private generateAllPossibleSequences(
-    boardState: BoardState,
-    remainingDice: number[],
-    color: 'white' | 'black',
-    currentSequence: AIMove[],
-    allSequences: AIMove[][]
-  ): void {
-    // Base case: اگر تاس نمونده، این sequence رو ذخیره کن
-    if (remainingDice.length === 0) {
-      if (currentSequence.length > 0) {
-        allSequences.push([...currentSequence]);
-      }
-      return;
-    }
-
-    // Get all movable checkers
-    const movableCheckers = this.getMovableCheckers(boardState, color);
-
-    let foundValidMove = false;
-
-    // امتحان کردن هر تاس با هر checker
-    for (const die of remainingDice) {
-      for (const from of movableCheckers) {
-        const to = this.calculateDestination(from, die, color);
-
-        // Check if this move is valid
-        if (this.isValidMove(boardState, from, to, color)) {
-          foundValidMove = true;
-          const move: AIMove = { from, to, diceUsed: die };
-
-          // Apply move temporarily
-          const newBoard = this.applyTempMove(boardState, move, color);
-          
-          // Remove used die
-          const newRemaining = remainingDice.filter((d, i) => {
-            // Remove first occurrence of this die value
-            if (d === die && i === remainingDice.indexOf(die)) {
-              return false;
-            }
-            return true;
-          });
-
-          // Recurse with new board state
-          this.generateAllPossibleSequences(
-            newBoard,
-            newRemaining,
-            color,
-            [...currentSequence, move],
-            allSequences
-          );
-        }
-      }
-    }
-
-    // اگر حرکت نکردیم ولی sequence داریم، ذخیره کن (partial moves)
-    if (!foundValidMove && currentSequence.length > 0) {
-      allSequences.push([...currentSequence]);
-    }
-  }
-
-  /**
-   * Get all checkers that can potentially move
-   */
-  private getMovableCheckers(boardState: BoardState, color: 'white' | 'black'): number[] {
-    const checkers: number[] = [];
-    
-    // Check if we have checkers on the bar (must move these first)
-    if (boardState.bar[color] > 0) {
-      return [-1]; // -1 represents bar
-    }
-
-    // Check all points for movable checkers
-    for (let i = 0; i < 24; i++) {
-      if (boardState.points[i][color] > 0) {
-        checkers.push(i);
-      }
-    }
-
-    return checkers;
-  }
-
-  /**
-   * Generate all possible move sequences for a checker
-   * این فانکشن باید کل sequence حرکات رو generate کنه
-   */
-  private generateMoveSequences(
-    boardState: BoardState,
-    from: number,
-    dice: number[],
-    color: 'white' | 'black'
-  ): AIMove[][] {
-    const sequences: AIMove[][] = [];
-
-    // 🎯 حالا باید کل sequence رو generate کنیم
-    this.generateMovesRecursive(
-      boardState,
-      from,
-      dice,
-      color,
-      [],
-      sequences
-    );
-
-    return sequences;
-  }
-
-  /**
-   * Generate moves recursively - برای پیدا کردن همه حرکات ممکن
-   */
-  private generateMovesRecursive(
-    boardState: BoardState,
-    currentPos: number,
-    remainingDice: number[],
-    color: 'white' | 'black',
-    currentSequence: AIMove[],
-    allSequences: AIMove[][],
-    originalDiceCount: number = remainingDice.length
-  ): void {
-    // Base case: اگر تاس نمونده، این sequence رو اضافه کن
-    if (remainingDice.length === 0) {
-      if (currentSequence.length > 0) {
-        allSequences.push([...currentSequence]);
-      }
-      return;
-    }
-
-    // Try each remaining die
-    for (let i = 0; i < remainingDice.length; i++) {
-      const die = remainingDice[i];
-      const to = this.calculateDestination(currentPos, die, color);
-
-      // Check if move is valid
-      if (this.isValidMove(boardState, currentPos, to, color)) {
-        const move: AIMove = { from: currentPos, to, diceUsed: die };
-
-        // Apply this move temporarily
-        const newBoard = this.applyTempMove(boardState, move, color);
-        const newRemaining = [...remainingDice];
-        newRemaining.splice(i, 1); // Remove used die
-
-        // Recurse with new state
-        this.generateMovesRecursive(
-          newBoard,
-          to, // Next move starts from destination
-          newRemaining,
-          color,
-          [...currentSequence, move],
-          allSequences,
-          originalDiceCount
-        );
-      }
-    }
-
-    // Also save current sequence if it's not empty (partial moves are valid)
-    if (currentSequence.length > 0 && remainingDice.length < originalDiceCount) {
-      allSequences.push([...currentSequence]);
-    }
-  }
-
-  /**
-   * Apply move temporarily for evaluation
-   */
-  private applyTempMove(
-    boardState: BoardState,
-    move: AIMove,
-    color: 'white' | 'black'
-  ): BoardState {
-    const newBoard = JSON.parse(JSON.stringify(boardState));
-    const opponentColor = color === 'white' ? 'black' : 'white';
-
-    // Remove from source
-    if (move.from === -1) {
-      newBoard.bar[color]--;
-    } else {
-      newBoard.points[move.from][color]--;
-    }
-
-    // Add to destination
-    if (move.to < 0 || move.to > 23) {
-      // Bear off
-      newBoard.off[color]++;
-    } else {
-      // Check for hit
-      if (newBoard.points[move.to][opponentColor] === 1) {
-        newBoard.bar[opponentColor]++;
-        newBoard.points[move.to][opponentColor] = 0;
-      }
-      newBoard.points[move.to][color]++;
-    }
-
-    return newBoard;
-  }
-
-  /**
-   * Calculate destination point based on direction
-   * قوانین محکم: سفید 23→0 (منهای)، مشکی 0→23 (جمع)
-   */
-  private calculateDestination(from: number, die: number, color: 'white' | 'black'): number {
-    // Bar moves (entering from bar)
-    if (from === -1) {
-      // سفید از bar وارد 24-die میشه، مشکی از bar وارد die-1 میشه
-      return color === 'white' ? 24 - die : die - 1;
-    }
-
-    // Regular moves - قوانین محکم!
-    if (color === 'white') {
-      // ⚪ سفید: از 23 به سمت 0 حرکت میکنه (منهای میشه)
-      return from - die;
-    } else {
-      // ⚫ مشکی: از 0 به سمت 23 حرکت میکنه (جمع میشه)
-      return from + die;
-    }
-  }
-
-  /**
-   * Check if a move is valid according to backgammon rules
-   */
-  private isValidMove(
-    boardState: BoardState,
-    from: number,
-    to: number,
-    color: 'white' | 'black'
-  ): boolean {
-    // Check if destination is out of bounds (bearing off)
-    if (to < 0 || to > 23) {
-      return this.isValidBearOff(boardState, from, to, color);
-    }
-
-    // Check if destination point is blocked by opponent
-    const opponentColor = color === 'white' ? 'black' : 'white';
-    const destPoint = boardState.points[to];
-
-    // Can't move to a point with 2+ opponent checkers
-    if (destPoint[opponentColor] >= 2) {
-      return false;
-    }
-
-    return true;
-  }
-
-  /**
-   * Check if player can bear off (remove checkers from board)
-   * قوانین: سفید home board = 0-5، مشکی home board = 18-23
-   */
-  private canBearOff(boardState: BoardState, color: 'white' | 'black'): boolean {
-    // All checkers must be in home board
-    // ⚪ سفید: home = 0-5 (چون به سمت 0 میره)
-    // ⚫ مشکی: home = 18-23 (چون به سمت 23 میره)
-    const homeStart = color === 'white' ? 0 : 18;
-    const homeEnd = color === 'white' ? 6 : 24;
-
-    for (let i = 0; i < 24; i++) {
-      if (boardState.points[i][color] > 0) {
-        if (color === 'white' && (i < homeStart || i >= homeEnd)) return false;
-        if (color === 'black' && (i < homeStart || i >= homeEnd)) return false;
-      }
-    }
-
-    // Also check bar
-    if (boardState.bar[color] > 0) return false;
-
-    return true;
-  }
-
-  /**
-   * Check if specific bear-off move is valid
-   * قوانین مهم:
-   * 1. تاس باید دقیقا با position مهره match کنه
-   * 2. اگه تاس بزرگتر بود، فقط از بالاترین (دورترین) مهره میشه خارج کرد
-   * 
-   * ⚪ سفید: خونه 0-5 → position 1-6 (خونه 0 = position 1)
-   * ⚫ مشکی: خونه 18-23 → position 6-1 (خونه 18 = position 6, خونه 23 = position 1)
-   */
-  private isValidBearOff(
-    boardState: BoardState,
-    from: number,
-    to: number,
-    color: 'white' | 'black'
-  ): boolean {
-    // First check if player can bear off at all
-    if (!this.canBearOff(boardState, color)) {
-      return false;
-    }
-
-    // Calculate position and die value
-    let position: number;
-    let die: number;
-
-    if (color === 'white') {
-      // ⚪ سفید: خونه 0 = position 1, خونه 5 = position 6
-      position = from + 1;
-      die = from - to; // to is negative, so from - to = die
-    } else {
-      // ⚫ مشکی: خونه 23 = position 1, خونه 18 = position 6
-      position = 24 - from;
-      die = to - from; // to is > 23, so to - from = die
-    }
-
-    // Exact match: تاس دقیقا با position مهره برابره
-    if (position === die) {
-      return true;
-    }
-
-    // Higher die: تاس بزرگتر از position است
-    // فقط میشه اگه این بالاترین (دورترین) مهره باشه
-    if (die > position) {
-      if (color === 'white') {
-        // چک کن خونه‌های 5, 4, 3, ... تا from+1
-        for (let p = 5; p > from; p--) {
-          if (boardState.points[p][color] > 0) {
-            return false; // مهره بالاتری وجود داره
-          }
-        }
-      } else {
-        // ⚫ مشکی: چک کن خونه‌های 18, 19, 20, ... تا from-1
-        for (let p = 18; p < from; p++) {
-          if (boardState.points[p][color] > 0) {
-            return false; // مهره بالاتری وجود داره
-          }
-        }
-      }
-      return true;
-    }
-
-    // تاس کوچکتر از position - نمیشه خارج کرد
-    return false;
+    return allSequences;
   }
 
   /**
    * EASY: Random move selection
    */
-  private selectRandomMove(moves: AIMove[][]): AIMove[] {
-    const randomIndex = Math.floor(Math.random() * moves.length);
+  private selectRandomMove(moves: AIMove[][], random: () => number): AIMove[] {
+    const randomIndex = Math.floor(random() * moves.length);
     return moves[randomIndex];
   }
 
   /**
    * MEDIUM: Select decent moves (avoid obvious mistakes)
    */
-  private selectDecentMove(moves: AIMove[][], boardState: BoardState): AIMove[] {
+  private selectDecentMove(
+    moves: AIMove[][],
+    boardState: BoardState,
+    random: () => number,
+  ): AIMove[] {
     // Score each move sequence
     const scoredMoves = moves.map((moveSeq) => ({
       moves: moveSeq,
@@ -450,7 +103,7 @@ export class AIPlayerService {
     // Sort by score and pick from top 50%
     scoredMoves.sort((a, b) => b.score - a.score);
     const topHalf = scoredMoves.slice(0, Math.ceil(scoredMoves.length / 2));
-    const randomIndex = Math.floor(Math.random() * topHalf.length);
+    const randomIndex = Math.floor(random() * topHalf.length);
     
     return topHalf[randomIndex].moves;
   }
@@ -458,7 +111,11 @@ export class AIPlayerService {
   /**
    * HARD: Select good strategic moves
    */
-  private selectGoodMove(moves: AIMove[][], boardState: BoardState): AIMove[] {
+  private selectGoodMove(
+    moves: AIMove[][],
+    boardState: BoardState,
+    random: () => number,
+  ): AIMove[] {
     const scoredMoves = moves.map((moveSeq) => ({
       moves: moveSeq,
       score: this.evaluateMoveSequence(moveSeq, boardState, 'hard'),
@@ -467,23 +124,54 @@ export class AIPlayerService {
     // Sort and pick from top 25%
     scoredMoves.sort((a, b) => b.score - a.score);
     const topQuarter = scoredMoves.slice(0, Math.ceil(scoredMoves.length / 4));
-    const randomIndex = Math.floor(Math.random() * topQuarter.length);
+    const randomIndex = Math.floor(random() * topQuarter.length);
     
     return topQuarter[randomIndex].moves;
   }
 
   /**
-   * EXPERT: Always pick the best move
+   * EXPERT: 2-ply expectiminimax search with a position evaluator (ExpertEngineService)
    */
-  private selectBestMove(moves: AIMove[][], boardState: BoardState): AIMove[] {
-    const scoredMoves = moves.map((moveSeq) => ({
-      moves: moveSeq,
-      score: this.evaluateMoveSequence(moveSeq, boardState, 'expert'),
-    }));
+  private selectBestMove(moves: AIMove[][], boardState: BoardState): Promise<AIMove[]> {
+    return this.expertEngine.chooseBestPlay(boardState, moves);
+  }
 
-    // Return highest scored move
-    scoredMoves.sort((a, b) => b.score - a.score);
-    return scoredMoves[0].moves;
+  /**
+   * 🎲 Cube: double / redouble before rolling? (context.player is on roll)
+   */
+  decideDouble(boardState: BoardState, context: CubeContext): Promise<CubeDecision> {
+    return this.cubeDecision.decideDouble(boardState, context);
+  }
+
+  /**
+   * 🎲 Cube: take or drop the opponent's double? (context.player decides)
+   */
+  decideTake(boardState: BoardState, context: CubeContext): Promise<CubeDecision> {
+    return this.cubeDecision.decideTake(boardState, context);
+  }
+
+  /**
+   * 📊 Every legal play for a roll, scored with the expert weights (best first)
+   * Used by the post-game analysis - boardState.currentPlayer is the player on roll
+   */
+  scorePlays(boardState: BoardState, diceRoll: number[]): { moves: AIMove[]; score: number }[] {
+    const diceToUse = this.rulesEngine.expandDice(diceRoll);
+    const sequences = this.rulesEngine.getLegalSequences(
+      boardState,
+      diceToUse,
+      boardState.currentPlayer,
+    );
+
+    return sequences
+      .map((moveSeq) => ({ moves: moveSeq, score: this.scorePlay(moveSeq, boardState) }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * 📊 Score of one play with the expert weights (same scale as scorePlays)
+   */
+  scorePlay(moves: AIMove[], boardState: BoardState): number {
+    return this.evaluateMoveSequence(moves, boardState, 'expert');
   }
 
   /**
@@ -579,8 +267,8 @@ export class AIPlayerService {
    * Evaluate forward progress
    */
   private evaluateAdvancement(move: AIMove): number {
-    // Further moves get higher scores
-    const distance = Math.abs(move.to - move.from);
+    // Further moves get higher scores (die value = pips travelled, also for bar entry / bear-off)
+    const distance = move.diceUsed;
     return distance / 24; // Normalize to 0-1
   }
 
@@ -0,0 +1,24 @@
+/**
+ * 🤖 Shared AI types - board, move and difficulty level
+ * Kept apart from the services so ai-player / cube-decision / engines don't import each other for them
+ */
+
+export interface BoardState {
+  points: Array<{ white: number; black: number }>;
+  bar: { white: number; black: number };
+  off: { white: number; black: number };
+  currentPlayer: 'white' | 'black';
+}
+
+export interface AIMove {
+  from: number;
+  to: number;
+  diceUsed: number;
+}
+
+export enum AIDifficulty {
+  EASY = 'EASY',
+  MEDIUM = 'MEDIUM',
+  HARD = 'HARD',
+  EXPERT = 'EXPERT',
+}
@@ -0,0 +1,247 @@
+import { Injectable } from '@nestjs/common';
+import { AIDifficulty, BoardState } from './ai.types';
+import { ExpertEngineService, yieldToEventLoop } from './expert-engine.service';
+import { RulesEngineService, PlayerSide } from '../core/rules-engine.service';
+import type { CubeContext, CubeDecision } from './engines/ai-engine.interface';
+
+/**
+ * 🎲 Cube decisions for the AI (double / redouble / take / drop)
+ *
+ * ESTIMATE (from the deciding player's side):
+ * - Win probability from the position evaluator (ExpertEngineService)
+ * - Gammon chances: a prior (share of wins that are gammons, 0 once the loser bore off)
+ * - HARD / EXPERT: quick rollouts (1-ply expert play to the end of the set) refine both;
+ *   the evaluation counts as PRIOR_TRIALS games, so a few rollouts can't swing it alone;
+ *   rollouts yield to the event loop between games
+ * - Cubeless equity = P(win) - P(lose) + P(gammon win) - P(gammon loss)
+ *
+ * DECISIONS (money-style points, per difficulty):
+ * - Double when equity ≥ double point (redouble: + REDOUBLE_MARGIN, the cube is given away)
+ * - Too good: no double when playing on beats the point a drop gives (equity > 1)
+ * - Take when equity ≥ take point (-0.5 ≈ 25% without gammons)
+ * - Match: no double when the current cube already wins the match, always take when
+ *   dropping loses it
+ * EASY / MEDIUM add noise to the estimate and use looser points, so they misjudge the cube
+ */
+
+interface CubeProfile {
+  rollouts: number;
+  noise: number; // ± win probability error
+  doublePoint: number; // Min cubeless equity to double
+  takePoint: number; // Min cubeless equity to take
+}
+
+const CUBE_PROFILES: Record<AIDifficulty, CubeProfile> = {
+  [AIDifficulty.EASY]: { rollouts: 0, noise: 0.15, doublePoint: 0.6, takePoint: -0.75 },
+  [AIDifficulty.MEDIUM]: { rollouts: 0, noise: 0.07, doublePoint: 0.5, takePoint: -0.6 },
+  [AIDifficulty.HARD]: { rollouts: 12, noise: 0, doublePoint: 0.45, takePoint: -0.55 },
+  [AIDifficulty.EXPERT]: { rollouts: 36, noise: 0, doublePoint: 0.4, takePoint: -0.5 },
+};
+
+const REDOUBLE_MARGIN = 0.1;
+const TOO_GOOD_EQUITY = 1; // A pass gives the cube value - more than that, play on
+const PRIOR_TRIALS = 12;
+const ROLLOUT_TIME_BUDGET_MS = 1000;
+const MAX_ROLLOUT_TURNS = 200; // Safety stop for one rollout
+
+// Share of wins that end in a gammon before any rollout
+const GAMMON_SHARE_CONTACT = 0.2;
+const GAMMON_SHARE_RACE = 0.02;
+
+interface CubeEstimate {
+  winProbability: number;
+  gammonProbability: number;
+  opponentGammonProbability: number;
+  equity: number;
+  trials: number;
+}
+
+@Injectable()
+export class CubeDecisionService {
+  constructor(
+    private rulesEngine: RulesEngineService,
+    private expertEngine: ExpertEngineService,
+  ) {}
+
+  /**
+   * 🎲 Double (or redouble) before rolling? context.player is on roll
+   */
+  async decideDouble(board: BoardState, context: CubeContext): Promise<CubeDecision> {
+    const { player, cubeOwner, cubeValue } = context;
+    const profile = CUBE_PROFILES[context.difficulty] ?? CUBE_PROFILES[AIDifficulty.MEDIUM];
+    const position = { ...board, currentPlayer: player };
+    let estimate: CubeEstimate;
+    const decide = (action: 'double' | 'no_double', reason: string): CubeDecision => ({
+      action,
+      ...estimate,
+      reason,
+    });
+
+    // No rollouts when the cube can't be turned anyway
+    if (cubeOwner && cubeOwner !== player) {
+      estimate = await this.estimate(position, player, { ...profile, rollouts: 0 }, context);
+      return decide('no_double', 'Cube is owned by the opponent');
+    }
+
+    if (context.score[player] + cubeValue >= context.matchLength) {
+      estimate = await this.estimate(position, player, { ...profile, rollouts: 0 }, context);
+      return decide('no_double', `Dead cube: ${cubeValue} point(s) already win the match`);
+    }
+
+    estimate = await this.estimate(position, player, profile, context);
+
+    const isRedouble = cubeOwner === player;
+    const doublePoint = profile.doublePoint + (isRedouble ? REDOUBLE_MARGIN : 0);
+    if (estimate.equity < doublePoint) {
+      return decide(
+        'no_double',
+        `Equity ${this.format(estimate.equity)} below ${isRedouble ? 'redouble' : 'double'} point ${doublePoint}`,
+      );
+    }
+
+    // The opponent would pass, but playing on is worth more than the point a pass gives
+    if (estimate.equity > TOO_GOOD_EQUITY) {
+      return decide(
+        'no_double',
+        `Too good: equity ${this.format(estimate.equity)} playing on for the gammon`,
+      );
+    }
+
+    return decide(
+      'double',
+      `Equity ${this.format(estimate.equity)} ≥ ${isRedouble ? 'redouble' : 'double'} point ${doublePoint}`,
+    );
+  }
+
+  /**
+   * 🎲 Take or drop a double? board.currentPlayer is the doubler, context.player decides
+   */
+  async decideTake(board: BoardState, context: CubeContext): Promise<CubeDecision> {
+    const { player, cubeValue } = context;
+    const doubler = this.rulesEngine.opponentOf(player);
+    const profile = CUBE_PROFILES[context.difficulty] ?? CUBE_PROFILES[AIDifficulty.MEDIUM];
+    const position = { ...board, currentPlayer: doubler };
+    let estimate: CubeEstimate;
+    const decide = (action: 'take' | 'drop', reason: string): CubeDecision => ({
+      action,
+      ...estimate,
+      reason,
+    });
+
+    if (context.score[doubler] + cubeValue >= context.matchLength) {
+      estimate = await this.estimate(position, player, { ...profile, rollouts: 0 }, context);
+      return decide('take', `Dropping loses the match (${cubeValue} point(s) to the doubler)`);
+    }
+
+    estimate = await this.estimate(position, player, profile, context);
+
+    if (estimate.equity >= profile.takePoint) {
+      return decide(
+        'take',
+        `Equity ${this.format(estimate.equity)} ≥ take point ${profile.takePoint}`,
+      );
+    }
+
+    return decide(
+      'drop',
+      `Equity ${this.format(estimate.equity)} below take point ${profile.takePoint}`,
+    );
+  }
+
+  /**
+   * Win / gammon chances of `color` (board.currentPlayer on roll)
+   */
+  private async estimate(
+    board: BoardState,
+    color: PlayerSide,
+    profile: CubeProfile,
+    context: CubeContext,
+  ): Promise<CubeEstimate> {
+    const random = context.random ?? Math.random;
+    const opponent = this.rulesEngine.opponentOf(color);
+    const evaluated = this.expertEngine.winProbability(board, color);
+    const gammonShare = this.expertEngine.hasContact(board)
+      ? GAMMON_SHARE_CONTACT
+      : GAMMON_SHARE_RACE;
+
+    // Evaluation = PRIOR_TRIALS virtual games
+    let wins = evaluated * PRIOR_TRIALS;
+    let gammons = board.off[opponent] > 0 ? 0 : evaluated * gammonShare * PRIOR_TRIALS;
+    let gammonsLost = board.off[color] > 0 ? 0 : (1 - evaluated) * gammonShare * PRIOR_TRIALS;
+    let games = PRIOR_TRIALS;
+    let trials = 0;
+
+    const deadline = Date.now() + ROLLOUT_TIME_BUDGET_MS;
+    while (trials < profile.rollouts && Date.now() < deadline) {
+      await yieldToEventLoop();
+      trials++;
+      const result = this.rollout(board, random);
+      if (!result) continue;
+
+      games++;
+      const gammon = result.resultType !== 'SINGLE';
+      if (result.winner === color) {
+        wins++;
+        if (gammon) gammons++;
+      } else if (gammon) {
+        gammonsLost++;
+      }
+    }
+
+    const noise = (random() * 2 - 1) * profile.noise;
+    const winProbability = Math.min(Math.max(wins / games + noise, 0), 1);
+    const gammonProbability = Math.min(gammons / games, winProbability);
+    const opponentGammonProbability = Math.min(gammonsLost / games, 1 - winProbability);
+
+    return {
+      winProbability,
+      gammonProbability,
+      opponentGammonProbability,
+      equity: 2 * winProbability - 1 + gammonProbability - opponentGammonProbability,
+      trials,
+    };
+  }
+
+  /**
+   * One quick rollout: both sides play the best 1-ply move to the end of the set
+   * null if it didn't finish within MAX_ROLLOUT_TURNS
+   */
+  private rollout(start: BoardState, random: () => number) {
+    let board = start;
+
+    for (let turn = 0; turn < MAX_ROLLOUT_TURNS; turn++) {
+      const color = board.currentPlayer;
+      const dice = [1 + Math.floor(random() * 6), 1 + Math.floor(random() * 6)];
+      const plays = this.rulesEngine.getLegalSequences(
+        board,
+        this.rulesEngine.expandDice(dice),
+        color,
+      );
+
+      let next = board;
+      let bestScore = -Infinity;
+      for (const play of plays) {
+        const result = play.reduce(
+          (current, move) => this.rulesEngine.applyMove(current, move, color).board,
+          board,
+        );
+        const score = this.expertEngine.evaluate(result, color);
+        if (score > bestScore) {
+          bestScore = score;
+          next = result;
+        }
+      }
+
+      if (next.off[color] === 15) {
+        return { winner: color, resultType: this.rulesEngine.getSetResultType(next, color) };
+      }
+      board = { ...next, currentPlayer: this.rulesEngine.opponentOf(color) };
+    }
+
+    return null;
+  }
+
+  private format(value: number): string {
+    return value.toFixed(3);
+  }
+}
@@ -0,0 +1,73 @@
+import { AIMove, AIDifficulty, BoardState } from '../ai.types';
+import { PlayerSide } from '../../core/rules-engine.service';
+
+/**
+ * 🔌 AI engine contract
+ *
+ * Every engine answers for board.currentPlayer (the player on roll) with the
+ * rules engine's board orientation (⚪ white 23 → 0, ⚫ black 0 → 23).
+ * Engines are looked up in AIEngineRegistry by name ('builtin', 'gnubg', ...).
+ */
+export interface AIEngine {
+  readonly name: string;
+  readonly version: string; // Stored on the game (Game.aiEngineVersion)
+
+  /**
+   * Full play for the roll (a legal sequence from RulesEngineService, [] if no move is possible)
+   */
+  chooseMoves(
+    board: BoardState,
+    dice: [number, number],
+    options: AIEngineOptions,
+  ): Promise<AIMove[]>;
+
+  /**
+   * Position value for board.currentPlayer
+   */
+  evaluate(board: BoardState): Promise<AIEvaluation>;
+
+  /**
+   * 🎲 Offer a double before rolling? (board.currentPlayer is the one who would double)
+   */
+  shouldDouble(board: BoardState, context: CubeContext): Promise<CubeDecision>;
+
+  /**
+   * 🎲 Take a double? (board.currentPlayer is the doubler, context.player decides)
+   */
+  shouldTake(board: BoardState, context: CubeContext): Promise<CubeDecision>;
+}
+
+export interface AIEngineOptions {
+  difficulty: AIDifficulty;
+  timeBudgetMs?: number;
+  random?: () => number; // Seeded per game (Game.aiSeed) - Math.random if not given
+}
+
+export interface AIEvaluation {
+  winProbability: number; // 0-1
+  equity: number; // -1 … 1 (cubeless, gammons not counted)
+}
+
+export interface CubeContext {
+  player: PlayerSide; // Who makes the decision
+  cubeValue: number; // Before the double
+  cubeOwner: PlayerSide | null; // null = centered
+  matchLength: number;
+  score: { white: number; black: number };
+  difficulty: AIDifficulty;
+  random?: () => number; // Seeded per game (Game.aiSeed) - Math.random if not given
+}
+
+/**
+ * 🎲 Cube decision with the numbers behind it (written to the game log)
+ * Probabilities and equity are from context.player's side
+ */
+export interface CubeDecision {
+  action: 'double' | 'no_double' | 'take' | 'drop';
+  winProbability: number;
+  gammonProbability: number; // Wins by mars / backgammon
+  opponentGammonProbability: number;
+  equity: number; // Cubeless, gammons counted double
+  trials: number; // Rollouts played (0 = evaluation only)
+  reason: string;
+}
@@ -0,0 +1,73 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AIDifficulty } from '../ai.types';
+import { SettingsService } from '../../../settings/settings.service';
+import { BuiltinAIEngine } from './builtin-ai.engine';
+import { GnubgEngine } from './gnubg.engine';
+import { AIEngine } from './ai-engine.interface';
+
+/**
+ * 🗂️ AI engines by name
+ *
+ * Which engine plays a game comes from the AI game settings:
+ * - ai.engine_by_difficulty: JSON map, e.g. {"EXPERT": "gnubg"}
+ * - ai.default_engine: everything else (default 'builtin')
+ * Unknown names fall back to the built-in engine.
+ */
+@Injectable()
+export class AIEngineRegistry {
+  private readonly logger = new Logger(AIEngineRegistry.name);
+  private readonly engines = new Map<string, AIEngine>();
+
+  constructor(
+    private settingsService: SettingsService,
+    private builtinEngine: BuiltinAIEngine,
+    gnubgEngine: GnubgEngine,
+  ) {
+    this.register(builtinEngine);
+    this.register(gnubgEngine);
+  }
+
+  register(engine: AIEngine) {
+    this.engines.set(engine.name, engine);
+  }
+
+  get(name: string): AIEngine | undefined {
+    return this.engines.get(name);
+  }
+
+  list(): string[] {
+    return [...this.engines.keys()];
+  }
+
+  /**
+   * Engine of a game - the one picked at creation (Game.aiEngine), settings for older games
+   */
+  async forGame(game: { aiEngine: string | null }, difficulty: AIDifficulty): Promise<AIEngine> {
+    return (game.aiEngine && this.engines.get(game.aiEngine)) || this.getEngine(difficulty);
+  }
+
+  /**
+   * Engine configured for a difficulty level
+   */
+  async getEngine(difficulty: AIDifficulty): Promise<AIEngine> {
+    const byDifficulty = await this.settingsService.getGameSetting('ai.engine_by_difficulty');
+    let name: string | undefined;
+
+    try {
+      name = byDifficulty ? JSON.parse(byDifficulty.value)[difficulty] : undefined;
+    } catch {
+      this.logger.warn('⚠️ ai.engine_by_difficulty is not valid JSON - ignored');
+    }
+
+    if (!name) {
+      name = (await this.settingsService.getGameSetting('ai.default_engine'))?.value || 'builtin';
+    }
+
+    const engine = this.engines.get(name);
+    if (!engine) {
+      this.logger.warn(`⚠️ Unknown AI engine "${name}" - using built-in engine`);
+      return this.builtinEngine;
+    }
+    return engine;
+  }
+}
@@ -0,0 +1,48 @@
+import { Injectable } from '@nestjs/common';
+import { AIPlayerService } from '../ai-player.service';
+import { AIMove, BoardState } from '../ai.types';
+import { ExpertEngineService } from '../expert-engine.service';
+import {
+  AIEngine,
+  AIEngineOptions,
+  AIEvaluation,
+  CubeContext,
+  CubeDecision,
+} from './ai-engine.interface';
+
+/**
+ * 🤖 Built-in engine - AIPlayerService levels (EXPERT = ExpertEngineService search,
+ * cube = CubeDecisionService)
+ * Also the fallback of every external engine
+ */
+@Injectable()
+export class BuiltinAIEngine implements AIEngine {
+  readonly name = 'builtin';
+  readonly version = '2.1'; // 2.0 = 2-ply search for EXPERT, 2.1 = cube decisions
+
+  constructor(
+    private aiPlayerService: AIPlayerService,
+    private expertEngine: ExpertEngineService,
+  ) {}
+
+  async chooseMoves(
+    board: BoardState,
+    dice: [number, number],
+    options: AIEngineOptions,
+  ): Promise<AIMove[]> {
+    return this.aiPlayerService.makeMove(board, dice, options.difficulty, options.random);
+  }
+
+  async evaluate(board: BoardState): Promise<AIEvaluation> {
+    const winProbability = this.expertEngine.winProbability(board, board.currentPlayer);
+    return { winProbability, equity: 2 * winProbability - 1 };
+  }
+
+  async shouldDouble(board: BoardState, context: CubeContext): Promise<CubeDecision> {
+    return this.aiPlayerService.decideDouble(board, context);
+  }
+
+  async shouldTake(board: BoardState, context: CubeContext): Promise<CubeDecision> {
+    return this.aiPlayerService.decideTake(board, context);
+  }
+}
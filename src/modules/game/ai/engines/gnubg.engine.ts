@@ -0,0 +1,292 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createConnection } from 'net';
+import { AIMove, BoardState } from '../ai.types';
+import { RulesEngineService, PlayerSide } from '../../core/rules-engine.service';
+import { SettingsService } from '../../../settings/settings.service';
+import { parseMoveText, toInternalPoint } from '../../core/move-notation';
+import { BuiltinAIEngine } from './builtin-ai.engine';
+import {
+  AIEngine,
+  AIEngineOptions,
+  AIEvaluation,
+  CubeContext,
+  CubeDecision,
+} from './ai-engine.interface';
+
+// FIBS match length for "unlimited" (money play) - used for checker play without match context
+const MONEY_MATCH_LENGTH = 9999;
+
+const DEFAULT_HOST = 'localhost';
+const DEFAULT_PORT = 7000;
+const DEFAULT_TIMEOUT_MS = 3000;
+
+interface FibsBoardOptions {
+  player: PlayerSide; // "You" in the FIBS board
+  dice: [number, number] | null; // null = cube decision
+  turn: PlayerSide;
+  cube?: CubeContext;
+  wasDoubled?: boolean;
+  checkersToMove?: number;
+}
+
+/**
+ * 🔌 GNU Backgammon in external player mode
+ *
+ * Start gnubg with `external <port>` - it listens on a TCP socket and answers every
+ * FIBS board line ("board:You:Opponent:...") with one line:
+ * - Checker play: the move in standard notation ("24/18 13/11")
+ * - Cube: "double" / "roll" on our turn, "take" / "drop" after a double
+ *
+ * Host, port and timeout come from the AI game settings. Requests are serialized (gnubg
+ * serves one client at a time); any failure - connection, timeout, unreadable or illegal
+ * answer - falls back to the built-in engine.
+ */
+@Injectable()
+export class GnubgEngine implements AIEngine {
+  readonly name = 'gnubg';
+  readonly version = 'external'; // Whatever gnubg build runs behind the socket
+  private readonly logger = new Logger(GnubgEngine.name);
+
+  // Tail of the request queue
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private settingsService: SettingsService,
+    private rulesEngine: RulesEngineService,
+    private builtinEngine: BuiltinAIEngine,
+  ) {}
+
+  async chooseMoves(
+    board: BoardState,
+    dice: [number, number],
+    options: AIEngineOptions,
+  ): Promise<AIMove[]> {
+    const player = board.currentPlayer;
+    const sequences = this.rulesEngine.getLegalSequences(
+      board,
+      this.rulesEngine.expandDice(dice),
+      player,
+    );
+    if (sequences.length <= 1) {
+      return sequences[0] ?? [];
+    }
+
+    try {
+      const reply = await this.request(
+        this.toFibsBoard(board, {
+          player,
+          dice,
+          turn: player,
+          checkersToMove: sequences[0].length,
+        }),
+      );
+      return this.matchLegalSequence(board, sequences, parseMoveText(reply, dice, player));
+    } catch (error) {
+      this.logger.warn(`⚠️ gnubg move failed (${error.message}) - using built-in engine`);
+      return this.builtinEngine.chooseMoves(board, dice, options);
+    }
+  }
+
+  async evaluate(board: BoardState): Promise<AIEvaluation> {
+    // External player mode only answers with decisions, not probabilities
+    return this.builtinEngine.evaluate(board);
+  }
+
+  async shouldDouble(board: BoardState, context: CubeContext): Promise<CubeDecision> {
+    try {
+      const reply = await this.request(
+        this.toFibsBoard(board, {
+          player: context.player,
+          dice: null,
+          turn: context.player,
+          cube: context,
+        }),
+      );
+      if (/^double/.test(reply)) {
+        return this.withEstimate(this.builtinEngine.shouldDouble(board, context), 'double', reply);
+      }
+      if (/^(roll|no double)/.test(reply)) {
+        return this.withEstimate(
+          this.builtinEngine.shouldDouble(board, context),
+          'no_double',
+          reply,
+        );
+      }
+      throw new Error(`unexpected answer "${reply}"`);
+    } catch (error) {
+      this.logger.warn(
+        `⚠️ gnubg double decision failed (${error.message}) - using built-in engine`,
+      );
+      return this.builtinEngine.shouldDouble(board, context);
+    }
+  }
+
+  async shouldTake(board: BoardState, context: CubeContext): Promise<CubeDecision> {
+    try {
+      const reply = await this.request(
+        this.toFibsBoard(board, {
+          player: context.player,
+          dice: null,
+          turn: board.currentPlayer,
+          cube: context,
+          wasDoubled: true,
+        }),
+      );
+      if (/^(take|accept|beaver)/.test(reply)) {
+        return this.withEstimate(this.builtinEngine.shouldTake(board, context), 'take', reply);
+      }
+      if (/^(drop|pass|reject)/.test(reply)) {
+        return this.withEstimate(this.builtinEngine.shouldTake(board, context), 'drop', reply);
+      }
+      throw new Error(`unexpected answer "${reply}"`);
+    } catch (error) {
+      this.logger.warn(`⚠️ gnubg take decision failed (${error.message}) - using built-in engine`);
+      return this.builtinEngine.shouldTake(board, context);
+    }
+  }
+
+  /**
+   * gnubg's answer with the built-in estimate (external player mode gives no probabilities)
+   */
+  private async withEstimate(
+    estimate: Promise<CubeDecision>,
+    action: CubeDecision['action'],
+    reply: string,
+  ): Promise<CubeDecision> {
+    return { ...(await estimate), action, reason: `gnubg: "${reply}"` };
+  }
+
+  /**
+   * The engine's play must produce the same position as one of our legal sequences
+   * (the text doesn't say in which order the dice were used)
+   */
+  private matchLegalSequence(board: BoardState, sequences: AIMove[][], moves: AIMove[]): AIMove[] {
+    const player = board.currentPlayer;
+    const resultOf = (play: AIMove[]) =>
+      JSON.stringify(
+        play.reduce(
+          (current, move) => this.rulesEngine.applyMove(current, move, player).board,
+          board,
+        ),
+      );
+
+    const target = resultOf(moves);
+    const match = sequences.find((sequence) => resultOf(sequence) === target);
+    if (!match) {
+      throw new Error('illegal play');
+    }
+    return match;
+  }
+
+  /**
+   * FIBS board line from `player`'s side: we are O (colour 1), moving 24 → 1
+   * (home 0, bar 25); our checkers positive, the opponent's negative
+   */
+  private toFibsBoard(board: BoardState, options: FibsBoardOptions): string {
+    const { player, dice, cube } = options;
+    const opponent = this.rulesEngine.opponentOf(player);
+
+    const points: number[] = [-board.bar[opponent]];
+    for (let point = 1; point <= 24; point++) {
+      const internal = board.points[toInternalPoint(point, player)];
+      points.push(internal[player] - internal[opponent]);
+    }
+    points.push(board.bar[player]);
+
+    const mayDouble = (side: PlayerSide) =>
+      cube && (cube.cubeOwner === null || cube.cubeOwner === side) ? 1 : 0;
+
+    return [
+      'board',
+      'You',
+      'Opponent',
+      cube ? cube.matchLength : MONEY_MATCH_LENGTH,
+      cube ? cube.score[player] : 0,
+      cube ? cube.score[opponent] : 0,
+      ...points,
+      options.turn === player ? 1 : -1,
+      dice ? dice[0] : 0,
+      dice ? dice[1] : 0,
+      0,
+      0,
+      cube ? cube.cubeValue : 1,
+      mayDouble(player),
+      mayDouble(opponent),
+      options.wasDoubled ? 1 : 0,
+      1, // colour
+      -1, // direction
+      0, // home
+      25, // bar
+      board.off[player],
+      board.off[opponent],
+      board.bar[player],
+      board.bar[opponent],
+      options.checkersToMove ?? 0,
+      0, // forced move
+      0, // did crawford
+      0, // redoubles
+    ].join(':');
+  }
+
+  /**
+   * One board line → one reply line, queued behind earlier requests
+   */
+  private request(line: string): Promise<string> {
+    const run = () => this.exchange(line);
+    const result = this.queue.then(run, run);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async exchange(line: string): Promise<string> {
+    const host =
+      (await this.settingsService.getGameSetting('ai.external_engine_host'))?.value || DEFAULT_HOST;
+    const port = await this.getNumberSetting('ai.external_engine_port', DEFAULT_PORT);
+    const timeoutMs = await this.getNumberSetting(
+      'ai.external_engine_timeout_ms',
+      DEFAULT_TIMEOUT_MS,
+    );
+
+    return new Promise((resolve, reject) => {
+      const socket = createConnection({ host, port });
+      let buffer = '';
+
+      const finish = (error: Error | null, reply = '') => {
+        clearTimeout(timer);
+        socket.destroy();
+        if (error) {
+          reject(error);
+        } else {
+          resolve(reply);
+        }
+      };
+
+      const timer = setTimeout(
+        () => finish(new Error(`no answer within ${timeoutMs}ms`)),
+        timeoutMs,
+      );
+
+      socket.setEncoding('utf8');
+      socket.on('connect', () => socket.write(`${line}\r\n`));
+      socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        const reply = buffer
+          .split(/\r?\n/)
+          .slice(0, -1)
+          .map((text) => text.trim())
+          .find(Boolean);
+        if (reply) {
+          finish(null, reply.toLowerCase());
+        }
+      });
+      socket.on('error', (error) => finish(error));
+      socket.on('close', () => finish(new Error('connection closed')));
+    });
+  }
+
+  private async getNumberSetting(key: string, fallback: number): Promise<number> {
+    const setting = await this.settingsService.getGameSetting(key);
+    const value = setting ? parseInt(setting.value, 10) : NaN;
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  }
+}
@@ -0,0 +1,134 @@
+import { RulesEngineService, PlayerSide } from '../core/rules-engine.service';
+import { AIPlayerService } from './ai-player.service';
+import { AIDifficulty, BoardState } from './ai.types';
+import { CubeDecisionService } from './cube-decision.service';
+import { ExpertEngineService } from './expert-engine.service';
+import { createSeededRandom } from './seeded-random';
+
+// Seeded dice and HARD picks - the benchmark plays the same games on every run
+// Slow (~2 min) - only with BENCHMARK=1 (npm run test:benchmark)
+const describeBenchmark = process.env.BENCHMARK ? describe : describe.skip;
+const BENCHMARK_GAMES = 12;
+const MIN_EXPERT_WINS = 8;
+const MAX_TURNS = 300;
+
+describe('ExpertEngineService', () => {
+  let rules: RulesEngineService;
+  let expert: ExpertEngineService;
+  let aiPlayer: AIPlayerService;
+
+  beforeEach(() => {
+    rules = new RulesEngineService();
+    expert = new ExpertEngineService(rules);
+    aiPlayer = new AIPlayerService(rules, expert, new CubeDecisionService(rules, expert));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * One set to the end, EXPERT against HARD - returns the winner
+   */
+  async function playBenchmarkGame(gameIndex: number, expertColor: PlayerSide) {
+    const random = createSeededRandom('expert-benchmark', `game-${gameIndex}`);
+    let board: BoardState = {
+      ...rules.initialBoard(),
+      currentPlayer: gameIndex % 2 ? 'black' : 'white',
+    };
+
+    for (let turn = 0; turn < MAX_TURNS; turn++) {
+      const color = board.currentPlayer;
+      const dice: [number, number] = [1 + Math.floor(random() * 6), 1 + Math.floor(random() * 6)];
+      const difficulty = color === expertColor ? AIDifficulty.EXPERT : AIDifficulty.HARD;
+      const moves = await aiPlayer.makeMove(board, dice, difficulty, random);
+
+      for (const move of moves) {
+        board = { ...rules.applyMove(board, move, color).board, currentPlayer: color };
+      }
+      if (board.off[color] === 15) {
+        return color;
+      }
+      board = { ...board, currentPlayer: rules.opponentOf(color) };
+    }
+
+    throw new Error(`Game ${gameIndex} did not finish in ${MAX_TURNS} turns`);
+  }
+
+  describeBenchmark('benchmark', () => {
+    it('beats HARD in a seeded benchmark', async () => {
+      let expertWins = 0;
+
+      for (let game = 0; game < BENCHMARK_GAMES; game++) {
+        const expertColor: PlayerSide = game % 4 < 2 ? 'white' : 'black';
+        if ((await playBenchmarkGame(game, expertColor)) === expertColor) {
+          expertWins++;
+        }
+      }
+
+      expect(expertWins).toBeGreaterThanOrEqual(MIN_EXPERT_WINS);
+    }, 180_000);
+  });
+
+  // Opening rolls with a known best play: make the point both dice land on
+  it.each([
+    [[3, 1], 4],
+    [[4, 2], 3],
+    [[6, 1], 6],
+    [[5, 3], 2],
+  ])('makes the book point with an opening %j', async (dice, madePoint) => {
+    const board = rules.initialBoard();
+    const plays = rules.getLegalSequences(board, dice, 'white');
+
+    const chosen = await expert.chooseBestPlay(board, plays);
+    const result = chosen.reduce(
+      (current, move) => rules.applyMove(current, move, 'white').board,
+      board,
+    );
+
+    expect(result.points[madePoint].white).toBe(2);
+  });
+
+  it('returns a legal play', async () => {
+    const board = rules.initialBoard();
+    const plays = rules.getLegalSequences(board, [6, 5], 'white');
+
+    const chosen = await expert.chooseBestPlay(board, plays);
+    expect(plays).toContainEqual(chosen);
+  });
+
+  it('lets timers run while searching', async () => {
+    const board = rules.initialBoard();
+    const plays = rules.getLegalSequences(board, [3, 1], 'white');
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 1);
+
+    await expert.chooseBestPlay(board, plays);
+    clearInterval(timer);
+
+    expect(ticks).toBeGreaterThan(0);
+  });
+
+  it('takes a winning bear-off over anything else', async () => {
+    const points = Array.from({ length: 24 }, () => ({ white: 0, black: 0 }));
+    points[0].white = 1;
+    points[3].white = 1;
+    points[20].black = 15;
+    const board: BoardState = {
+      points,
+      bar: { white: 0, black: 0 },
+      off: { white: 13, black: 0 },
+      currentPlayer: 'white',
+    };
+
+    const plays = rules.getLegalSequences(board, [4, 1], 'white');
+    const chosen = await expert.chooseBestPlay(board, plays);
+    const result = chosen.reduce(
+      (current, move) => rules.applyMove(current, move, 'white').board,
+      board,
+    );
+
+    expect(result.off.white).toBe(15);
+  });
+});
@@ -0,0 +1,288 @@
+import { Injectable } from '@nestjs/common';
+import { AIMove, BoardState } from './ai.types';
+import { RulesEngineService, PlayerSide } from '../core/rules-engine.service';
+
+/**
+ * 🧠 Expert Engine - search-based play for the EXPERT AI level
+ *
+ * SEARCH (2-ply expectiminimax):
+ * - Ply 1: every legal play for our roll, scored by the position evaluator
+ * - Ply 2: for the best candidates, all 21 opponent rolls (doubles 1/36, others 2/36);
+ *   the opponent answers each roll with its best play, we keep the expected value
+ * - Runs under a time budget: candidates are searched best-first; when time runs out
+ *   only the searched ones compete (a 1-ply score is optimistic next to a 2-ply one)
+ * - Yields to the event loop between candidates, so sockets keep flowing during a search
+ *
+ * EVALUATOR (pip units, from the side that just moved - the opponent is on roll):
+ * - Race (no contact): pip count difference
+ * - Contact: pip count, blot exposure by shot counting (each of the 36 rolls),
+ *   primes, home board points (worth more with opponent checkers on the bar),
+ *   anchors in the opponent's home board
+ *
+ * Same board orientation as the rules engine: ⚪ white 23 → 0, ⚫ black 0 → 23
+ */
+
+export const EXPERT_TIME_BUDGET_MS = 1500;
+
+// Evaluator pips → win probability (logistic, scale = 10% of the average pip count, min 8):
+// a 10-pip edge is ≈ 73% at 100 pips, ≈ 65% at the start (167 pips)
+const LOGIT_SCALE_PER_PIP = 0.1;
+const MIN_PIPS_PER_LOGIT = 8;
+
+// Candidates (best 1-ply first) that get the full 2-ply search
+const MAX_SEARCH_CANDIDATES = 8;
+
+const WIN_SCORE = 1000;
+
+/**
+ * Let pending I/O run between chunks of a long synchronous search
+ */
+export function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+// The 21 distinct rolls with their weight out of 36
+const ROLLS: { dice: [number, number]; weight: number }[] = [];
+for (let d1 = 1; d1 <= 6; d1++) {
+  for (let d2 = d1; d2 <= 6; d2++) {
+    ROLLS.push({ dice: [d1, d2], weight: d1 === d2 ? 1 : 2 });
+  }
+}
+
+// Evaluator weights (pip equivalents)
+const WEIGHTS = {
+  onRoll: 4, // Half a roll - the opponent moves next
+  hitTempo: 6, // Lost tempo when a blot is hit, on top of the pips it loses
+  ownExposure: 1, // Our blots - the opponent is on roll
+  opponentExposure: 0.3, // Their blots - we only get to shoot after their move
+  prime: 1.5, // x (longest run of made points)²
+  homePoint: 2, // Per made point in our home board
+  homePointVsBar: 3, // Extra per home point, per opponent checker on the bar
+  anchor: 4, // Per made point in the opponent's home board
+};
+
+@Injectable()
+export class ExpertEngineService {
+  constructor(private rulesEngine: RulesEngineService) {}
+
+  /**
+   * 🎯 Best of the given legal plays for boardState.currentPlayer
+   */
+  async chooseBestPlay(
+    boardState: BoardState,
+    plays: AIMove[][],
+    timeBudgetMs = EXPERT_TIME_BUDGET_MS,
+  ): Promise<AIMove[]> {
+    if (plays.length <= 1) {
+      return plays[0] ?? [];
+    }
+
+    const deadline = Date.now() + timeBudgetMs;
+    const color = boardState.currentPlayer;
+
+    const candidates = plays
+      .map((moves) => {
+        const result = this.play(boardState, moves, color);
+        return { moves, result, score: this.evaluate(result, color) };
+      })
+      .sort((a, b) => b.score - a.score);
+
+    const searched: { moves: AIMove[]; score: number }[] = [];
+    for (const candidate of candidates.slice(0, MAX_SEARCH_CANDIDATES)) {
+      await yieldToEventLoop();
+      if (Date.now() >= deadline) break;
+
+      const expected = this.expectedAfterOpponentRoll(candidate.result, color, deadline);
+      if (expected !== null) {
+        searched.push({ moves: candidate.moves, score: expected });
+      }
+    }
+
+    // Only scores of the same depth are compared: 2-ply if any candidate got it, else 1-ply
+    const ranked = searched.length > 0 ? searched : candidates;
+    return ranked.reduce((best, candidate) => (candidate.score > best.score ? candidate : best))
+      .moves;
+  }
+
+  /**
+   * 📊 Static evaluation of a position for `color`, with the opponent on roll
+   */
+  evaluate(board: BoardState, color: PlayerSide): number {
+    const opponent = this.rulesEngine.opponentOf(color);
+
+    if (board.off[color] === 15) return WIN_SCORE;
+    if (board.off[opponent] === 15) return -WIN_SCORE;
+
+    const pipDifference =
+      this.rulesEngine.pipCount(board, opponent) - this.rulesEngine.pipCount(board, color);
+
+    // 🏁 Pure race: only the pip count matters
+    if (!this.hasContact(board)) {
+      return pipDifference - WEIGHTS.onRoll;
+    }
+
+    let score = pipDifference - WEIGHTS.onRoll;
+    score -= this.expectedHitLoss(board, color) * WEIGHTS.ownExposure;
+    score += this.expectedHitLoss(board, opponent) * WEIGHTS.opponentExposure;
+    score += this.structure(board, color) - this.structure(board, opponent);
+
+    return score;
+  }
+
+  /**
+   * 📊 Cubeless win probability of `color`, with board.currentPlayer on roll
+   */
+  winProbability(board: BoardState, color: PlayerSide): number {
+    // evaluate() scores for the side that just moved
+    const value =
+      board.currentPlayer === color
+        ? -this.evaluate(board, this.rulesEngine.opponentOf(color))
+        : this.evaluate(board, color);
+
+    const averagePips =
+      (this.rulesEngine.pipCount(board, 'white') + this.rulesEngine.pipCount(board, 'black')) / 2;
+    const scale = Math.max(MIN_PIPS_PER_LOGIT, averagePips * LOGIT_SCALE_PER_PIP);
+
+    return 1 / (1 + Math.exp(-value / scale));
+  }
+
+  /**
+   * Ply 2: expected evaluation over the opponent's 21 rolls, each answered with its best play
+   * Returns null when the deadline is hit in the middle (partial averages are misleading)
+   */
+  private expectedAfterOpponentRoll(
+    board: BoardState,
+    color: PlayerSide,
+    deadline: number,
+  ): number | null {
+    const opponent = this.rulesEngine.opponentOf(color);
+    if (board.off[color] === 15) return WIN_SCORE;
+
+    let total = 0;
+    for (const { dice, weight } of ROLLS) {
+      if (Date.now() >= deadline) return null;
+
+      const replies = this.rulesEngine.getLegalSequences(
+        board,
+        this.rulesEngine.expandDice(dice),
+        opponent,
+      );
+
+      // Opponent can't move (dance) - position stays, we are on roll again
+      let best = replies.length === 0 ? -this.evaluate(board, color) : -Infinity;
+      for (const reply of replies) {
+        best = Math.max(best, this.evaluate(this.play(board, reply, opponent), opponent));
+      }
+
+      total += -best * weight;
+    }
+
+    return total / 36;
+  }
+
+  /**
+   * Expected pips (plus tempo) `color` loses to hits on the opponent's next roll (shot counting)
+   */
+  private expectedHitLoss(board: BoardState, color: PlayerSide): number {
+    const attacker = this.rulesEngine.opponentOf(color);
+    const direction = attacker === 'white' ? -1 : 1;
+
+    // Attacker's starting points - the bar counts as point 24 (white) / -1 (black)
+    const sources: number[] = [];
+    if (board.bar[attacker] > 0) {
+      sources.push(attacker === 'white' ? 24 : -1);
+    } else {
+      for (let i = 0; i < 24; i++) {
+        if (board.points[i][attacker] > 0) sources.push(i);
+      }
+    }
+
+    const blotLoss = (point: number) => {
+      if (point < 0 || point > 23 || board.points[point][color] !== 1) return 0;
+      // Pips the blot has already travelled (it restarts from the bar)
+      return (color === 'white' ? 24 - point : point + 1) + WEIGHTS.hitTempo;
+    };
+    const isOpen = (point: number) => point >= 0 && point <= 23 && board.points[point][color] < 2;
+
+    let expected = 0;
+    for (const { dice, weight } of ROLLS) {
+      let worst = 0;
+
+      for (const source of sources) {
+        // Single die
+        for (const die of new Set(dice)) {
+          worst = Math.max(worst, blotLoss(source + direction * die));
+        }
+
+        // Both dice (doubles: up to four steps), every intermediate point must be open
+        const steps = dice[0] === dice[1] ? [dice[0], dice[0], dice[0], dice[0]] : dice;
+        const orders = dice[0] === dice[1] ? [steps] : [steps, [steps[1], steps[0]]];
+        for (const order of orders) {
+          let point = source;
+          for (let step = 0; step < order.length; step++) {
+            point += direction * order[step];
+            if (step > 0) worst = Math.max(worst, blotLoss(point));
+            if (!isOpen(point)) break;
+          }
+        }
+      }
+
+      expected += worst * weight;
+    }
+
+    return expected / 36;
+  }
+
+  /**
+   * Primes, home board and anchors of `color`
+   */
+  private structure(board: BoardState, color: PlayerSide): number {
+    const opponent = this.rulesEngine.opponentOf(color);
+    const isMade = (point: number) => board.points[point][color] >= 2;
+
+    let longestPrime = 0;
+    let run = 0;
+    for (let i = 0; i < 24; i++) {
+      run = isMade(i) ? run + 1 : 0;
+      longestPrime = Math.max(longestPrime, run);
+    }
+
+    let homePoints = 0;
+    let anchors = 0;
+    for (let i = 0; i < 6; i++) {
+      const home = color === 'white' ? i : 23 - i;
+      const opponentHome = color === 'white' ? 23 - i : i;
+      if (isMade(home)) homePoints++;
+      if (isMade(opponentHome)) anchors++;
+    }
+
+    return (
+      longestPrime * longestPrime * WEIGHTS.prime +
+      homePoints * (WEIGHTS.homePoint + WEIGHTS.homePointVsBar * board.bar[opponent]) +
+      Math.min(anchors, 2) * WEIGHTS.anchor
+    );
+  }
+
+  /**
+   * Contact = some checker still has to pass an opponent checker
+   */
+  hasContact(board: BoardState): boolean {
+    if (board.bar.white > 0 || board.bar.black > 0) return true;
+
+    let whiteBack = -1; // ⚪ furthest back = highest point
+    let blackBack = 24; // ⚫ furthest back = lowest point
+    for (let i = 0; i < 24; i++) {
+      if (board.points[i].white > 0) whiteBack = i;
+      if (board.points[23 - i].black > 0) blackBack = 23 - i;
+    }
+
+    return whiteBack > blackBack;
+  }
+
+  private play(board: BoardState, moves: AIMove[], color: PlayerSide): BoardState {
+    return moves.reduce(
+      (current, move) => this.rulesEngine.applyMove(current, move, color).board,
+      board,
+    );
+  }
+}
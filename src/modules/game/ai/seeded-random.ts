@@ -0,0 +1,24 @@
+import { createHmac } from 'crypto';
+
+/**
+ * 🎲 Reproducible random numbers for the AI's choices (Game.aiSeed)
+ *
+ * Floats in [0, 1) read 4 bytes at a time from
+ * HMAC-SHA256(key: seed, message: `${message}:${block}`) - same seed and message, same sequence
+ */
+export function createSeededRandom(seed: string, message: string): () => number {
+  let block = 0;
+  let bytes = Buffer.alloc(0);
+  let offset = 0;
+
+  return () => {
+    if (offset + 4 > bytes.length) {
+      bytes = createHmac('sha256', seed).update(`${message}:${block++}`).digest();
+      offset = 0;
+    }
+
+    const value = bytes.readUInt32BE(offset);
+    offset += 4;
+    return value / 0x100000000;
+  };
+}
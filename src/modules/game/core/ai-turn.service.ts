@@ -0,0 +1,238 @@
+import { Injectable, Logger, Inject, Optional, forwardRef } from '@nestjs/common';
+import { Game } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma.service';
+import { SettingsService } from '../../settings/settings.service';
+import { AIDifficulty, AIMove } from '../ai/ai.types';
+import { AIEngineRegistry } from '../ai/engines/ai-engine.registry';
+import { createSeededRandom } from '../ai/seeded-random';
+import { RulesEngineService, PlayerSide } from './rules-engine.service';
+import { DoublingCube, GameService } from '../game.service';
+import { GameGateway } from '../game.gateway';
+
+type AISeatGame = Pick<Game, 'gameType' | 'whitePlayerId' | 'blackPlayerId' | 'gameState'>;
+
+/**
+ * gameState keys the AI turn reads
+ */
+interface AITurnState {
+  phase?: string;
+  currentPlayer?: PlayerSide;
+  botPlayerColor?: PlayerSide;
+  cube?: DoublingCube;
+  turnCompleted?: boolean;
+  currentTurnDice?: number[] | null;
+  remainingDice?: number[] | null;
+  aiDifficulty?: AIDifficulty;
+}
+
+/**
+ * 🤖 AI Turn Service - the server plays the AI seat's turns
+ * (AI games and the isBot seat of a matchmaking bot game - Game.gameState.botPlayerColor)
+ *
+ * When it becomes the AI's turn (scheduleAITurn - after Done, opening roll, a taken
+ * AI double, a new set; GameCronService resumes stalled turns):
+ * 1. Cube: the AI may double first (GameService.offerAIDouble) - then it waits for the answer
+ * 2. Roll: rollDiceForGame as the AI seat → diceRolled
+ * 3. Think: random delay between ai.move_delay_min and ai.move_delay_max
+ * 4. Play: every checker move goes through recordMove (validated, opponentMove per checker)
+ * 5. Done: endTurn as the AI seat → turnChanged
+ *
+ * Same GameService paths as a human player - no client ever acts for the AI seat.
+ * One turn per game at a time; a request while it runs is played right after it.
+ */
+@Injectable()
+export class AITurnService {
+  private readonly logger = new Logger(AITurnService.name);
+  private readonly AI_PLAYER_ID = '00000000-0000-0000-0000-000000000001';
+
+  // Games whose AI turn is being played / asked for again while it was running
+  private readonly running = new Set<string>();
+  private readonly pending = new Set<string>();
+
+  constructor(
+    private prisma: PrismaService,
+    private settingsService: SettingsService,
+    private rulesEngine: RulesEngineService,
+    private aiEngineRegistry: AIEngineRegistry,
+    @Inject(forwardRef(() => GameService)) private gameService: GameService,
+    @Optional() @Inject(forwardRef(() => GameGateway)) private gameGateway?: GameGateway,
+  ) {}
+
+  /**
+   * ▶️ Play the AI's turn in the background (no-op when it isn't the AI's turn)
+   */
+  scheduleAITurn(gameId: string) {
+    if (this.running.has(gameId)) {
+      this.pending.add(gameId);
+      return;
+    }
+
+    this.running.add(gameId);
+    this.playAITurn(gameId)
+      .catch((error) => this.logger.error(`🤖 AI turn failed in game ${gameId}: ${error.message}`))
+      .finally(() => {
+        this.running.delete(gameId);
+        if (this.pending.delete(gameId)) {
+          this.scheduleAITurn(gameId);
+        }
+      });
+  }
+
+  /**
+   * 🔁 Pick up AI turns nobody scheduled (server restart, failed turn)
+   * @returns Number of games whose AI turn was scheduled
+   */
+  async resumeStalledTurns(): Promise<number> {
+    const games = await this.prisma.game.findMany({
+      where: { status: 'ACTIVE', OR: [{ gameType: 'AI' }, { aiEngine: { not: null } }] },
+    });
+
+    let resumedCount = 0;
+    for (const game of games) {
+      if (!this.running.has(game.id) && this.isAITurn(game)) {
+        this.scheduleAITurn(game.id);
+        resumedCount++;
+      }
+    }
+
+    return resumedCount;
+  }
+
+  /**
+   * Is the AI seat to act? (not during the opening roll or a pending double)
+   */
+  isAITurn(game: AISeatGame & Pick<Game, 'status'>): boolean {
+    const gameState = game.gameState as AITurnState | null;
+    const seat = this.getAISeat(game);
+
+    return (
+      !!seat &&
+      game.status === 'ACTIVE' &&
+      gameState?.phase !== 'opening' &&
+      !gameState?.cube?.offer &&
+      gameState?.currentPlayer === seat.color
+    );
+  }
+
+  /**
+   * Seat the server plays: the AI player of an AI game, the isBot user of a bot game
+   * (null when both seats are humans)
+   */
+  getAISeat(game: AISeatGame): { color: PlayerSide; userId: string } | null {
+    const color: PlayerSide | undefined =
+      game.gameType === 'AI'
+        ? game.whitePlayerId === this.AI_PLAYER_ID
+          ? 'white'
+          : 'black'
+        : (game.gameState as AITurnState | null)?.botPlayerColor;
+
+    if (color !== 'white' && color !== 'black') {
+      return null;
+    }
+
+    return { color, userId: color === 'white' ? game.whitePlayerId : game.blackPlayerId };
+  }
+
+  /**
+   * 🎲 One AI turn: double? → roll → think → moves → Done
+   */
+  private async playAITurn(gameId: string) {
+    let game = await this.prisma.game.findUnique({ where: { id: gameId } });
+    if (!game || !this.isAITurn(game)) {
+      return;
+    }
+
+    const { color: aiColor, userId: aiUserId } = this.getAISeat(game)!;
+    const delays = await this.settingsService.getAIMoveDelays();
+
+    // ✋ Picks up the dice (lets the opponent's Done reach the clients first)
+    await this.wait(delays.min);
+
+    if (!this.hasRolled(game.gameState as AITurnState)) {
+      const aiDouble = await this.gameService.offerAIDouble(gameId);
+      if (aiDouble) {
+        this.logger.log(`🤖🎲 AI doubled in game ${gameId} - waiting for the answer`);
+        return;
+      }
+
+      const roll = await this.gameService.rollDiceForGame(gameId, aiUserId);
+      this.gameGateway?.emitDiceRolled(gameId, aiColor, roll.dice);
+    }
+
+    // 🤔 Thinking time
+    await this.wait(this.randomDelay(delays.min, delays.max));
+
+    game = await this.prisma.game.findUniqueOrThrow({ where: { id: gameId } });
+    const moves = await this.chooseMoves(game, aiColor);
+
+    for (const [index, move] of moves.entries()) {
+      if (index > 0) {
+        await this.wait(delays.min);
+      }
+
+      const result = await this.gameService.recordMove(gameId, aiUserId, {
+        playerColor: aiColor === 'white' ? 'WHITE' : 'BLACK',
+        moveNumber: 0, // Assigned by server
+        from: move.from,
+        to: move.to,
+        diceUsed: move.diceUsed,
+      });
+
+      // 🏁 Last checker off - set / match handled by recordMove
+      if (result.setOver) {
+        return;
+      }
+    }
+
+    const turn = await this.gameService.endTurn(gameId, aiUserId);
+    if (turn.nextPlayer) {
+      this.gameGateway?.emitTurnChanged(gameId, turn.nextPlayer);
+    }
+
+    this.logger.log(`🤖 AI (${aiColor}) played ${moves.length} move(s) in game ${gameId}`);
+  }
+
+  /**
+   * Engine's play for the locked roll
+   * (turn resumed after some moves: first legal play of the dice left)
+   */
+  private async chooseMoves(game: Game, aiColor: PlayerSide): Promise<AIMove[]> {
+    const gameState = game.gameState as AITurnState;
+    const dice = gameState.currentTurnDice as [number, number];
+    const fullDice = this.rulesEngine.expandDice(dice);
+    const remainingDice: number[] = Array.isArray(gameState.remainingDice)
+      ? gameState.remainingDice
+      : fullDice;
+    const board = { ...this.rulesEngine.fromGameState(gameState), currentPlayer: aiColor };
+
+    if (remainingDice.length !== fullDice.length) {
+      return this.rulesEngine.getLegalSequences(board, remainingDice, aiColor)[0] ?? [];
+    }
+
+    // Get AI difficulty from game (gameState only for games created before the column)
+    const difficulty = (game.aiDifficulty || gameState.aiDifficulty || 'MEDIUM') as AIDifficulty;
+    const engine = await this.aiEngineRegistry.forGame(game, difficulty);
+
+    return engine.chooseMoves(board, dice, {
+      difficulty,
+      // 🎲 Same seed + roll = same play (diceNonce is unique per roll)
+      random: game.aiSeed ? createSeededRandom(game.aiSeed, `${game.diceNonce}`) : undefined,
+    });
+  }
+
+  private hasRolled(gameState: AITurnState): boolean {
+    return (
+      gameState.turnCompleted === false &&
+      Array.isArray(gameState.currentTurnDice) &&
+      gameState.currentTurnDice.length === 2
+    );
+  }
+
+  private randomDelay(min: number, max: number): number {
+    return min + Math.floor(Math.random() * (Math.max(max, min) - min + 1));
+  }
+
+  private wait(ms: number) {
+    return new Promise((resolve) => setTimeout(resolve, Math.max(ms, 0)));
+  }
+}
@@ -0,0 +1,220 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { Game, Prisma } from '@prisma/client';
+import { SettingsService } from '../../settings/settings.service';
+
+/**
+ * 💰 Bet Escrow Service - Money lifecycle of wagered games
+ *
+ * All balances live in UserStats.balance (USDT). Every step runs inside the
+ * caller's Prisma transaction, together with the game status change:
+ * - lockStakes()  - game created    → both stakes taken from balance (GAME_BET)
+ * - raiseStakes() - double accepted → both players add stake up to bet x new cube value
+ * - settle()      - game completed  → pot minus house rake to the winner (GAME_WIN / GAME_LOSS)
+ * - refund()      - game cancelled  → both stakes returned (GAME_REFUND)
+ *
+ * Game.escrowedStake is what each player has in escrow - settle() / refund() pay
+ * from it, never from the cube value (the cube is centered again every set).
+ *
+ * 🔒 SAFETY:
+ * - Stakes are only taken if balance >= amount (balances never go negative)
+ * - settle() / refund() first claim Game.betStatus ESCROWED → SETTLED / REFUNDED,
+ *   so a second call is a no-op (nothing is ever paid twice)
+ */
+@Injectable()
+export class BetEscrowService {
+  constructor(private settingsService: SettingsService) {}
+
+  /**
+   * Lock both players' stakes for a newly created bet game (created with betStatus ESCROWED)
+   * Throws 400 if either player can't cover the bet (whole transaction rolls back)
+   */
+  async lockStakes(tx: Prisma.TransactionClient, game: Game) {
+    if (!game.betAmount) return;
+
+    await this.takeStakes(tx, game, game.betAmount, 1);
+    await tx.game.update({ where: { id: game.id }, data: { escrowedStake: game.betAmount } });
+
+    console.log(`💰 Escrowed 2 x ${game.betAmount} for game ${game.id}`);
+  }
+
+  /**
+   * Top up both stakes to bet x cubeValue (no-op if that much is already in escrow)
+   * Throws 400 if either player can't cover the extra stake
+   */
+  async raiseStakes(tx: Prisma.TransactionClient, game: Game, cubeValue: number) {
+    if (!game.betAmount) return;
+
+    const escrowed = await this.getEscrowedStake(tx, game.id);
+    const extra = this.extraStake(game, escrowed, cubeValue);
+    if (extra.lte(0)) return;
+
+    await this.takeStakes(tx, game, extra, cubeValue);
+    await tx.game.update({
+      where: { id: game.id },
+      data: { escrowedStake: escrowed.add(extra) },
+    });
+
+    console.log(`💰 Cube ${cubeValue}: escrowed 2 x ${extra} more for game ${game.id}`);
+  }
+
+  /**
+   * Extra stake each player needs for bet x cubeValue (0 if already covered)
+   */
+  extraStake(game: Pick<Game, 'betAmount'>, escrowed: Prisma.Decimal | null, cubeValue: number) {
+    const target = (game.betAmount ?? new Prisma.Decimal(0)).mul(cubeValue);
+    const extra = target.sub(escrowed ?? 0);
+    return extra.gt(0) ? extra : new Prisma.Decimal(0);
+  }
+
+  /**
+   * Pay the pot (minus house rake) to the winner of a completed game
+   */
+  async settle(tx: Prisma.TransactionClient, game: Game, winner: 'WHITE' | 'BLACK') {
+    if (!game.betAmount || !(await this.claim(tx, game.id, 'SETTLED'))) return;
+
+    const rakePercent = await this.getRakePercent();
+    const stake = await this.getEscrowedStake(tx, game.id);
+    const pot = stake.mul(2);
+    const rake = pot.mul(rakePercent).div(100).toDecimalPlaces(6, Prisma.Decimal.ROUND_DOWN);
+    const payout = pot.sub(rake);
+
+    const winnerUserId = winner === 'WHITE' ? game.whitePlayerId : game.blackPlayerId;
+    const loserUserId = winner === 'WHITE' ? game.blackPlayerId : game.whitePlayerId;
+
+    await this.credit(tx, winnerUserId, payout);
+
+    await tx.transaction.create({
+      data: {
+        userId: winnerUserId,
+        type: 'GAME_WIN',
+        amount: payout,
+        status: 'COMPLETED',
+        completedAt: new Date(),
+        metadata: {
+          gameId: game.id,
+          stake: stake.toString(),
+          pot: pot.toString(),
+          rake: rake.toString(),
+          rakePercent,
+        },
+      },
+    });
+
+    // Loser's stake was already taken at escrow - this row is for history only
+    await tx.transaction.create({
+      data: {
+        userId: loserUserId,
+        type: 'GAME_LOSS',
+        amount: stake,
+        status: 'COMPLETED',
+        completedAt: new Date(),
+        metadata: { gameId: game.id },
+      },
+    });
+
+    console.log(`💰 Settled game ${game.id}: ${payout} to ${winner} (rake ${rake})`);
+  }
+
+  /**
+   * Return both stakes of a cancelled game
+   */
+  async refund(tx: Prisma.TransactionClient, game: Game) {
+    if (!game.betAmount || !(await this.claim(tx, game.id, 'REFUNDED'))) return;
+
+    const stake = await this.getEscrowedStake(tx, game.id);
+
+    for (const userId of [game.whitePlayerId, game.blackPlayerId]) {
+      await this.credit(tx, userId, stake);
+
+      await tx.transaction.create({
+        data: {
+          userId,
+          type: 'GAME_REFUND',
+          amount: stake,
+          status: 'COMPLETED',
+          completedAt: new Date(),
+          metadata: { gameId: game.id },
+        },
+      });
+    }
+
+    console.log(`💰 Refunded 2 x ${stake} for game ${game.id}`);
+  }
+
+  /**
+   * Take the same amount from both players (GAME_BET rows)
+   */
+  private async takeStakes(
+    tx: Prisma.TransactionClient,
+    game: Game,
+    amount: Prisma.Decimal,
+    cubeValue: number,
+  ) {
+    for (const userId of [game.whitePlayerId, game.blackPlayerId]) {
+      const { count } = await tx.userStats.updateMany({
+        where: { userId, balance: { gte: amount } },
+        data: { balance: { decrement: amount } },
+      });
+
+      if (count === 0) {
+        throw new BadRequestException('Insufficient balance for this bet');
+      }
+
+      await tx.transaction.create({
+        data: {
+          userId,
+          type: 'GAME_BET',
+          amount,
+          status: 'COMPLETED',
+          completedAt: new Date(),
+          metadata: { gameId: game.id, cubeValue },
+        },
+      });
+    }
+  }
+
+  /**
+   * Add to a player's balance - creates the UserStats row if the player has none yet
+   * (a failed payout would keep the settlement watchdog retrying forever)
+   */
+  private async credit(tx: Prisma.TransactionClient, userId: string, amount: Prisma.Decimal) {
+    await tx.userStats.upsert({
+      where: { userId },
+      create: { userId, balance: amount },
+      update: { balance: { increment: amount } },
+    });
+  }
+
+  /**
+   * Move betStatus out of ESCROWED exactly once - false if already settled / refunded
+   */
+  private async claim(
+    tx: Prisma.TransactionClient,
+    gameId: string,
+    betStatus: 'SETTLED' | 'REFUNDED',
+  ) {
+    const { count } = await tx.game.updateMany({
+      where: { id: gameId, betStatus: 'ESCROWED' },
+      data: { betStatus },
+    });
+    return count === 1;
+  }
+
+  /**
+   * Each player's stake in escrow, read inside the transaction
+   * (games escrowed before the column: the bet itself)
+   */
+  private async getEscrowedStake(tx: Prisma.TransactionClient, gameId: string) {
+    const game = await tx.game.findUniqueOrThrow({
+      where: { id: gameId },
+      select: { betAmount: true, escrowedStake: true },
+    });
+    return game.escrowedStake ?? game.betAmount ?? new Prisma.Decimal(0);
+  }
+
+  private async getRakePercent(): Promise<number> {
+    const setting = await this.settingsService.getGameSetting('game.house_rake_percent');
+    const percent = setting ? parseFloat(setting.value) : 0;
+    return Number.isFinite(percent) ? Math.min(Math.max(percent, 0), 100) : 0;
+  }
+}
@@ -0,0 +1,265 @@
+import { Injectable, Logger, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma.service';
+import { AIPlayerService } from '../ai/ai-player.service';
+import { AIMove, BoardState } from '../ai/ai.types';
+import { GameReplayService, ReplayTurn } from './game-replay.service';
+import { RulesEngineService } from './rules-engine.service';
+
+/**
+ * 📊 Game Analysis Service - post-game move analysis
+ *
+ * Runs in the background (GameCronService) on COMPLETED games:
+ * 1. Replays the game (GameReplayService - game_moves or moveHistory)
+ * 2. For every turn with known dice, scores all legal plays with the AI evaluator
+ *    (AIPlayerService.scorePlays) and the played play with the same weights
+ * 3. Stores equity loss = best score - played score per turn (MoveAnalysis)
+ *
+ * Forced plays (one legal play) are stored but are not decisions, so they don't
+ * lower the error rate. Error rate = average equity loss per decision.
+ *
+ * Scores come from the heuristic evaluator, not a neural net - they rank plays
+ * well enough to find blunders, but are not cubeful equity.
+ */
+
+const ANALYSIS_ENGINE = 'heuristic-v1';
+
+// Equity loss (evaluator score units) above which a play is an error / a blunder
+const ERROR_THRESHOLD = 0.1;
+const BLUNDER_THRESHOLD = 0.3;
+
+export interface PlayerErrorRate {
+  decisions: number;
+  totalLoss: number;
+  errorRate: number;
+  errors: number;
+  blunders: number;
+}
+
+@Injectable()
+export class GameAnalysisService {
+  private readonly logger = new Logger(GameAnalysisService.name);
+  private readonly AI_PLAYER_ID = '00000000-0000-0000-0000-000000000001';
+
+  constructor(
+    private prisma: PrismaService,
+    private gameReplayService: GameReplayService,
+    private rulesEngine: RulesEngineService,
+    private aiPlayerService: AIPlayerService,
+  ) {}
+
+  /**
+   * 🔁 Analyze completed games that have no analysis yet (oldest first)
+   * @returns Number of games analyzed
+   */
+  async analyzePendingGames(limit = 5): Promise<number> {
+    const games = await this.prisma.game.findMany({
+      where: { status: 'COMPLETED', analysis: null },
+      orderBy: { endedAt: 'asc' },
+      take: limit,
+      select: { id: true },
+    });
+
+    for (const game of games) {
+      await this.analyzeGame(game.id);
+    }
+
+    return games.length;
+  }
+
+  /**
+   * 📊 Analyze one game and store the result (COMPLETED, or FAILED with the reason)
+   */
+  async analyzeGame(gameId: string) {
+    let data: Prisma.GameAnalysisUncheckedCreateInput;
+
+    try {
+      const moves = await this.evaluateGame(gameId);
+      data = {
+        gameId,
+        status: 'COMPLETED',
+        engine: ANALYSIS_ENGINE,
+        moves: { createMany: { data: moves } },
+      };
+    } catch (error) {
+      this.logger.warn(`Analysis of game ${gameId} failed: ${error.message}`);
+      data = { gameId, status: 'FAILED', engine: ANALYSIS_ENGINE, error: String(error.message) };
+    }
+
+    try {
+      await this.prisma.gameAnalysis.create({ data });
+    } catch (error) {
+      // Another run analyzed the same game first (gameId is unique)
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return;
+      throw error;
+    }
+  }
+
+  /**
+   * Score every turn of a game against the best legal play for its dice
+   */
+  private async evaluateGame(gameId: string) {
+    const game = await this.prisma.game.findUniqueOrThrow({
+      where: { id: gameId },
+      select: { whitePlayerId: true, blackPlayerId: true },
+    });
+    const replay = await this.gameReplayService.loadReplay(gameId, null);
+
+    const rows: Prisma.MoveAnalysisCreateManyAnalysisInput[] = [];
+    let board = this.rulesEngine.initialBoard();
+    let setNumber = 1;
+
+    for (const turn of replay.turns) {
+      if (turn.setNumber !== setNumber) {
+        board = this.rulesEngine.initialBoard();
+        setNumber = turn.setNumber;
+      }
+
+      const before: BoardState = { ...board, currentPlayer: turn.player };
+
+      // Turns recorded without their roll can't be judged - only advance the board
+      if (turn.dice && turn.dice.length === 2) {
+        const userId = turn.player === 'white' ? game.whitePlayerId : game.blackPlayerId;
+        rows.push({
+          userId: userId === this.AI_PLAYER_ID ? null : userId,
+          ...this.evaluateTurn(turn, before),
+        });
+      }
+
+      for (const move of turn.moves) {
+        board = this.rulesEngine.applyMove(board, move, turn.player).board;
+      }
+    }
+
+    return rows;
+  }
+
+  private evaluateTurn(turn: ReplayTurn, board: BoardState) {
+    const played: AIMove[] = turn.moves.map(({ from, to, diceUsed }) => ({ from, to, diceUsed }));
+    const plays = this.aiPlayerService.scorePlays(board, turn.dice as number[]);
+
+    const playedScore = this.aiPlayerService.scorePlay(played, board);
+    const best = plays[0] ?? { moves: [], score: playedScore };
+    const equityLoss = Math.max(0, best.score - playedScore);
+    const isDecision = plays.length > 1;
+
+    return {
+      playerColor: turn.player === 'white' ? ('WHITE' as const) : ('BLACK' as const),
+      ply: turn.ply,
+      setNumber: turn.setNumber,
+      dice: turn.dice as number[],
+      playedMoves: played as any,
+      bestMoves: best.moves as any,
+      playedScore,
+      bestScore: best.score,
+      equityLoss: isDecision ? equityLoss : 0,
+      legalPlays: plays.length,
+      isError: isDecision && equityLoss >= ERROR_THRESHOLD,
+      isBlunder: isDecision && equityLoss >= BLUNDER_THRESHOLD,
+    };
+  }
+
+  // ========================================================================
+  // 📈 Reports
+  // ========================================================================
+
+  /**
+   * 📊 Analysis of one game: per-player error rates and every analyzed turn
+   * Same access as the replay (players, or anyone once the game is over)
+   */
+  async getGameAnalysis(gameId: string, userId: string) {
+    const game = await this.prisma.game.findUnique({
+      where: { id: gameId },
+      select: { status: true, whitePlayerId: true, blackPlayerId: true },
+    });
+
+    if (!game) {
+      throw new NotFoundException('Game not found');
+    }
+
+    const isPlayer = game.whitePlayerId === userId || game.blackPlayerId === userId;
+    if (!isPlayer && (game.status === 'ACTIVE' || game.status === 'WAITING')) {
+      throw new ForbiddenException('Analysis is available after the game ends');
+    }
+
+    const analysis = await this.prisma.gameAnalysis.findUnique({
+      where: { gameId },
+      include: { moves: { orderBy: { ply: 'asc' } } },
+    });
+
+    // ⏳ Completed games are picked up by the background job
+    if (!analysis) {
+      return { gameId, status: game.status === 'COMPLETED' ? 'PENDING' : 'NOT_AVAILABLE' };
+    }
+
+    return {
+      gameId,
+      status: analysis.status,
+      engine: analysis.engine,
+      error: analysis.error,
+      analyzedAt: analysis.createdAt,
+      thresholds: { error: ERROR_THRESHOLD, blunder: BLUNDER_THRESHOLD },
+      white: this.summarize(analysis.moves.filter((move) => move.playerColor === 'WHITE')),
+      black: this.summarize(analysis.moves.filter((move) => move.playerColor === 'BLACK')),
+      moves: analysis.moves,
+    };
+  }
+
+  /**
+   * 📈 A player's error rate over all their analyzed games (plus the latest games)
+   */
+  async getUserErrorReport(userId: string, limit = 20) {
+    const moves = await this.prisma.moveAnalysis.findMany({
+      where: { userId, analysis: { status: 'COMPLETED' } },
+      select: {
+        equityLoss: true,
+        legalPlays: true,
+        isError: true,
+        isBlunder: true,
+        analysis: { select: { gameId: true, createdAt: true } },
+      },
+    });
+
+    const byGame = new Map<string, { analyzedAt: Date; moves: typeof moves }>();
+    for (const move of moves) {
+      const entry = byGame.get(move.analysis.gameId) ?? {
+        analyzedAt: move.analysis.createdAt,
+        moves: [],
+      };
+      entry.moves.push(move);
+      byGame.set(move.analysis.gameId, entry);
+    }
+
+    const games = [...byGame.entries()]
+      .sort(([, a], [, b]) => b.analyzedAt.getTime() - a.analyzedAt.getTime())
+      .slice(0, limit)
+      .map(([gameId, entry]) => ({
+        gameId,
+        analyzedAt: entry.analyzedAt,
+        ...this.summarize(entry.moves),
+      }));
+
+    return {
+      userId,
+      analyzedGames: byGame.size,
+      thresholds: { error: ERROR_THRESHOLD, blunder: BLUNDER_THRESHOLD },
+      ...this.summarize(moves),
+      games,
+    };
+  }
+
+  private summarize(
+    moves: { equityLoss: number; legalPlays: number; isError: boolean; isBlunder: boolean }[],
+  ): PlayerErrorRate {
+    const decisions = moves.filter((move) => move.legalPlays > 1);
+    const totalLoss = decisions.reduce((sum, move) => sum + move.equityLoss, 0);
+
+    return {
+      decisions: decisions.length,
+      totalLoss: Number(totalLoss.toFixed(4)),
+      errorRate: decisions.length > 0 ? Number((totalLoss / decisions.length).toFixed(4)) : 0,
+      errors: decisions.filter((move) => move.isError).length,
+      blunders: decisions.filter((move) => move.isBlunder).length,
+    };
+  }
+}
@@ -0,0 +1,332 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../../../database/prisma.service';
+import { BoardState } from '../ai/ai.types';
+import { RulesEngineService, PlayerSide } from './rules-engine.service';
+
+/**
+ * 📼 Game Replay Service - move-by-move history of a game
+ *
+ * SOURCES:
+ * - game_moves rows (ordered by moveNumber) while they exist
+ * - Game.moveHistory once the cleanup cron has deleted them (same from / to / dice per move)
+ * - Turn markers ({ type: 'turn' } in moveHistory, written on Done) carry the full roll,
+ *   the clock after the turn and turns without any move (dances)
+ * - Cube actions ({ type: 'cube' } in moveHistory) - double / take / drop between turns
+ *
+ * Every set starts from RulesEngineService.initialBoard(); set boundaries come from
+ * Game.setHistory endedAt. Hits are recomputed while the moves are re-applied.
+ */
+
+export type ReplaySource = 'moves' | 'moveHistory';
+
+export interface ReplayMove {
+  from: number;
+  to: number;
+  diceUsed: number;
+  isHit: boolean;
+}
+
+export interface ReplayTurn {
+  ply: number;
+  setNumber: number;
+  player: PlayerSide;
+  dice: number[] | null;
+  moves: ReplayMove[];
+  timeRemaining: number | null;
+  endedAt: string | null;
+}
+
+export interface ReplayCubeAction {
+  afterPly: number; // Turns played before the action
+  setNumber: number;
+  player: PlayerSide;
+  action: 'double' | 'take' | 'drop';
+  value: number; // Cube value offered / taken / dropped
+}
+
+export interface GameReplay {
+  gameId: string;
+  status: string;
+  source: ReplaySource;
+  setCount: number;
+  turns: ReplayTurn[];
+  cubeActions: ReplayCubeAction[];
+}
+
+type ReplayEvent =
+  | { kind: 'move'; player: PlayerSide; time: number; from: number; to: number; diceUsed: number }
+  | {
+      kind: 'turn';
+      player: PlayerSide;
+      time: number;
+      dice: number[] | null;
+      timeRemaining: number | null;
+    }
+  | {
+      kind: 'cube';
+      player: PlayerSide;
+      time: number;
+      action: ReplayCubeAction['action'];
+      value: number;
+    };
+
+@Injectable()
+export class GameReplayService {
+  constructor(
+    private prisma: PrismaService,
+    private rulesEngine: RulesEngineService,
+  ) {}
+
+  /**
+   * 📼 Ordered turns of a game, plus the position after `ply` turns if asked
+   */
+  async getReplay(gameId: string, userId: string, ply?: number) {
+    const replay = await this.loadReplay(gameId, userId);
+
+    return {
+      ...replay,
+      turnCount: replay.turns.length,
+      ...(ply !== undefined && { position: this.getPosition(replay.turns, ply) }),
+    };
+  }
+
+  /**
+   * Turns and cube actions of a game (also used by the MAT / SGF export and the analysis job)
+   * Players can always replay their game, anyone else once it's finished
+   * userId null = server-side job, no access check
+   */
+  async loadReplay(gameId: string, userId: string | null): Promise<GameReplay> {
+    const game = await this.prisma.game.findUnique({
+      where: { id: gameId },
+      select: {
+        id: true,
+        status: true,
+        whitePlayerId: true,
+        blackPlayerId: true,
+        moveHistory: true,
+        setHistory: true,
+        moves: {
+          orderBy: { moveNumber: 'asc' },
+          select: { playerColor: true, from: true, to: true, diceUsed: true, createdAt: true },
+        },
+      },
+    });
+
+    if (!game) {
+      throw new NotFoundException('Game not found');
+    }
+
+    const isPlayer = game.whitePlayerId === userId || game.blackPlayerId === userId;
+    if (userId !== null && !isPlayer && (game.status === 'ACTIVE' || game.status === 'WAITING')) {
+      throw new ForbiddenException('Replay is available to spectators after the game ends');
+    }
+
+    const history = (game.moveHistory || []) as any[];
+    const source: ReplaySource = game.moves.length > 0 ? 'moves' : 'moveHistory';
+
+    const moveEvents: ReplayEvent[] =
+      source === 'moves'
+        ? game.moves.map(
+            (move): ReplayEvent => ({
+              kind: 'move',
+              player: move.playerColor === 'WHITE' ? 'white' : 'black',
+              time: move.createdAt.getTime(),
+              from: move.from,
+              to: move.to,
+              diceUsed: move.diceUsed,
+            }),
+          )
+        : history
+            .filter((entry) => !entry?.type && typeof entry?.from === 'number')
+            .map(
+              (entry): ReplayEvent => ({
+                kind: 'move',
+                player: this.toSide(entry.player),
+                time: Date.parse(entry.timestamp) || 0,
+                from: entry.from,
+                to: entry.to,
+                diceUsed: entry.dice,
+              }),
+            );
+
+    const markerEvents: ReplayEvent[] = history
+      .filter((entry) => entry?.type === 'turn' || entry?.type === 'cube')
+      .map(
+        (entry): ReplayEvent =>
+          entry.type === 'turn'
+            ? {
+                kind: 'turn',
+                player: this.toSide(entry.player),
+                time: Date.parse(entry.timestamp) || 0,
+                dice: entry.dice ?? null,
+                timeRemaining: entry.timeRemaining ?? null,
+              }
+            : {
+                kind: 'cube',
+                player: this.toSide(entry.player),
+                time: Date.parse(entry.timestamp) || 0,
+                action: entry.action,
+                value: entry.value,
+              },
+      );
+
+    // Stable sort: on equal timestamps a turn's moves come before its marker
+    const events = [...moveEvents, ...markerEvents].sort(
+      (a, b) => a.time - b.time || (a.kind === 'move' ? 0 : 1) - (b.kind === 'move' ? 0 : 1),
+    );
+
+    const setEnds = ((game.setHistory || []) as any[])
+      .map((set) => Date.parse(set?.endedAt))
+      .filter((time) => !Number.isNaN(time))
+      .sort((a, b) => a - b);
+
+    const { turns, cubeActions } = this.buildTurns(events, setEnds);
+
+    return {
+      gameId: game.id,
+      status: game.status,
+      source,
+      setCount: setEnds.length,
+      turns,
+      cubeActions,
+    };
+  }
+
+  /**
+   * Group moves into turns: a turn closes on its Done marker, when the other
+   * player moves or when a new set starts. A marker without moves is a dance.
+   */
+  private buildTurns(events: ReplayEvent[], setEnds: number[]) {
+    const turns: ReplayTurn[] = [];
+    const cubeActions: ReplayCubeAction[] = [];
+    let open: ReplayTurn | null = null;
+
+    for (const event of events) {
+      const setNumber = 1 + setEnds.filter((endedAt) => endedAt < event.time).length;
+
+      if (open && (open.player !== event.player || open.setNumber !== setNumber)) {
+        open = null;
+      }
+
+      // Cube actions happen before a roll - never inside a turn
+      if (event.kind === 'cube') {
+        open = null;
+        cubeActions.push({
+          afterPly: turns.length,
+          setNumber,
+          player: event.player,
+          action: event.action,
+          value: event.value,
+        });
+        continue;
+      }
+
+      if (!open) {
+        open = {
+          ply: turns.length + 1,
+          setNumber,
+          player: event.player,
+          dice: null,
+          moves: [],
+          timeRemaining: null,
+          endedAt: null,
+        };
+        turns.push(open);
+      }
+
+      if (event.kind === 'move') {
+        open.moves.push({
+          from: event.from,
+          to: event.to,
+          diceUsed: event.diceUsed,
+          isHit: false,
+        });
+      } else {
+        open.dice = event.dice;
+        open.timeRemaining = event.timeRemaining;
+        open.endedAt = new Date(event.time).toISOString();
+        open = null;
+      }
+    }
+
+    this.replayTurns(turns);
+
+    return { turns, cubeActions };
+  }
+
+  /**
+   * Re-apply every move from the starting position of each set:
+   * recomputes hits and fills the dice of turns without a marker
+   */
+  replayTurns(turns: ReplayTurn[]): ReplayTurn[] {
+    let board = this.rulesEngine.initialBoard();
+    let setNumber = 1;
+    for (const turn of turns) {
+      if (turn.setNumber !== setNumber) {
+        board = this.rulesEngine.initialBoard();
+        setNumber = turn.setNumber;
+      }
+      board = this.applyTurn(board, turn);
+      turn.dice = turn.dice ?? this.diceFromMoves(turn.moves);
+    }
+    return turns;
+  }
+
+  /**
+   * Position after the first `ply` turns (board in the stored gameState format)
+   */
+  getPosition(turns: ReplayTurn[], ply: number) {
+    if (!Number.isInteger(ply) || ply < 0 || ply > turns.length) {
+      throw new BadRequestException(`ply must be between 0 and ${turns.length}`);
+    }
+
+    const played = turns.slice(0, ply);
+    const setNumber = played.length > 0 ? played[played.length - 1].setNumber : 1;
+
+    let board = this.rulesEngine.initialBoard();
+    for (const turn of played.filter((t) => t.setNumber === setNumber)) {
+      board = this.applyTurn(board, turn);
+    }
+
+    return {
+      ply,
+      setNumber,
+      lastTurn: played.length > 0 ? played[played.length - 1] : null,
+      ...this.rulesEngine.toGameStateBoard(board),
+      pipCount: {
+        white: this.rulesEngine.pipCount(board, 'white'),
+        black: this.rulesEngine.pipCount(board, 'black'),
+      },
+    };
+  }
+
+  private applyTurn(board: BoardState, turn: ReplayTurn): BoardState {
+    for (const move of turn.moves) {
+      const applied = this.rulesEngine.applyMove(board, move, turn.player);
+      move.isHit = applied.isHit;
+      board = applied.board;
+    }
+    return board;
+  }
+
+  /**
+   * Roll of a turn without a marker, when the moves used both dice (or a double)
+   */
+  private diceFromMoves(moves: ReplayMove[]): number[] | null {
+    const used = moves.map((move) => move.diceUsed);
+    const distinct = [...new Set(used)];
+
+    if (distinct.length === 2) return distinct;
+    if (distinct.length === 1 && used.length >= 3) return [used[0], used[0]];
+    return null;
+  }
+
+  private toSide(player: unknown): PlayerSide {
+    return String(player).toLowerCase() === 'black' ? 'black' : 'white';
+  }
+}
@@ -0,0 +1,116 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { PrismaService } from '../../../database/prisma.service';
+import { BAR, RulesEngineService } from './rules-engine.service';
+import { GameReplay, GameReplayService, ReplayMove, ReplayTurn } from './game-replay.service';
+import { MatchFileService } from './match-file.service';
+
+function move(from: number, to: number, diceUsed: number, isHit = false): ReplayMove {
+  return { from, to, diceUsed, isHit };
+}
+
+function makeTurn(
+  setNumber: number,
+  player: 'white' | 'black',
+  dice: number[],
+  moves: ReplayMove[],
+): ReplayTurn {
+  return { ply: 0, setNumber, player, dice, moves, timeRemaining: null, endedAt: null };
+}
+
+// Two sets: a double / take, a hit, an entry from the bar and a double roll
+const REPLAY: GameReplay = {
+  gameId: 'game-1',
+  status: 'ACTIVE',
+  source: 'moves',
+  setCount: 2,
+  turns: [
+    makeTurn(1, 'white', [3, 1], [move(7, 4, 3), move(5, 4, 1)]),
+    makeTurn(1, 'black', [6, 4], [move(0, 6, 6), move(11, 15, 4)]),
+    makeTurn(1, 'white', [6, 1], [move(12, 6, 6, true), move(7, 6, 1)]),
+    makeTurn(
+      1,
+      'black',
+      [2, 2],
+      [move(BAR, 1, 2), move(1, 3, 2), move(11, 13, 2), move(11, 13, 2)],
+    ),
+    makeTurn(2, 'black', [5, 2], [move(11, 16, 5), move(11, 13, 2)]),
+    makeTurn(2, 'white', [4, 3], [move(23, 19, 4), move(23, 20, 3)]),
+  ].map((turn, index) => ({ ...turn, ply: index + 1 })),
+  cubeActions: [
+    { afterPly: 2, setNumber: 1, player: 'white', action: 'double', value: 2 },
+    { afterPly: 2, setNumber: 1, player: 'black', action: 'take', value: 2 },
+  ],
+};
+
+describe('MatchFileService', () => {
+  let service: MatchFileService;
+  let imported: Record<string, unknown> | null;
+
+  beforeEach(() => {
+    imported = null;
+    const prisma = {
+      game: {
+        findUniqueOrThrow: jest.fn(async () => ({
+          status: 'ACTIVE',
+          matchLength: 3,
+          setHistory: [{ setNumber: 1, winner: 'WHITE', points: 2 }],
+          createdAt: new Date('2025-12-01T10:00:00Z'),
+          whitePlayer: { username: 'alice' },
+          blackPlayer: { username: 'bob' },
+        })),
+      },
+      importedMatch: {
+        create: jest.fn(async ({ data }) => {
+          imported = data;
+          return { id: 'import-1', ...data };
+        }),
+      },
+    };
+
+    const replayService = new GameReplayService(
+      prisma as unknown as PrismaService,
+      new RulesEngineService(),
+    );
+    jest.spyOn(replayService, 'loadReplay').mockResolvedValue(structuredClone(REPLAY));
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => undefined);
+
+    service = new MatchFileService(prisma as unknown as PrismaService, replayService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe.each(['mat', 'sgf'])('%s round trip', (format) => {
+    it('imports the moves, cube actions and set results it exported', async () => {
+      const { content } = await service.exportGame('game-1', 'user-1', format);
+      const result = await service.importMatch('user-1', format, content);
+
+      expect(result).toMatchObject({ whiteName: 'alice', blackName: 'bob', matchLength: 3 });
+      expect(result.gameCount).toBe(2);
+      expect(imported?.turns).toEqual(REPLAY.turns);
+      expect(imported?.cubeActions).toEqual(REPLAY.cubeActions);
+      expect(imported?.setHistory).toEqual([
+        { setNumber: 1, winner: 'WHITE', points: 2 },
+        { setNumber: 2, winner: null, points: 0 },
+      ]);
+    });
+  });
+
+  describe('importMatch', () => {
+    it.each([
+      ['mat', ' 1 point match\n\n Game 1\n alice : 0      bob : 0\n  1) 31: 8/5 30/29'],
+      ['mat', ' 1 point match\n\n Game 1\n alice : 0      bob : 0\n  1) hello'],
+      ['mat', ' 1 point match\n\n Game 1\n alice : 0      bob : 0\n'],
+      ['sgf', 'not an sgf file'],
+      ['sgf', '(;FF[4]GM[1];W[31hdfd])'],
+      ['sgf', '(;FF[4]GM[6];W[7xhdfd])'],
+      ['txt', ' 1 point match'],
+    ])('rejects a malformed %s file', async (format, content) => {
+      await expect(service.importMatch('user-1', format, content)).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+      expect(imported).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,626 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../../../database/prisma.service';
+import { BAR, OFF, PlayerSide } from './rules-engine.service';
+import { GameReplayService, ReplayCubeAction, ReplayMove, ReplayTurn } from './game-replay.service';
+import { formatMove, parseMoveText, resolveHop, toPlayerPoint } from './move-notation';
+
+/**
+ * 📄 Match File Service - MAT / SGF export and import
+ *
+ * EXPORT (GET /game/:id/export?format=mat|sgf):
+ * - Built from the replay (game_moves or moveHistory, turn markers, cube actions)
+ * - MAT: Jellyfish / GNU Backgammon text - player 1 (left column) is ⚪ white,
+ *   moves in standard notation (move-notation.ts)
+ * - SGF: GNU Backgammon SGF (GM[6]) - one game tree per set, W = white,
+ *   points a-x (white's point 1 = a), y = bar, z = off
+ *
+ * IMPORT (POST /game/import):
+ * - Parsed into the replay shapes (internal numbering, white 23 → 0) and stored as a
+ *   read-only ImportedMatch - not a Game, so it never touches stats, timers or bets
+ */
+
+export type MatchFileType = 'mat' | 'sgf';
+
+interface MatchAction {
+  player: PlayerSide;
+  turn?: ReplayTurn;
+  cube?: ReplayCubeAction;
+}
+
+interface MatchGame {
+  setNumber: number;
+  whiteScore: number; // Score before this game
+  blackScore: number;
+  actions: MatchAction[];
+  winner: PlayerSide | null;
+  points: number;
+}
+
+interface MatchData {
+  whiteName: string;
+  blackName: string;
+  matchLength: number;
+  games: MatchGame[];
+}
+
+// MAT layout: "  1) " + left column, right column starts here
+const MAT_LEFT_WIDTH = 30;
+const MAT_RIGHT_COLUMN = 5 + MAT_LEFT_WIDTH;
+
+// An action starting this far into a MAT line belongs to the right column (player 2)
+const MAT_RIGHT_THRESHOLD = 20;
+
+const MAT_ACTION_PATTERN =
+  /(\d)(\d):((?:\s+(?:bar|\d+)(?:\/(?:bar|off|\d+)\*?)+(?:\(\d\))?)*)|Doubles\s*=>\s*(\d+)|Takes|Drops/gi;
+
+const SGF_BAR = 'y';
+const SGF_OFF = 'z';
+
+@Injectable()
+export class MatchFileService {
+  private readonly logger = new Logger(MatchFileService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private gameReplayService: GameReplayService,
+  ) {}
+
+  // ========================================================================
+  // 📤 Export
+  // ========================================================================
+
+  /**
+   * 📤 Game as a MAT / SGF file
+   */
+  async exportGame(gameId: string, userId: string, format: string) {
+    const fileType = this.toFileType(format);
+    const replay = await this.gameReplayService.loadReplay(gameId, userId);
+
+    const game = await this.prisma.game.findUniqueOrThrow({
+      where: { id: gameId },
+      select: {
+        status: true,
+        matchLength: true,
+        setHistory: true,
+        createdAt: true,
+        whitePlayer: { select: { username: true } },
+        blackPlayer: { select: { username: true } },
+      },
+    });
+
+    const setHistory = (game.setHistory || []) as any[];
+    const lastSet = replay.turns.length > 0 ? replay.turns[replay.turns.length - 1].setNumber : 1;
+    const setCount = Math.max(setHistory.length, lastSet);
+
+    const match: MatchData = {
+      whiteName: game.whitePlayer.username,
+      blackName: game.blackPlayer.username,
+      matchLength: game.matchLength,
+      games: [],
+    };
+
+    let whiteScore = 0;
+    let blackScore = 0;
+    for (let setNumber = 1; setNumber <= setCount; setNumber++) {
+      const result = setHistory.find((set) => set?.setNumber === setNumber);
+
+      // Cube actions come before the roll of turn afterPly + 1
+      const actions: (MatchAction & { order: number })[] = [
+        ...replay.turns
+          .filter((turn) => turn.setNumber === setNumber)
+          .map((turn) => ({ player: turn.player, turn, order: turn.ply - 1 + 0.5 })),
+        ...replay.cubeActions
+          .filter((cube) => cube.setNumber === setNumber)
+          .map((cube) => ({ player: cube.player, cube, order: cube.afterPly })),
+      ].sort((a, b) => a.order - b.order);
+
+      match.games.push({
+        setNumber,
+        whiteScore,
+        blackScore,
+        actions,
+        winner: result ? (result.winner === 'BLACK' ? 'black' : 'white') : null,
+        points: result?.points ?? 0,
+      });
+
+      if (result?.winner === 'WHITE') whiteScore += result.points;
+      if (result?.winner === 'BLACK') blackScore += result.points;
+    }
+
+    const matchOver = game.status === 'COMPLETED';
+    const content =
+      fileType === 'mat'
+        ? this.writeMat(match, gameId, game.createdAt, matchOver)
+        : this.writeSgf(match, game.createdAt);
+
+    return {
+      filename: `nardarena-${gameId.slice(0, 8)}.${fileType}`,
+      content,
+    };
+  }
+
+  private writeMat(match: MatchData, gameId: string, createdAt: Date, matchOver: boolean): string {
+    const date = createdAt.toISOString().slice(0, 10).replace(/-/g, '.');
+    const lines = [
+      '; [Site "NardArena"]',
+      `; [Match ID "${gameId}"]`,
+      `; [Player 1 "${match.whiteName}"]`,
+      `; [Player 2 "${match.blackName}"]`,
+      `; [EventDate "${date}"]`,
+      '',
+      ` ${match.matchLength} point match`,
+      '',
+    ];
+
+    match.games.forEach((matchGame, index) => {
+      const whiteHeader = ` ${match.whiteName} : ${matchGame.whiteScore}`;
+      lines.push(` Game ${matchGame.setNumber}`);
+      lines.push(
+        `${whiteHeader.padEnd(MAT_RIGHT_COLUMN)}${match.blackName} : ${matchGame.blackScore}`,
+      );
+
+      // Player 1 (white) always left, player 2 (black) always right
+      const rows: { left: string; right: string }[] = [];
+      for (const action of matchGame.actions) {
+        const text = this.matActionText(action);
+        const row = rows[rows.length - 1];
+
+        if (action.player === 'white') {
+          if (!row || row.left || row.right) rows.push({ left: text, right: '' });
+          else row.left = text;
+        } else if (!row || row.right) {
+          rows.push({ left: '', right: text });
+        } else {
+          row.right = text;
+        }
+      }
+
+      rows.forEach((row, rowIndex) => {
+        const number = `${String(rowIndex + 1).padStart(3)}) `;
+        lines.push(`${number}${row.left.padEnd(MAT_LEFT_WIDTH)}${row.right}`.trimEnd());
+      });
+
+      if (matchGame.winner) {
+        const isLast = index === match.games.length - 1;
+        const plural = matchGame.points === 1 ? '' : 's';
+        const wins = `Wins ${matchGame.points} point${plural}${isLast && matchOver ? ' and the match' : ''}`;
+        const indent = matchGame.winner === 'white' ? 6 : MAT_RIGHT_COLUMN;
+        lines.push(`${' '.repeat(indent)}${wins}`);
+      }
+      lines.push('');
+    });
+
+    return lines.join('\n');
+  }
+
+  private matActionText(action: MatchAction): string {
+    if (action.cube) {
+      if (action.cube.action === 'double') return ` Doubles => ${action.cube.value}`;
+      return action.cube.action === 'take' ? ' Takes' : ' Drops';
+    }
+
+    const turn = action.turn as ReplayTurn;
+    const moves = turn.moves.map((move) => formatMove(move, turn.player));
+
+    return `${this.diceText(turn)}: ${moves.join(' ')}`.trimEnd();
+  }
+
+  private writeSgf(match: MatchData, createdAt: Date): string {
+    const date = createdAt.toISOString().slice(0, 10);
+
+    return match.games
+      .map((matchGame, index) => {
+        const root = [
+          'FF[4]GM[6]CA[UTF-8]AP[NardArena]',
+          `MI[length:${match.matchLength}][game:${index}][ws:${matchGame.whiteScore}][bs:${matchGame.blackScore}]`,
+          `PW[${this.sgfEscape(match.whiteName)}]PB[${this.sgfEscape(match.blackName)}]DT[${date}]`,
+          matchGame.winner
+            ? `RE[${matchGame.winner === 'white' ? 'W' : 'B'}+${matchGame.points}]`
+            : '',
+        ].join('');
+
+        const nodes = matchGame.actions.map((action) => {
+          const color = action.player === 'white' ? 'W' : 'B';
+          if (action.cube) {
+            return `;${color}[${action.cube.action}]`;
+          }
+
+          const turn = action.turn as ReplayTurn;
+          const moves = turn.moves
+            .map((move) => this.sgfPoint(move.from, 'from') + this.sgfPoint(move.to, 'to'))
+            .join('');
+          return `;${color}[${this.diceText(turn)}${moves}]`;
+        });
+
+        return `(;${root}\n${nodes.join('\n')})`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Dice of a turn; turns recorded before turn markers may only know the dice they used
+   */
+  private diceText(turn: ReplayTurn): string {
+    const dice = turn.dice ?? turn.moves.map((move) => move.diceUsed);
+    const first = dice[0] ?? 0;
+    return `${first}${dice[1] ?? first}`;
+  }
+
+  private sgfPoint(point: number, side: 'from' | 'to'): string {
+    if (side === 'from' && point === BAR) return SGF_BAR;
+    if (side === 'to' && (point < 0 || point > 23)) return SGF_OFF;
+    return String.fromCharCode(97 + point);
+  }
+
+  private sgfEscape(value: string): string {
+    return value.replace(/([\]\\])/g, '\\$1');
+  }
+
+  // ========================================================================
+  // 📥 Import
+  // ========================================================================
+
+  /**
+   * 📥 Parse a MAT / SGF file into a read-only imported match
+   */
+  async importMatch(userId: string, format: string, content: string) {
+    const fileType = this.toFileType(format);
+    const match = fileType === 'mat' ? this.parseMat(content) : this.parseSgf(content);
+
+    const turns: ReplayTurn[] = [];
+    const cubeActions: ReplayCubeAction[] = [];
+    for (const matchGame of match.games) {
+      let cubeValue = 1; // Centered again every game
+      for (const action of matchGame.actions) {
+        if (action.cube) {
+          // MAT only writes the value on "Doubles => n", SGF never does
+          const value =
+            action.cube.action === 'double' ? action.cube.value || cubeValue * 2 : cubeValue * 2;
+          if (action.cube.action === 'take') cubeValue = value;
+          if (action.cube.action === 'double') cubeValue = value / 2;
+
+          cubeActions.push({
+            ...action.cube,
+            value,
+            afterPly: turns.length,
+            setNumber: matchGame.setNumber,
+          });
+        } else if (action.turn) {
+          turns.push({ ...action.turn, ply: turns.length + 1, setNumber: matchGame.setNumber });
+        }
+      }
+    }
+
+    if (turns.length === 0) {
+      throw new BadRequestException('No moves found in the file');
+    }
+
+    // Hits and missing dice are recomputed from the board, like a live replay
+    this.gameReplayService.replayTurns(turns);
+
+    const imported = await this.prisma.importedMatch.create({
+      data: {
+        userId,
+        format: fileType === 'mat' ? 'MAT' : 'SGF',
+        whiteName: match.whiteName,
+        blackName: match.blackName,
+        matchLength: match.matchLength,
+        turns: turns as any,
+        cubeActions: cubeActions as any,
+        setHistory: match.games.map((matchGame) => ({
+          setNumber: matchGame.setNumber,
+          winner: matchGame.winner ? matchGame.winner.toUpperCase() : null,
+          points: matchGame.points,
+        })),
+      },
+    });
+
+    this.logger.log(
+      `📥 Imported ${fileType.toUpperCase()} match ${imported.id} (${turns.length} turns) for ${userId}`,
+    );
+
+    return {
+      id: imported.id,
+      format: imported.format,
+      whiteName: imported.whiteName,
+      blackName: imported.blackName,
+      matchLength: imported.matchLength,
+      gameCount: match.games.length,
+      turnCount: turns.length,
+    };
+  }
+
+  /**
+   * 📼 Replay of an imported match (only for the user who imported it)
+   */
+  async getImportedMatch(importId: string, userId: string, ply?: number) {
+    const imported = await this.prisma.importedMatch.findUnique({ where: { id: importId } });
+
+    if (!imported) {
+      throw new NotFoundException('Imported match not found');
+    }
+    if (imported.userId !== userId) {
+      throw new ForbiddenException('You did not import this match');
+    }
+
+    const turns = imported.turns as unknown as ReplayTurn[];
+
+    return {
+      ...imported,
+      imported: true,
+      turnCount: turns.length,
+      ...(ply !== undefined && { position: this.gameReplayService.getPosition(turns, ply) }),
+    };
+  }
+
+  /**
+   * Jellyfish / GNU Backgammon .mat text
+   */
+  private parseMat(content: string): MatchData {
+    const match: MatchData = {
+      whiteName: 'Player 1',
+      blackName: 'Player 2',
+      matchLength: 1,
+      games: [],
+    };
+    let current: MatchGame | null = null;
+    let expectHeader = false;
+
+    content.split(/\r?\n/).forEach((line, index) => {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith(';')) return;
+
+      const lengthMatch = /^(\d+)\s+point\s+match/i.exec(trimmed);
+      if (lengthMatch) {
+        match.matchLength = Math.max(1, parseInt(lengthMatch[1], 10));
+        return;
+      }
+
+      const gameMatch = /^Game\s+(\d+)/i.exec(trimmed);
+      if (gameMatch) {
+        current = this.newMatchGame(match.games.length + 1);
+        match.games.push(current);
+        expectHeader = true;
+        return;
+      }
+
+      if (!current) return;
+
+      const header = /^(.+?)\s*:\s*(\d+)\s{2,}(.+?)\s*:\s*(\d+)$/.exec(trimmed);
+      if (expectHeader && header) {
+        match.whiteName = header[1];
+        match.blackName = header[3];
+        current.whiteScore = parseInt(header[2], 10);
+        current.blackScore = parseInt(header[4], 10);
+        expectHeader = false;
+        return;
+      }
+
+      const winsMatch = /Wins\s+(\d+)\s+points?/i.exec(line);
+      const moveLine = /^\s*\d+\)/.exec(line);
+
+      if (moveLine) {
+        const actions = [...line.slice(moveLine[0].length).matchAll(MAT_ACTION_PATTERN)];
+        if (actions.length === 0 && !winsMatch) {
+          throw new BadRequestException(`Line ${index + 1}: cannot read "${trimmed}"`);
+        }
+
+        actions.forEach((action, actionIndex) => {
+          const column = moveLine[0].length + (action.index ?? 0);
+          const isRight = actionIndex > 0 || column >= MAT_RIGHT_THRESHOLD;
+          (current as MatchGame).actions.push(
+            this.parseMatAction(action, isRight ? 'black' : 'white', index + 1),
+          );
+        });
+      }
+
+      if (winsMatch) {
+        current.winner = (winsMatch.index ?? 0) >= MAT_RIGHT_THRESHOLD ? 'black' : 'white';
+        current.points = parseInt(winsMatch[1], 10);
+      }
+    });
+
+    return match;
+  }
+
+  private parseMatAction(
+    action: RegExpMatchArray,
+    player: PlayerSide,
+    lineNumber: number,
+  ): MatchAction {
+    const text = action[0].trim().toLowerCase();
+
+    if (text.startsWith('doubles')) {
+      return { player, cube: this.cubeAction(player, 'double', parseInt(action[4], 10)) };
+    }
+    if (text === 'takes' || text === 'drops') {
+      return { player, cube: this.cubeAction(player, text === 'takes' ? 'take' : 'drop', 0) };
+    }
+
+    const dice = [parseInt(action[1], 10), parseInt(action[2], 10)];
+    try {
+      return { player, turn: this.newTurn(player, dice, parseMoveText(action[3], dice, player)) };
+    } catch (error) {
+      throw new BadRequestException(`Line ${lineNumber}: ${error.message}`);
+    }
+  }
+
+  /**
+   * GNU Backgammon .sgf (one game tree per game of the match)
+   */
+  private parseSgf(content: string): MatchData {
+    const match: MatchData = { whiteName: 'White', blackName: 'Black', matchLength: 1, games: [] };
+    const trees = this.splitSgfTrees(content);
+
+    if (trees.length === 0) {
+      throw new BadRequestException('No SGF game trees found');
+    }
+
+    for (const tree of trees) {
+      const matchGame = this.newMatchGame(match.games.length + 1);
+      match.games.push(matchGame);
+
+      for (const node of this.splitSgfNodes(tree)) {
+        for (const [name, values] of this.parseSgfProperties(node)) {
+          if (name === 'GM' && values[0] !== '6') {
+            throw new BadRequestException('Not a backgammon SGF file (GM[6])');
+          }
+          if (name === 'PW') match.whiteName = values[0];
+          if (name === 'PB') match.blackName = values[0];
+          if (name === 'MI') {
+            for (const value of values) {
+              const [key, number] = value.split(':');
+              if (key === 'length') match.matchLength = Math.max(1, parseInt(number, 10) || 1);
+              if (key === 'ws') matchGame.whiteScore = parseInt(number, 10) || 0;
+              if (key === 'bs') matchGame.blackScore = parseInt(number, 10) || 0;
+            }
+          }
+          if (name === 'RE') {
+            const result = /^([WB])\+(\d+)/.exec(values[0]);
+            if (result) {
+              matchGame.winner = result[1] === 'W' ? 'white' : 'black';
+              matchGame.points = parseInt(result[2], 10);
+            }
+          }
+          if (name === 'W' || name === 'B') {
+            matchGame.actions.push(this.parseSgfMove(values[0], name === 'W' ? 'white' : 'black'));
+          }
+        }
+      }
+    }
+
+    return match;
+  }
+
+  private parseSgfMove(value: string, player: PlayerSide): MatchAction {
+    const text = value.trim().toLowerCase();
+    if (text === 'double' || text === 'take' || text === 'drop') {
+      return { player, cube: this.cubeAction(player, text, 0) };
+    }
+
+    const parsed = /^([1-6])([1-6])((?:[a-z]{2})*)$/.exec(text);
+    if (!parsed) {
+      throw new BadRequestException(`Invalid SGF move "${value}"`);
+    }
+
+    const dice = [parseInt(parsed[1], 10), parseInt(parsed[2], 10)];
+    const remaining = dice[0] === dice[1] ? [dice[0], dice[0], dice[0], dice[0]] : [...dice];
+    const moves: ReplayMove[] = [];
+
+    for (let i = 0; i < parsed[3].length; i += 2) {
+      const from = parsed[3][i] === SGF_BAR ? BAR : parsed[3].charCodeAt(i) - 97;
+      const to = parsed[3][i + 1] === SGF_OFF ? OFF : parsed[3].charCodeAt(i + 1) - 97;
+      if (from > 23 || to > OFF) {
+        throw new BadRequestException(`Invalid SGF move "${value}"`);
+      }
+
+      moves.push(
+        ...resolveHop(
+          toPlayerPoint(from, player, 'from'),
+          toPlayerPoint(to, player, 'to'),
+          player,
+          remaining,
+        ),
+      );
+    }
+
+    return { player, turn: this.newTurn(player, dice, moves) };
+  }
+
+  private splitSgfTrees(content: string): string[] {
+    const trees: string[] = [];
+    let depth = 0;
+    let inValue = false;
+    let start = -1;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+      if (inValue) {
+        if (char === '\\') i++;
+        else if (char === ']') inValue = false;
+      } else if (char === '[') {
+        inValue = true;
+      } else if (char === '(') {
+        if (depth === 0) start = i + 1;
+        depth++;
+      } else if (char === ')') {
+        depth--;
+        if (depth === 0) trees.push(content.slice(start, i));
+      }
+    }
+
+    return trees;
+  }
+
+  private splitSgfNodes(tree: string): string[] {
+    const nodes: string[] = [];
+    let inValue = false;
+    let current = '';
+
+    for (let i = 0; i < tree.length; i++) {
+      const char = tree[i];
+      if (inValue) {
+        if (char === '\\') current += tree[i++];
+        else if (char === ']') inValue = false;
+      } else if (char === '[') {
+        inValue = true;
+      } else if (char === ';' || char === '(' || char === ')') {
+        if (current.trim()) nodes.push(current);
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+    if (current.trim()) nodes.push(current);
+
+    return nodes;
+  }
+
+  private parseSgfProperties(node: string): [string, string[]][] {
+    const properties: [string, string[]][] = [];
+    const pattern = /([A-Z]+)((?:\s*\[(?:[^\]\\]|\\.)*\])+)/g;
+
+    for (const property of node.matchAll(pattern)) {
+      const values = [...property[2].matchAll(/\[((?:[^\]\\]|\\.)*)\]/g)].map((value) =>
+        value[1].replace(/\\(.)/g, '$1'),
+      );
+      properties.push([property[1], values]);
+    }
+
+    return properties;
+  }
+
+  // ========================================================================
+  // 🔒 Helpers
+  // ========================================================================
+
+  private newTurn(player: PlayerSide, dice: number[], moves: ReplayMove[]): ReplayTurn {
+    return { ply: 0, setNumber: 0, player, dice, moves, timeRemaining: null, endedAt: null };
+  }
+
+  private newMatchGame(setNumber: number): MatchGame {
+    return { setNumber, whiteScore: 0, blackScore: 0, actions: [], winner: null, points: 0 };
+  }
+
+  private cubeAction(
+    player: PlayerSide,
+    action: ReplayCubeAction['action'],
+    value: number,
+  ): ReplayCubeAction {
+    return { afterPly: 0, setNumber: 0, player, action, value };
+  }
+
+  private toFileType(format: string): MatchFileType {
+    const fileType = String(format || 'mat').toLowerCase();
+    if (fileType !== 'mat' && fileType !== 'sgf') {
+      throw new BadRequestException('format must be mat or sgf');
+    }
+    return fileType;
+  }
+}
@@ -0,0 +1,110 @@
+import { BAR, OFF, PlayerSide } from './rules-engine.service';
+import type { ReplayMove } from './game-replay.service';
+
+/**
+ * ✏️ Standard backgammon move notation ("24/18 13/11*", "bar/22", "6/off", "8/5(2)")
+ *
+ * Points are numbered 1-24 from the moving player's side, 25 = bar, 0 = off.
+ * Shared by the MAT / SGF files (MatchFileService) and external engines (GnubgEngine).
+ */
+
+/**
+ * Internal point (white 23 → 0, black 0 → 23) → player's own 1-24 numbering, 25 = bar, 0 = off
+ */
+export function toPlayerPoint(point: number, player: PlayerSide, side: 'from' | 'to'): number {
+  if (side === 'from' && point === BAR) return 25;
+  if (side === 'to' && (point < 0 || point > 23)) return 0;
+  return player === 'white' ? point + 1 : 24 - point;
+}
+
+export function toInternalPoint(point: number, player: PlayerSide): number {
+  if (point === 25) return BAR;
+  if (point === 0) return OFF;
+  return player === 'white' ? point - 1 : 24 - point;
+}
+
+/**
+ * One move as text, e.g. "13/8*"
+ */
+export function formatMove(move: ReplayMove, player: PlayerSide): string {
+  const from = toPlayerPoint(move.from, player, 'from');
+  const to = toPlayerPoint(move.to, player, 'to');
+  return `${from === 25 ? 'bar' : from}/${to === 0 ? 'off' : to}${move.isHit ? '*' : ''}`;
+}
+
+/**
+ * A whole play as text ("24/18 13/11") → single-die internal moves
+ * Throws an Error naming the first token it can't read
+ */
+export function parseMoveText(text: string, dice: number[], player: PlayerSide): ReplayMove[] {
+  const remaining = dice[0] === dice[1] ? [dice[0], dice[0], dice[0], dice[0]] : [...dice];
+  const moves: ReplayMove[] = [];
+
+  for (const token of text.trim().toLowerCase().split(/\s+/).filter(Boolean)) {
+    const repeat = /\((\d)\)$/.exec(token);
+    const path = token
+      .replace(/\(\d\)$/, '')
+      .split('/')
+      .map((point) => point.replace('*', ''))
+      .map((point) => (point === 'bar' ? 25 : point === 'off' ? 0 : parseInt(point, 10)));
+
+    if (path.length < 2 || path.some((point) => Number.isNaN(point) || point < 0 || point > 25)) {
+      throw new Error(`invalid move "${token}"`);
+    }
+
+    for (let count = 0; count < (repeat ? parseInt(repeat[1], 10) : 1); count++) {
+      for (let step = 0; step < path.length - 1; step++) {
+        moves.push(...resolveHop(path[step], path[step + 1], player, remaining));
+      }
+    }
+  }
+
+  return moves;
+}
+
+/**
+ * One checker hop in the player's own numbering → internal single-die moves
+ * A hop covering several dice (24/13 with 65) is split; dice used are taken from `remaining`
+ */
+export function resolveHop(
+  from: number,
+  to: number,
+  player: PlayerSide,
+  remaining: number[],
+): ReplayMove[] {
+  const distance = from - to;
+  const take = (die: number) => remaining.splice(remaining.indexOf(die), 1)[0];
+  let steps: number[];
+
+  if (remaining.includes(distance)) {
+    steps = [take(distance)];
+  } else if (
+    remaining.length > 1 &&
+    remaining[0] === remaining[1] &&
+    distance % remaining[0] === 0
+  ) {
+    steps = Array.from({ length: Math.min(distance / remaining[0], remaining.length) }, () =>
+      take(remaining[0]),
+    );
+  } else if (remaining.length === 2 && remaining[0] + remaining[1] === distance) {
+    steps = [take(remaining[0]), take(remaining[0])];
+  } else {
+    // Bear-off with a larger die (3/off with a 5), or dice the text doesn't explain
+    const larger = remaining.filter((die) => die > distance).sort((a, b) => a - b)[0];
+    steps = [larger !== undefined && to === 0 ? take(larger) : distance];
+  }
+
+  const moves: ReplayMove[] = [];
+  let point = from;
+  for (const die of steps) {
+    const next = Math.max(0, point - die);
+    moves.push({
+      from: toInternalPoint(point, player),
+      to: toInternalPoint(next, player),
+      diceUsed: die,
+      isHit: false,
+    });
+    point = next;
+  }
+  return moves;
+}
@@ -0,0 +1,215 @@
+import { BoardState } from '../ai/ai.types';
+import { BAR, OFF, RulesEngineService } from './rules-engine.service';
+
+/**
+ * Board with only the given checkers: { point: count } per color
+ */
+function makeBoard(
+  white: Record<number, number>,
+  black: Record<number, number>,
+  extra: Partial<BoardState> = {},
+): BoardState {
+  const points = Array.from({ length: 24 }, () => ({ white: 0, black: 0 }));
+  for (const [point, count] of Object.entries(white)) points[Number(point)].white = count;
+  for (const [point, count] of Object.entries(black)) points[Number(point)].black = count;
+
+  return {
+    points,
+    bar: { white: 0, black: 0 },
+    off: { white: 0, black: 0 },
+    currentPlayer: 'white',
+    ...extra,
+  };
+}
+
+describe('RulesEngineService', () => {
+  let rules: RulesEngineService;
+
+  beforeEach(() => {
+    rules = new RulesEngineService();
+  });
+
+  describe('initialBoard', () => {
+    it('places 15 checkers per side, black mirroring white', () => {
+      const board = rules.initialBoard();
+
+      expect(board.points.reduce((sum, point) => sum + point.white, 0)).toBe(15);
+      expect(board.points.reduce((sum, point) => sum + point.black, 0)).toBe(15);
+      board.points.forEach((point, index) => {
+        expect(point.white).toBe(board.points[23 - index].black);
+      });
+      expect(rules.pipCount(board, 'white')).toBe(167);
+      expect(rules.pipCount(board, 'black')).toBe(167);
+    });
+  });
+
+  describe('forced play', () => {
+    it('rejects a first move that leaves the other die unplayable', () => {
+      // 20 → 18 (2) blocks the 6 (18 → 12 is closed, 5 can't bear off)
+      const board = makeBoard({ 20: 1, 5: 1 }, { 12: 2 });
+
+      expect(rules.getSingleDieMoves(board, 2, 'white')).toContainEqual({
+        from: 20,
+        to: 18,
+        diceUsed: 2,
+      });
+
+      const legal = rules.getLegalMoves(board, [6, 2], 'white');
+      expect(legal).toEqual(
+        expect.arrayContaining([
+          { from: 20, to: 14, diceUsed: 6 },
+          { from: 5, to: 3, diceUsed: 2 },
+        ]),
+      );
+      expect(legal).not.toContainEqual({ from: 20, to: 18, diceUsed: 2 });
+      expect(rules.findLegalMove(board, [6, 2], 'white', 20, 18, 2)).toBeNull();
+    });
+
+    it('makes every legal sequence use both dice when possible', () => {
+      const board = makeBoard({ 20: 1, 5: 1 }, { 12: 2 });
+
+      const sequences = rules.getLegalSequences(board, [6, 2], 'white');
+      expect(sequences.length).toBeGreaterThan(0);
+      sequences.forEach((sequence) => expect(sequence).toHaveLength(2));
+    });
+
+    it('plays four moves with doubles', () => {
+      const board = rules.initialBoard();
+
+      const sequences = rules.getLegalSequences(board, rules.expandDice([3, 3]), 'white');
+      sequences.forEach((sequence) => expect(sequence).toHaveLength(4));
+    });
+  });
+
+  describe('higher die rule', () => {
+    it('forces the higher die when only one die can be played', () => {
+      // Either die alone is fine, but 20 → 12 (both) is closed
+      const board = makeBoard({ 20: 1 }, { 12: 2 });
+
+      expect(rules.getLegalMoves(board, [6, 2], 'white')).toEqual([
+        { from: 20, to: 14, diceUsed: 6 },
+      ]);
+      expect(rules.getLegalSequences(board, [6, 2], 'white')).toEqual([
+        [{ from: 20, to: 14, diceUsed: 6 }],
+      ]);
+    });
+
+    it('allows the lower die when the higher one is blocked', () => {
+      const board = makeBoard({ 20: 1 }, { 12: 2, 14: 2 });
+
+      expect(rules.getLegalMoves(board, [6, 2], 'white')).toEqual([
+        { from: 20, to: 18, diceUsed: 2 },
+      ]);
+    });
+  });
+
+  describe('bar entry', () => {
+    it('only allows entering while a checker is on the bar', () => {
+      const board = makeBoard({ 10: 1 }, {}, { bar: { white: 1, black: 0 } });
+
+      const legal = rules.getLegalMoves(board, [3, 5], 'white');
+      expect(legal.length).toBeGreaterThan(0);
+      legal.forEach((move) => expect(move.from).toBe(BAR));
+      expect(legal).toEqual(
+        expect.arrayContaining([
+          { from: BAR, to: 21, diceUsed: 3 },
+          { from: BAR, to: 19, diceUsed: 5 },
+        ]),
+      );
+    });
+
+    it('enters black on point die - 1', () => {
+      const board = makeBoard({}, { 13: 1 }, { bar: { white: 0, black: 1 } });
+
+      expect(rules.getSingleDieMoves(board, 4, 'black')).toEqual([
+        { from: BAR, to: 3, diceUsed: 4 },
+      ]);
+    });
+
+    it('cannot enter on a closed point', () => {
+      const board = makeBoard({ 10: 1 }, { 21: 2 }, { bar: { white: 1, black: 0 } });
+
+      expect(rules.getLegalMoves(board, [3, 5], 'white')).toEqual([
+        { from: BAR, to: 19, diceUsed: 5 },
+      ]);
+    });
+
+    it('has no legal play against a closed home board', () => {
+      const black = { 18: 2, 19: 2, 20: 2, 21: 2, 22: 2, 23: 2 };
+      const board = makeBoard({ 10: 1 }, black, { bar: { white: 1, black: 0 } });
+
+      expect(rules.getLegalMoves(board, [6, 1], 'white')).toEqual([]);
+      expect(rules.getLegalSequences(board, [6, 1], 'white')).toEqual([]);
+    });
+  });
+
+  describe('bear-off', () => {
+    it('bears off with the exact die', () => {
+      const board = makeBoard({ 2: 1, 4: 1 }, {});
+
+      expect(rules.getSingleDieMoves(board, 3, 'white')).toContainEqual({
+        from: 2,
+        to: OFF,
+        diceUsed: 3,
+      });
+    });
+
+    it('bears off from the highest point with a larger die only', () => {
+      const board = makeBoard({ 0: 1, 2: 1 }, {});
+
+      expect(rules.getSingleDieMoves(board, 6, 'white')).toEqual([
+        { from: 2, to: OFF, diceUsed: 6 },
+      ]);
+    });
+
+    it('does not bear off while a checker is outside the home board', () => {
+      const board = makeBoard({ 2: 1, 10: 1 }, {});
+
+      const moves = rules.getSingleDieMoves(board, 3, 'white');
+      expect(moves.some((move) => move.to === OFF)).toBe(false);
+    });
+
+    it('accepts any off-board destination from a client as bearing off', () => {
+      const board = makeBoard({ 2: 1 }, {});
+
+      expect(rules.findLegalMove(board, [3], 'white', 2, -1, 3)).toEqual({
+        from: 2,
+        to: OFF,
+        diceUsed: 3,
+      });
+    });
+  });
+
+  describe('applyMove', () => {
+    it('sends a hit blot to the bar', () => {
+      const board = makeBoard({ 10: 1 }, { 7: 1 });
+
+      const { board: next, isHit } = rules.applyMove(
+        board,
+        { from: 10, to: 7, diceUsed: 3 },
+        'white',
+      );
+      expect(isHit).toBe(true);
+      expect(next.points[7]).toEqual({ white: 1, black: 0 });
+      expect(next.bar.black).toBe(1);
+      expect(board.bar.black).toBe(0); // input board untouched
+    });
+  });
+
+  describe('getSetResultType', () => {
+    it('scores single, mars and backgammon', () => {
+      const off = { white: 15, black: 0 };
+
+      expect(
+        rules.getSetResultType(
+          makeBoard({}, { 20: 14 }, { off: { white: 15, black: 1 } }),
+          'white',
+        ),
+      ).toBe('SINGLE');
+      expect(rules.getSetResultType(makeBoard({}, { 20: 15 }, { off }), 'white')).toBe('MARS');
+      expect(rules.getSetResultType(makeBoard({}, { 3: 1, 20: 14 }, { off }), 'white')).toBe(
+        'BACKGAMMON',
+      );
+    });
+  });
+});
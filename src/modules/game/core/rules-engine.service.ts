@@ -0,0 +1,430 @@
+import { Injectable } from '@nestjs/common';
+import { AIMove, BoardState } from '../ai/ai.types';
+
+/**
+ * Rules Engine - Server-authoritative backgammon move legality
+ *
+ * Pure board logic (no database access) shared by:
+ * - GameService.recordMove() - validates every submitted checker move
+ * - AIPlayerService - generates the legal plays it chooses from
+ *
+ * RULES COVERED:
+ * - Bar entry: checkers on the bar must enter before anything else moves
+ * - Hits: landing on a single opponent checker sends it to the bar
+ * - Bear-off: all checkers home; exact die, or a larger die from the highest point
+ * - Forced play: use as many dice as possible; if only one die can be used, use the larger
+ * - Set result: single, mars (loser bore off nothing) or backgammon (mars + loser on bar / in winner's home)
+ *
+ * BOARD ORIENTATION (same as AIPlayerService):
+ * - ⚪ white moves 23 → 0, home 0-5, enters from the bar on point 24 - die
+ * - ⚫ black moves 0 → 23, home 18-23, enters from the bar on point die - 1
+ * - from = -1 (BAR) means the checker comes from the bar
+ * - to = 24 (OFF) means the checker is borne off
+ */
+
+export const BAR = -1;
+export const OFF = 24;
+
+export type PlayerSide = 'white' | 'black';
+
+// SINGLE = 1 point, MARS (gammon) = 2, BACKGAMMON = 3
+export type SetResultType = 'SINGLE' | 'MARS' | 'BACKGAMMON';
+
+export interface AppliedMove {
+  board: BoardState;
+  isHit: boolean;
+}
+
+@Injectable()
+export class RulesEngineService {
+  /**
+   * 🎯 Standard starting position (every set starts here)
+   * ⚪ white: 2 on 23, 5 on 12, 3 on 7, 5 on 5 - ⚫ black is the mirror image (point 23 - n)
+   */
+  initialBoard(): BoardState {
+    const points = Array.from({ length: 24 }, () => ({ white: 0, black: 0 }));
+
+    const whiteStart = [
+      [23, 2],
+      [12, 5],
+      [7, 3],
+      [5, 5],
+    ];
+
+    for (const [point, count] of whiteStart) {
+      points[point].white = count;
+      points[23 - point].black = count;
+    }
+
+    return {
+      points,
+      bar: { white: 0, black: 0 },
+      off: { white: 0, black: 0 },
+      currentPlayer: 'white',
+    };
+  }
+
+  /**
+   * Expand a roll into the dice that can be played (doubles are played four times)
+   */
+  expandDice(dice: number[]): number[] {
+    if (dice.length === 2 && dice[0] === dice[1]) {
+      return [dice[0], dice[0], dice[0], dice[0]];
+    }
+    return [...dice];
+  }
+
+  /**
+   * Remove one occurrence of a die value from the remaining dice
+   */
+  removeDie(dice: number[], die: number): number[] {
+    const index = dice.indexOf(die);
+    if (index === -1) {
+      return [...dice];
+    }
+    return [...dice.slice(0, index), ...dice.slice(index + 1)];
+  }
+
+  /**
+   * All legal complete plays for a roll (one entry per distinct resulting position)
+   * Returns [] when the player cannot move at all
+   */
+  getLegalSequences(board: BoardState, dice: number[], color: PlayerSide): AIMove[][] {
+    const results = new Map<string, AIMove[]>();
+    this.collectSequences(board, dice, color, [], new Set<string>(), results);
+
+    const sequences = Array.from(results.values());
+    const maxLength = sequences.reduce((max, seq) => Math.max(max, seq.length), 0);
+    if (maxLength === 0) {
+      return [];
+    }
+
+    const longest = sequences.filter((seq) => seq.length === maxLength);
+    if (maxLength === 1 && this.isMixedRoll(dice)) {
+      const higherDie = Math.max(...dice);
+      const withHigherDie = longest.filter((seq) => seq[0].diceUsed === higherDie);
+      return withHigherDie.length > 0 ? withHigherDie : longest;
+    }
+
+    return longest;
+  }
+
+  /**
+   * Legal next checker moves given the dice still to be played this turn
+   * A move is legal only if it starts a play that uses the maximum number of dice
+   */
+  getLegalMoves(board: BoardState, remainingDice: number[], color: PlayerSide): AIMove[] {
+    const memo = new Map<string, number>();
+    const candidates: Array<{ move: AIMove; depth: number }> = [];
+
+    for (const die of new Set(remainingDice)) {
+      for (const move of this.getSingleDieMoves(board, die, color)) {
+        const next = this.applyMove(board, move, color).board;
+        const rest = this.removeDie(remainingDice, die);
+        candidates.push({ move, depth: 1 + this.maxPlayable(next, rest, color, memo) });
+      }
+    }
+
+    const maxDepth = candidates.reduce((max, c) => Math.max(max, c.depth), 0);
+    const legal = candidates.filter((c) => c.depth === maxDepth).map((c) => c.move);
+
+    if (maxDepth === 1 && this.isMixedRoll(remainingDice)) {
+      const higherDie = Math.max(...remainingDice);
+      const withHigherDie = legal.filter((move) => move.diceUsed === higherDie);
+      return withHigherDie.length > 0 ? withHigherDie : legal;
+    }
+
+    return legal;
+  }
+
+  /**
+   * Find the legal move matching a client submission (from/to/die)
+   * Any destination off the board (< 0 or > 23) is treated as bearing off
+   * Returns null if the submission is not a legal move
+   */
+  findLegalMove(
+    board: BoardState,
+    remainingDice: number[],
+    color: PlayerSide,
+    from: number,
+    to: number,
+    diceUsed: number,
+  ): AIMove | null {
+    const target = to < 0 || to > 23 ? OFF : to;
+    const match = this.getLegalMoves(board, remainingDice, color).find(
+      (move) => move.from === from && move.to === target && move.diceUsed === diceUsed,
+    );
+    return match || null;
+  }
+
+  /**
+   * Apply a single checker move (assumed legal) and report whether it hit
+   */
+  applyMove(board: BoardState, move: AIMove, color: PlayerSide): AppliedMove {
+    const next = this.cloneBoard(board);
+    const opponent = this.opponentOf(color);
+    let isHit = false;
+
+    if (move.from === BAR) {
+      next.bar[color]--;
+    } else {
+      next.points[move.from][color]--;
+    }
+
+    if (move.to < 0 || move.to > 23) {
+      next.off[color]++;
+    } else {
+      const destPoint = next.points[move.to];
+      if (destPoint[opponent] === 1) {
+        destPoint[opponent] = 0;
+        next.bar[opponent]++;
+        isHit = true;
+      }
+      destPoint[color]++;
+    }
+
+    return { board: next, isHit };
+  }
+
+  /**
+   * All single-checker moves for one die, ignoring the forced-play rule
+   */
+  getSingleDieMoves(board: BoardState, die: number, color: PlayerSide): AIMove[] {
+    const moves: AIMove[] = [];
+
+    // Checkers on the bar must enter first
+    if (board.bar[color] > 0) {
+      const entry = color === 'white' ? 24 - die : die - 1;
+      if (this.isOpen(board, entry, color)) {
+        moves.push({ from: BAR, to: entry, diceUsed: die });
+      }
+      return moves;
+    }
+
+    for (let from = 0; from < 24; from++) {
+      if (board.points[from][color] === 0) continue;
+
+      const target = color === 'white' ? from - die : from + die;
+      if (target < 0 || target > 23) {
+        if (this.canBearOffFrom(board, from, die, color)) {
+          moves.push({ from, to: OFF, diceUsed: die });
+        }
+      } else if (this.isOpen(board, target, color)) {
+        moves.push({ from, to: target, diceUsed: die });
+      }
+    }
+
+    return moves;
+  }
+
+  /**
+   * Whether every checker of this color is in its home board (none on the bar)
+   */
+  allCheckersHome(board: BoardState, color: PlayerSide): boolean {
+    if (board.bar[color] > 0) return false;
+
+    for (let i = 0; i < 24; i++) {
+      if (board.points[i][color] === 0) continue;
+      const inHome = color === 'white' ? i <= 5 : i >= 18;
+      if (!inHome) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Pip count (total distance left to bear off every checker)
+   */
+  pipCount(board: BoardState, color: PlayerSide): number {
+    let pips = board.bar[color] * 25;
+    for (let i = 0; i < 24; i++) {
+      const distance = color === 'white' ? i + 1 : 24 - i;
+      pips += board.points[i][color] * distance;
+    }
+    return pips;
+  }
+
+  /**
+   * Result of a finished set from the final board (winner has borne off all 15)
+   * Settings (mars / backgammon enabled) are applied by the caller
+   */
+  getSetResultType(board: BoardState, winner: PlayerSide): SetResultType {
+    const loser = this.opponentOf(winner);
+
+    if (board.off[loser] > 0) {
+      return 'SINGLE';
+    }
+
+    // Loser checker on the bar or inside the winner's home board
+    let stuckInWinnerHome = board.bar[loser] > 0;
+    for (let i = 0; i < 24; i++) {
+      const inWinnerHome = winner === 'white' ? i <= 5 : i >= 18;
+      if (inWinnerHome && board.points[i][loser] > 0) {
+        stuckInWinnerHome = true;
+      }
+    }
+
+    return stuckInWinnerHome ? 'BACKGAMMON' : 'MARS';
+  }
+
+  opponentOf(color: PlayerSide): PlayerSide {
+    return color === 'white' ? 'black' : 'white';
+  }
+
+  // ========================================================================
+  // 🔄 Board format conversion
+  // ========================================================================
+
+  /**
+   * Build an engine board from a stored gameState
+   * Accepts the frontend format ({ checkers: ['white', ...], count }) and the AI format ({ white, black })
+   */
+  fromGameState(gameState: any): BoardState {
+    if (!gameState?.points || gameState.points.length !== 24) {
+      throw new Error('Invalid game state: points array must have exactly 24 elements');
+    }
+
+    const points = gameState.points.map((point: any) => {
+      if (Array.isArray(point?.checkers)) {
+        return {
+          white: point.checkers.filter((c: string) => c === 'white').length,
+          black: point.checkers.filter((c: string) => c === 'black').length,
+        };
+      }
+      return { white: point?.white || 0, black: point?.black || 0 };
+    });
+
+    return {
+      points,
+      bar: { white: gameState.bar?.white || 0, black: gameState.bar?.black || 0 },
+      off: { white: gameState.off?.white || 0, black: gameState.off?.black || 0 },
+      currentPlayer: gameState.currentPlayer === 'black' ? 'black' : 'white',
+    };
+  }
+
+  /**
+   * Convert an engine board back to the stored (frontend) board fields
+   */
+  toGameStateBoard(board: BoardState) {
+    return {
+      points: board.points.map((point) => {
+        const checkers = [
+          ...Array<string>(point.white).fill('white'),
+          ...Array<string>(point.black).fill('black'),
+        ];
+        return { checkers, count: checkers.length };
+      }),
+      bar: { ...board.bar },
+      off: { ...board.off },
+    };
+  }
+
+  // ========================================================================
+  // 🔒 Internal helpers
+  // ========================================================================
+
+  private collectSequences(
+    board: BoardState,
+    remainingDice: number[],
+    color: PlayerSide,
+    path: AIMove[],
+    visited: Set<string>,
+    results: Map<string, AIMove[]>,
+  ): void {
+    const stateKey = `${this.boardKey(board)}|${remainingDice.join(',')}`;
+    if (visited.has(stateKey)) return;
+    visited.add(stateKey);
+
+    let moved = false;
+    for (const die of new Set(remainingDice)) {
+      for (const move of this.getSingleDieMoves(board, die, color)) {
+        moved = true;
+        const next = this.applyMove(board, move, color).board;
+        this.collectSequences(
+          next,
+          this.removeDie(remainingDice, die),
+          color,
+          [...path, move],
+          visited,
+          results,
+        );
+      }
+    }
+
+    if (!moved && path.length > 0) {
+      const resultKey = `${path.length}|${this.boardKey(board)}`;
+      if (!results.has(resultKey)) {
+        results.set(resultKey, path);
+      }
+    }
+  }
+
+  private maxPlayable(
+    board: BoardState,
+    dice: number[],
+    color: PlayerSide,
+    memo: Map<string, number>,
+  ): number {
+    if (dice.length === 0) return 0;
+
+    const key = `${this.boardKey(board)}|${dice.join(',')}`;
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+
+    let best = 0;
+    for (const die of new Set(dice)) {
+      for (const move of this.getSingleDieMoves(board, die, color)) {
+        const next = this.applyMove(board, move, color).board;
+        best = Math.max(best, 1 + this.maxPlayable(next, this.removeDie(dice, die), color, memo));
+        if (best === dice.length) break;
+      }
+      if (best === dice.length) break;
+    }
+
+    memo.set(key, best);
+    return best;
+  }
+
+  private canBearOffFrom(board: BoardState, from: number, die: number, color: PlayerSide): boolean {
+    if (!this.allCheckersHome(board, color)) return false;
+
+    // ⚪ white: point 0 = 1 pip away | ⚫ black: point 23 = 1 pip away
+    const distance = color === 'white' ? from + 1 : 24 - from;
+    if (die === distance) return true;
+    if (die < distance) return false;
+
+    // Larger die: only allowed from the highest occupied point
+    if (color === 'white') {
+      for (let p = from + 1; p <= 5; p++) {
+        if (board.points[p].white > 0) return false;
+      }
+    } else {
+      for (let p = 18; p < from; p++) {
+        if (board.points[p].black > 0) return false;
+      }
+    }
+    return true;
+  }
+
+  private isOpen(board: BoardState, point: number, color: PlayerSide): boolean {
+    return board.points[point][this.opponentOf(color)] < 2;
+  }
+
+  private isMixedRoll(dice: number[]): boolean {
+    return dice.length === 2 && dice[0] !== dice[1];
+  }
+
+  private cloneBoard(board: BoardState): BoardState {
+    return {
+      points: board.points.map((point) => ({ white: point.white, black: point.black })),
+      bar: { white: board.bar.white, black: board.bar.black },
+      off: { white: board.off.white, black: board.off.black },
+      currentPlayer: board.currentPlayer,
+    };
+  }
+
+  private boardKey(board: BoardState): string {
+    const points = board.points.map((p) => `${p.white}.${p.black}`).join(',');
+    return `${points}|${board.bar.white}.${board.bar.black}|${board.off.white}.${board.off.black}`;
+  }
+}
@@ -0,0 +1,132 @@
+import { PrismaService } from '../../database/prisma.service';
+import { DiceService } from './dice.service';
+import { GameService } from './game.service';
+
+const SERVER_SEED = 'server-seed';
+const SERVER_SEED_HASH = '91024ec49c5bec0b689e42892526320fce08337205c91de94c7a588c20d08eeb';
+
+describe('DiceService', () => {
+  const dice = new DiceService();
+
+  describe('rollFairDice', () => {
+    it('gives fixed dice for a known server seed, client seed and nonce', () => {
+      expect(dice.rollFairDice(SERVER_SEED, 'client-seed', 0)).toEqual([1, 2]);
+      expect(dice.rollFairDice(SERVER_SEED, 'client-seed', 1)).toEqual([5, 1]);
+      expect(dice.rollFairDice(SERVER_SEED, 'client-seed', 2)).toEqual([3, 2]);
+    });
+
+    it('skips bytes >= 252', () => {
+      // HMAC starts with 252, 95, 15 - a plain byte % 6 would give 1 for the first die
+      expect(dice.rollFairDice(SERVER_SEED, 'skip-59', 0)).toEqual([6, 4]);
+    });
+
+    it('always gives two dice between 1 and 6', () => {
+      for (let nonce = 0; nonce < 200; nonce++) {
+        expect(dice.validateDice(dice.rollFairDice(SERVER_SEED, 'client-seed', nonce))).toBe(true);
+      }
+    });
+  });
+
+  describe('replayFairRolls', () => {
+    it('recomputes every roll in nonce order', () => {
+      expect(dice.replayFairRolls(SERVER_SEED, 'client-seed', 3)).toEqual([
+        { nonce: 0, dice: [1, 2] },
+        { nonce: 1, dice: [5, 1] },
+        { nonce: 2, dice: [3, 2] },
+      ]);
+    });
+  });
+
+  describe('hashServerSeed', () => {
+    it('is the SHA-256 commitment of the server seed', () => {
+      expect(dice.hashServerSeed(SERVER_SEED)).toBe(SERVER_SEED_HASH);
+    });
+  });
+});
+
+describe('GameService.getDiceFairness', () => {
+  const dice = new DiceService();
+  let game: {
+    id: string;
+    status: string;
+    serverSeed: string;
+    serverSeedHash: string;
+    clientSeed: string;
+    diceNonce: number;
+  };
+  let gameService: GameService;
+
+  beforeEach(() => {
+    const serverSeed = dice.generateServerSeed();
+    game = {
+      id: 'game-1',
+      status: 'ACTIVE',
+      serverSeed,
+      serverSeedHash: dice.hashServerSeed(serverSeed),
+      clientSeed: 'my-lucky-seed',
+      diceNonce: 0,
+    };
+
+    // Only the game row is touched: nonce claims and the fairness read
+    const prisma = {
+      game: {
+        update: jest.fn(async ({ data }) => {
+          game.diceNonce += data.diceNonce.increment;
+          return { ...game };
+        }),
+        findUnique: jest.fn(async () => ({ ...game })),
+      },
+    };
+
+    gameService = new GameService(
+      prisma as unknown as PrismaService,
+      undefined as never,
+      undefined as never,
+      undefined as never,
+      undefined as never,
+      undefined as never,
+      dice,
+      undefined as never,
+      undefined as never,
+      undefined as never,
+    );
+  });
+
+  /**
+   * Rolls the game consumes (opening, turns) - same path as every server roll
+   */
+  async function consumeRolls(count: number) {
+    const rolls: [number, number][] = [];
+    for (let i = 0; i < count; i++) {
+      rolls.push(await gameService['generateDice'](game.id));
+    }
+    return rolls;
+  }
+
+  it('keeps the server seed secret while the game runs', async () => {
+    await consumeRolls(3);
+
+    const fairness = await gameService.getDiceFairness(game.id);
+
+    expect(fairness).toMatchObject({
+      revealed: false,
+      serverSeedHash: game.serverSeedHash,
+      clientSeed: 'my-lucky-seed',
+      rollCount: 3,
+    });
+    expect(fairness).not.toHaveProperty('revealedServerSeed');
+    expect(fairness).not.toHaveProperty('rolls');
+  });
+
+  it('replays exactly the rolls the game consumed once it has ended', async () => {
+    const consumed = await consumeRolls(8);
+    game.status = 'COMPLETED';
+
+    const fairness = await gameService.getDiceFairness(game.id);
+
+    expect(fairness).toMatchObject({ revealed: true, hashMatches: true, rollCount: 8 });
+    if (!('rolls' in fairness)) throw new Error('Server seed not revealed');
+    expect(fairness.rolls.map((roll) => roll.dice)).toEqual(consumed);
+    expect(dice.hashServerSeed(fairness.revealedServerSeed)).toBe(game.serverSeedHash);
+  });
+});
@@ -1,8 +1,25 @@
 import { Injectable } from '@nestjs/common';
+import { createHash, createHmac, randomBytes, randomInt } from 'crypto';
+
+/**
+ * 🎲 Provably fair roll (commit-reveal)
+ */
+export interface FairRoll {
+  nonce: number;
+  dice: [number, number];
+}
 
 /**
  * Service for generating fair dice rolls on the server-side
  * to prevent client-side manipulation
+ *
+ * 🔐 Provably fair (commit-reveal):
+ * - Game creation: server seed from a CSPRNG, only its SHA-256 hash is published (commitment)
+ * - Client seed: chosen by the game creator (or random) - the server can't pick dice after seeing it
+ *   (the only client seed of a game - the joining player / matchmaking opponent doesn't add one)
+ * - Roll #nonce = HMAC-SHA256(key: serverSeed, message: `${clientSeed}:${nonce}`)
+ *   → bytes read in order, byte >= 252 skipped (no modulo bias), die = byte % 6 + 1
+ * - Game end: server seed revealed → anyone can recompute every roll and the hash
  */
 @Injectable()
 export class DiceService {
@@ -17,28 +34,69 @@ export class DiceService {
   }
 
   /**
-   * Generate a single random dice value between 1 and 6
+   * Generate a single random dice value between 1 and 6 (CSPRNG)
    * @returns Single dice value (1-6)
    */
   rollSingleDie(): number {
-    return Math.floor(Math.random() * 6) + 1;
+    return randomInt(1, 7);
+  }
+
+  // ========================================================================
+  // 🔐 Provably fair dice
+  // ========================================================================
+
+  /**
+   * New secret server seed (32 random bytes, hex)
+   */
+  generateServerSeed(): string {
+    return randomBytes(32).toString('hex');
+  }
+
+  /**
+   * Default client seed when the player doesn't send one (16 random bytes, hex)
+   */
+  generateClientSeed(): string {
+    return randomBytes(16).toString('hex');
   }
 
   /**
-   * Roll dice for opening roll (one die per player)
-   * Returns different values to avoid tie
-   * @returns Object with white and black dice values
+   * Commitment published before the first roll: SHA-256(serverSeed), hex
    */
-  rollOpeningDice(): { white: number; black: number } {
-    const whiteDie = this.rollSingleDie();
-    let blackDie = this.rollSingleDie();
-    
-    // Prevent tie - reroll black die if same as white
-    while (blackDie === whiteDie) {
-      blackDie = this.rollSingleDie();
+  hashServerSeed(serverSeed: string): string {
+    return createHash('sha256').update(serverSeed).digest('hex');
+  }
+
+  /**
+   * Roll #nonce of a game - same seeds and nonce always give the same dice
+   */
+  rollFairDice(serverSeed: string, clientSeed: string, nonce: number): [number, number] {
+    const dice: number[] = [];
+    let round = 0;
+
+    while (dice.length < 2) {
+      // Extra rounds only if 32 bytes in a row were >= 252 (practically never)
+      const message = round === 0 ? `${clientSeed}:${nonce}` : `${clientSeed}:${nonce}:${round}`;
+      const digest = createHmac('sha256', serverSeed).update(message).digest();
+
+      for (const byte of digest) {
+        if (byte >= 252) continue;
+        dice.push((byte % 6) + 1);
+        if (dice.length === 2) break;
+      }
+      round++;
     }
-    
-    return { white: whiteDie, black: blackDie };
+
+    return [dice[0], dice[1]];
+  }
+
+  /**
+   * Recompute rolls 0..rollCount-1 from a revealed server seed
+   */
+  replayFairRolls(serverSeed: string, clientSeed: string, rollCount: number): FairRoll[] {
+    return Array.from({ length: rollCount }, (_, nonce) => ({
+      nonce,
+      dice: this.rollFairDice(serverSeed, clientSeed, nonce),
+    }));
   }
 
   /**
@@ -49,8 +107,8 @@ export class DiceService {
   validateDice(dice: number[]): boolean {
     if (!Array.isArray(dice)) return false;
     if (dice.length !== 2) return false;
-    
-    return dice.every(die => 
+
+    return dice.every(die =>
       Number.isInteger(die) && die >= 1 && die <= 6
     );
   }
@@ -1,6 +1,6 @@
 import { IsEnum, IsArray, ValidateNested, IsString } from 'class-validator';
 import { Type } from 'class-transformer';
-import { AIDifficulty } from '../ai/ai-player.service';
+import { AIDifficulty } from '../ai/ai.types';
 
 class PointState {
   white: number;
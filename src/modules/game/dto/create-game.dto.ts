@@ -1,39 +1,50 @@
-import { IsEnum, IsOptional, IsString, IsInt, Min } from 'class-validator';
+import {
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsInt,
+  IsNumber,
+  IsPositive,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class CreateGameDto {
-  @ApiProperty({ 
-    example: 'AI', 
+  @ApiProperty({
+    example: 'AI',
     enum: ['AI', 'ONLINE', 'TOURNAMENT'],
-    description: 'Type of game'
+    description: 'Type of game',
   })
   @IsEnum(['AI', 'ONLINE', 'TOURNAMENT'])
   gameType: 'AI' | 'ONLINE' | 'TOURNAMENT';
 
-  @ApiProperty({ 
+  @ApiProperty({
     example: 'MEDIUM',
-    enum: ['EASY', 'MEDIUM', 'HARD', 'EXPERT'],
+    enum: ['EASY', 'MEDIUM', 'HARD', 'EXPERT', 'ADAPTIVE'],
     required: false,
-    description: 'AI difficulty level (only for AI games)'
+    description:
+      'AI difficulty level (only for AI games). ADAPTIVE picks the level from your recent results against the AI',
   })
   @IsOptional()
-  @IsEnum(['EASY', 'MEDIUM', 'HARD', 'EXPERT'])
-  aiDifficulty?: 'EASY' | 'MEDIUM' | 'HARD' | 'EXPERT';
+  @IsEnum(['EASY', 'MEDIUM', 'HARD', 'EXPERT', 'ADAPTIVE'])
+  aiDifficulty?: 'EASY' | 'MEDIUM' | 'HARD' | 'EXPERT' | 'ADAPTIVE';
 
-  @ApiProperty({ 
+  @ApiProperty({
     example: 'black',
     enum: ['white', 'black'],
     required: false,
-    description: 'AI player color (only for AI games). Defaults to black if not provided.'
+    description: 'AI player color (only for AI games). Defaults to black if not provided.',
   })
   @IsOptional()
   @IsEnum(['white', 'black'])
   aiPlayerColor?: 'white' | 'black';
 
-  @ApiProperty({ 
-    example: 'uuid-of-black-player', 
+  @ApiProperty({
+    example: 'uuid-of-black-player',
     required: false,
-    description: 'ID of opponent (for ONLINE games). For AI games, system will assign AI player.'
+    description: 'ID of opponent (for ONLINE games). For AI games, system will assign AI player.',
   })
   @IsOptional()
   @IsString()
@@ -45,10 +56,43 @@ export class CreateGameDto {
   @Min(30)
   timeControl?: number;
 
-  @ApiProperty({ 
-    example: 'CLASSIC', 
+  @ApiProperty({
+    example: 5,
+    required: false,
+    description:
+      'Match length in points (first to reach it wins the match). Defaults to 1 (single set)',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(25)
+  matchLength?: number;
+
+  @ApiProperty({
+    example: 10,
+    required: false,
+    description: 'Bet amount in USDT - matchmaking / invitations only',
+  })
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  betAmount?: number;
+
+  @ApiProperty({
+    example: 'my-lucky-seed',
+    required: false,
+    description:
+      'Provably fair client seed (mixed into every dice roll, the only one of the game). Random if not provided',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  clientSeed?: string;
+
+  @ApiProperty({
+    example: 'CLASSIC',
     enum: ['CLASSIC', 'MODERN', 'TOURNAMENT'],
-    required: false 
+    required: false,
   })
   @IsOptional()
   @IsEnum(['CLASSIC', 'MODERN', 'TOURNAMENT'])
@@ -0,0 +1,35 @@
+import { IsString, IsInt, IsNotEmpty, Min, Max, MaxLength } from 'class-validator';
+
+/**
+ * 📡 Payloads of client → server events on the /game socket (protocol v1)
+ */
+
+export class GameRoomPayload {
+  @IsString()
+  @IsNotEmpty()
+  gameId: string;
+}
+
+export class MovePayload extends GameRoomPayload {
+  @IsInt()
+  @Min(-1)
+  @Max(24)
+  from: number; // 0-23, -1 for bar
+
+  @IsInt()
+  @Min(-1)
+  @Max(24)
+  to: number; // 0-23, 24 or -1 for off
+
+  @IsInt()
+  @Min(1)
+  @Max(6)
+  diceUsed: number;
+}
+
+export class ChatMessagePayload extends GameRoomPayload {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  message: string;
+}
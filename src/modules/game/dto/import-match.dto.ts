@@ -0,0 +1,18 @@
+import { IsEnum, IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ImportMatchDto {
+  @ApiProperty({
+    example: 'mat',
+    enum: ['mat', 'sgf'],
+    description: 'File format: Jellyfish / GNU Backgammon .mat text or GNU Backgammon .sgf',
+  })
+  @IsEnum(['mat', 'sgf'])
+  format: 'mat' | 'sgf';
+
+  @ApiProperty({ description: 'Full file content' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(90000)
+  content: string;
+}
@@ -6,7 +6,7 @@ export class RecordMoveDto {
   @IsEnum(['WHITE', 'BLACK'])
   playerColor: 'WHITE' | 'BLACK';
 
-  @ApiProperty({ example: 1, description: 'Sequential move number' })
+  @ApiProperty({ example: 1, description: 'Sequential move number (ignored - assigned by server)' })
   @IsInt()
   moveNumber: number;
 
@@ -14,7 +14,7 @@ export class RecordMoveDto {
   @IsInt()
   from: number;
 
-  @ApiProperty({ example: 10, description: 'To point (0-23, 24 for off)' })
+  @ApiProperty({ example: 10, description: 'To point (0-23, 24 or -1 for off)' })
   @IsInt()
   to: number;
 
@@ -22,27 +22,39 @@ export class RecordMoveDto {
   @IsInt()
   diceUsed: number;
 
-  @ApiProperty({ example: false, required: false })
+  @ApiProperty({
+    example: false,
+    required: false,
+    description: 'Ignored - hit is detected by server',
+  })
   @IsOptional()
   @IsBoolean()
   isHit?: boolean;
 
-  @ApiProperty({ example: { points: [], bar: {}, off: {} }, required: false })
+  @ApiProperty({
+    example: { points: [], bar: {}, off: {} },
+    required: false,
+    description: 'Ignored - board is computed by server',
+  })
   @IsOptional()
   @IsObject()
   boardStateBefore?: any;
 
-  @ApiProperty({ example: { points: [], bar: {}, off: {} }, required: false })
+  @ApiProperty({
+    example: { points: [], bar: {}, off: {} },
+    required: false,
+    description: 'Ignored - board is computed by server',
+  })
   @IsOptional()
   @IsObject()
   boardStateAfter?: any;
 
-  @ApiProperty({ example: 115, required: false, description: 'Seconds remaining' })
+  @ApiProperty({ example: 115, required: false, description: 'Ignored - server clock' })
   @IsOptional()
   @IsInt()
   timeRemaining?: number;
 
-  @ApiProperty({ example: 2500, required: false, description: 'Milliseconds taken' })
+  @ApiProperty({ example: 2500, required: false, description: 'Ignored - server time' })
   @IsOptional()
   @IsInt()
   moveTime?: number;
@@ -3,20 +3,16 @@ import { IsObject, IsOptional, IsArray } from 'class-validator';
 
 export class SyncStateDto {
   @ApiProperty({ 
-    description: 'Current game state to sync',
+    description: 'Client display state - only gameState.ui is stored, other fields are ignored',
     example: {
-      points: [],
-      bar: { white: 0, black: 0 },
-      off: { white: 0, black: 0 },
-      currentPlayer: 'black',
-      phase: 'moving',
+      ui: { selectedPoint: 12 },
     }
   })
   @IsObject()
   gameState: any;
 
   @ApiProperty({ 
-    description: 'Current dice values (if any)',
+    description: 'Ignored - dice come from the server',
     example: [3, 5],
     required: false
   })
@@ -0,0 +1,84 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { GameService } from './game.service';
+import { GameAnalysisService } from './core/game-analysis.service';
+import { AITurnService } from './core/ai-turn.service';
+
+@Injectable()
+export class GameCronService {
+  private readonly logger = new Logger(GameCronService.name);
+
+  // Prevent overlapping runs when a run takes longer than the interval
+  private isRunning = false;
+  private isAnalyzing = false;
+  private isResumingAI = false;
+
+  constructor(
+    private gameService: GameService,
+    private gameAnalysisService: GameAnalysisService,
+    private aiTurnService: AITurnService,
+  ) {}
+
+  /**
+   * ⏱️ Timeout watchdog - every 5 seconds
+   * Clocks only advance on requests, so a player who closes the tab while
+   * losing would otherwise keep the game ACTIVE forever
+   */
+  @Cron(CronExpression.EVERY_5_SECONDS)
+  async enforceTimeouts() {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      const endedCount = await this.gameService.enforceTimeouts();
+      if (endedCount > 0) {
+        this.logger.log(`⏱️ Ended ${endedCount} game(s) by timeout`);
+      }
+    } catch (error) {
+      this.logger.error(`Timeout watchdog failed: ${error.message}`);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * 📊 Post-game analysis - every minute, a few completed games per run
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async analyzeCompletedGames() {
+    if (this.isAnalyzing) return;
+    this.isAnalyzing = true;
+
+    try {
+      const analyzedCount = await this.gameAnalysisService.analyzePendingGames();
+      if (analyzedCount > 0) {
+        this.logger.log(`📊 Analyzed ${analyzedCount} game(s)`);
+      }
+    } catch (error) {
+      this.logger.error(`Game analysis failed: ${error.message}`);
+    } finally {
+      this.isAnalyzing = false;
+    }
+  }
+
+  /**
+   * 🤖 Stalled AI turns - every 30 seconds
+   * AI turns are scheduled in memory, so a restart mid-turn would leave the human waiting
+   */
+  @Cron(CronExpression.EVERY_30_SECONDS)
+  async resumeAITurns() {
+    if (this.isResumingAI) return;
+    this.isResumingAI = true;
+
+    try {
+      const resumedCount = await this.aiTurnService.resumeStalledTurns();
+      if (resumedCount > 0) {
+        this.logger.log(`🤖 Resumed ${resumedCount} AI turn(s)`);
+      }
+    } catch (error) {
+      this.logger.error(`AI turn resume failed: ${error.message}`);
+    } finally {
+      this.isResumingAI = false;
+    }
+  }
+}
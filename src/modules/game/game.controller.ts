@@ -1,31 +1,51 @@
-import { Controller, Post, Get, Body, Param, Query, UseGuards, Req, Patch } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  Req,
+  Res,
+  Patch,
+} from '@nestjs/common';
+import { Response } from 'express';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { GameService } from './game.service';
-import { DiceService } from './dice.service';
 import { CreateGameDto } from './dto/create-game.dto';
 import { RecordMoveDto } from './dto/record-move.dto';
 import { EndGameDto } from './dto/end-game.dto';
 import { AIMoveRequestDto } from './dto/ai-move.dto';
 import { SyncStateDto } from './dto/sync-state.dto';
-import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { ImportMatchDto } from './dto/import-match.dto';
+import { AuthenticatedRequest, JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { AIPlayerService } from './ai/ai-player.service';
+import { GameSerializerInterceptor } from './game.serializer';
+import { GameReplayService } from './core/game-replay.service';
+import { MatchFileService } from './core/match-file.service';
+import { GameAnalysisService } from './core/game-analysis.service';
 
 @ApiTags('game')
 @Controller('game')
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
+@UseInterceptors(GameSerializerInterceptor)
 export class GameController {
   constructor(
     private readonly gameService: GameService,
     private readonly aiPlayerService: AIPlayerService,
-    private readonly diceService: DiceService,
+    private readonly gameReplayService: GameReplayService,
+    private readonly matchFileService: MatchFileService,
+    private readonly gameAnalysisService: GameAnalysisService,
   ) {}
 
   @Post('create')
   @ApiOperation({ summary: 'Create a new game' })
   @ApiResponse({ status: 201, description: 'Game created successfully' })
   @ApiResponse({ status: 400, description: 'Bad request' })
-  async createGame(@Req() req: any, @Body() createGameDto: CreateGameDto) {
+  async createGame(@Req() req: AuthenticatedRequest, @Body() createGameDto: CreateGameDto) {
     const userId = req.user.userId;
     return this.gameService.createGame(userId, createGameDto);
   }
@@ -36,7 +56,7 @@ export class GameController {
   @ApiResponse({ status: 404, description: 'Game not found' })
   @ApiResponse({ status: 403, description: 'Not a player in this game' })
   async recordMove(
-    @Req() req: any,
+    @Req() req: AuthenticatedRequest,
     @Param('id') gameId: string,
     @Body() recordMoveDto: RecordMoveDto,
   ) {
@@ -45,12 +65,13 @@ export class GameController {
   }
 
   @Post(':id/end')
-  @ApiOperation({ summary: 'End a game and record final result' })
+  @ApiOperation({ summary: 'Resign or abandon a game (winner is decided by the server)' })
   @ApiResponse({ status: 200, description: 'Game ended successfully' })
+  @ApiResponse({ status: 400, description: 'Game is already ended' })
   @ApiResponse({ status: 404, description: 'Game not found' })
   @ApiResponse({ status: 403, description: 'Not a player in this game' })
   async endGame(
-    @Req() req: any,
+    @Req() req: AuthenticatedRequest,
     @Param('id') gameId: string,
     @Body() endGameDto: EndGameDto,
   ) {
@@ -61,7 +82,7 @@ export class GameController {
   @Get('stats')
   @ApiOperation({ summary: 'Get user game statistics' })
   @ApiResponse({ status: 200, description: 'Statistics retrieved' })
-  async getUserStats(@Req() req: any) {
+  async getUserStats(@Req() req: AuthenticatedRequest) {
     const userId = req.user.userId;
     return this.gameService.getUserStats(userId);
   }
@@ -69,7 +90,7 @@ export class GameController {
   @Get('stats/monthly/current')
   @ApiOperation({ summary: 'Get current month statistics' })
   @ApiResponse({ status: 200, description: 'Monthly statistics retrieved' })
-  async getCurrentMonthStats(@Req() req: any) {
+  async getCurrentMonthStats(@Req() req: AuthenticatedRequest) {
     const userId = req.user.userId;
     const now = new Date();
     return this.gameService.getMonthlyStats(userId, now.getFullYear(), now.getMonth() + 1);
@@ -79,7 +100,7 @@ export class GameController {
   @ApiOperation({ summary: 'Get specific month statistics' })
   @ApiResponse({ status: 200, description: 'Monthly statistics retrieved' })
   async getMonthlyStats(
-    @Req() req: any,
+    @Req() req: AuthenticatedRequest,
     @Param('year') year: string,
     @Param('month') month: string,
   ) {
@@ -101,11 +122,50 @@ export class GameController {
     return this.gameService.getLeaderboard(validPeriod, parsedLimit);
   }
 
+  @Get('live')
+  @ApiOperation({ summary: 'List live ONLINE games open to spectators' })
+  @ApiResponse({ status: 200, description: 'Live games with spectator counts' })
+  async getLiveGames(@Query('limit') limit?: string) {
+    const parsedLimit = limit ? parseInt(limit, 10) : 20;
+    return this.gameService.getLiveGames(parsedLimit || 20);
+  }
+
+  @Post('import')
+  @ApiOperation({ summary: 'Import a MAT / SGF match file as a read-only match for replay' })
+  @ApiResponse({ status: 201, description: 'Match imported' })
+  @ApiResponse({ status: 400, description: 'File could not be parsed' })
+  async importMatch(@Req() req: AuthenticatedRequest, @Body() importMatchDto: ImportMatchDto) {
+    const userId = req.user.userId;
+    return this.matchFileService.importMatch(userId, importMatchDto.format, importMatchDto.content);
+  }
+
+  @Get('imported/:importId')
+  @ApiOperation({ summary: 'Replay of an imported match (position after ?ply=N turns)' })
+  @ApiResponse({ status: 200, description: 'Imported match turns' })
+  async getImportedMatch(
+    @Req() req: AuthenticatedRequest,
+    @Param('importId') importId: string,
+    @Query('ply') ply?: string,
+  ) {
+    const userId = req.user.userId;
+    const parsedPly = ply !== undefined ? parseInt(ply, 10) : undefined;
+    return this.matchFileService.getImportedMatch(importId, userId, parsedPly);
+  }
+
+  @Get('analysis/me')
+  @ApiOperation({ summary: 'My error rate over all analyzed games' })
+  @ApiResponse({ status: 200, description: 'Error rate, errors, blunders and latest games' })
+  async getMyErrorReport(@Req() req: AuthenticatedRequest, @Query('limit') limit?: string) {
+    const userId = req.user.userId;
+    const parsedLimit = limit ? parseInt(limit, 10) : 20;
+    return this.gameAnalysisService.getUserErrorReport(userId, parsedLimit || 20);
+  }
+
   @Get('history/me')
   @ApiOperation({ summary: 'Get user game history' })
   @ApiResponse({ status: 200, description: 'Game history retrieved' })
   async getGameHistory(
-    @Req() req: any,
+    @Req() req: AuthenticatedRequest,
     @Query('limit') limit?: string,
     @Query('offset') offset?: string,
   ) {
@@ -141,19 +201,20 @@ export class GameController {
   }
 
   @Post(':id/ai-move')
-  @ApiOperation({ summary: 'Trigger AI to make its move in a game' })
-  @ApiResponse({ status: 200, description: 'AI move completed' })
+  @ApiOperation({ summary: 'Resume a stalled AI turn (played by the server)' })
+  @ApiResponse({ status: 200, description: 'AI turn scheduled' })
   @ApiResponse({ status: 400, description: 'Not an AI game or not AI turn' })
-  async triggerAIMove(@Req() req: any, @Param('id') gameId: string) {
-    return this.gameService.makeAIMove(gameId);
+  async triggerAIMove(@Req() req: AuthenticatedRequest, @Param('id') gameId: string) {
+    const userId = req.user.userId;
+    return this.gameService.makeAIMove(gameId, userId);
   }
 
   @Patch(':id/sync-state')
-  @ApiOperation({ summary: 'Sync game state (for dice rolls, phase changes, etc.)' })
+  @ApiOperation({ summary: 'Sync client display state (gameState.ui only)' })
   @ApiResponse({ status: 200, description: 'State synced successfully' })
   @ApiResponse({ status: 404, description: 'Game not found' })
   async syncGameState(
-    @Req() req: any,
+    @Req() req: AuthenticatedRequest,
     @Param('id') gameId: string,
     @Body() syncStateDto: SyncStateDto,
   ) {
@@ -162,13 +223,13 @@ export class GameController {
   }
 
   @Patch(':id/state')
-  @ApiOperation({ summary: 'Update game state directly (for opening roll, etc.)' })
+  @ApiOperation({ summary: 'Update client display state (gameState.ui only)' })
   @ApiResponse({ status: 200, description: 'Game state updated successfully' })
   @ApiResponse({ status: 404, description: 'Game not found' })
   async updateGameState(
-    @Req() req: any,
+    @Req() req: AuthenticatedRequest,
     @Param('id') gameId: string,
-    @Body() body: { gameState: any },
+    @Body() body: { gameState: Record<string, unknown> },
   ) {
     const userId = req.user.userId;
     return this.gameService.updateGameState(gameId, userId, body.gameState);
@@ -177,50 +238,57 @@ export class GameController {
   @Post('dice/roll/:gameId')
   @ApiOperation({ summary: 'Roll two dice (uses pre-generated dice from database to prevent cheating)' })
   @ApiResponse({ status: 200, description: 'Dice rolled successfully' })
-  async rollDice(@Param('gameId') gameId: string) {
-    return this.gameService.rollDiceForGame(gameId);
-  }
-
-  @Post('dice/opening')
-  @ApiOperation({ summary: 'Roll opening dice (one per player, no ties)' })
-  @ApiResponse({ status: 200, description: 'Opening dice rolled successfully' })
-  rollOpeningDice() {
-    const result = this.diceService.rollOpeningDice();
-    return {
-      white: result.white,
-      black: result.black,
-      winner: result.white > result.black ? 'white' : 'black',
-      timestamp: new Date().toISOString(),
-    };
+  @ApiResponse({ status: 400, description: 'Not your turn' })
+  async rollDice(@Req() req: AuthenticatedRequest, @Param('gameId') gameId: string) {
+    const userId = req.user.userId;
+    return this.gameService.rollDiceForGame(gameId, userId);
   }
 
   @Post(':id/end-turn')
   @ApiOperation({ summary: 'End turn and switch to next player' })
   @ApiResponse({ status: 200, description: 'Turn ended successfully' })
-  async endTurn(@Req() req: any, @Param('id') gameId: string) {
+  async endTurn(@Req() req: AuthenticatedRequest, @Param('id') gameId: string) {
     const userId = req.user.userId;
     return this.gameService.endTurn(gameId, userId);
   }
 
-  @Post(':id/complete-opening-roll')
-  @ApiOperation({ summary: 'Complete opening roll and generate dice for winner' })
-  @ApiResponse({ status: 200, description: 'Opening roll completed' })
-  async completeOpeningRoll(@Req() req: any, @Param('id') gameId: string, @Body() body: { winner: 'white' | 'black' }) {
-    return this.gameService.completeOpeningRoll(gameId, body.winner);
+  @Post(':id/double/offer')
+  @ApiOperation({ summary: 'Offer a double (only on your turn, before rolling)' })
+  @ApiResponse({ status: 200, description: 'Double offered' })
+  @ApiResponse({ status: 400, description: 'Double not allowed right now' })
+  async offerDouble(@Req() req: AuthenticatedRequest, @Param('id') gameId: string) {
+    const userId = req.user.userId;
+    return this.gameService.offerDouble(gameId, userId);
+  }
+
+  @Post(':id/double/accept')
+  @ApiOperation({ summary: 'Accept (take) the pending double' })
+  @ApiResponse({ status: 200, description: 'Double accepted - cube value doubled' })
+  async acceptDouble(@Req() req: AuthenticatedRequest, @Param('id') gameId: string) {
+    const userId = req.user.userId;
+    return this.gameService.acceptDouble(gameId, userId);
+  }
+
+  @Post(':id/double/drop')
+  @ApiOperation({ summary: 'Drop (refuse) the pending double and lose the set' })
+  @ApiResponse({ status: 200, description: 'Double dropped - set ended' })
+  async dropDouble(@Req() req: AuthenticatedRequest, @Param('id') gameId: string) {
+    const userId = req.user.userId;
+    return this.gameService.dropDouble(gameId, userId);
   }
 
-  @Post(':id/start-new-set')
-  @ApiOperation({ summary: 'Start a new set and reset timers' })
-  @ApiResponse({ status: 200, description: 'New set started' })
-  async startNewSet(@Req() req: any, @Param('id') gameId: string, @Body() body: { winner: 'white' | 'black' }) {
+  @Post(':id/opening-roll')
+  @ApiOperation({ summary: 'Play the opening roll on the server (ties re-rolled, winner starts)' })
+  @ApiResponse({ status: 200, description: 'Opening roll result (same result on repeated calls)' })
+  async playOpeningRoll(@Req() req: AuthenticatedRequest, @Param('id') gameId: string) {
     const userId = req.user.userId;
-    return this.gameService.startNewSet(gameId, userId, body.winner);
+    return this.gameService.playOpeningRoll(gameId, userId);
   }
 
   @Get(':id/can-play')
   @ApiOperation({ summary: 'Check if user can play (turn completed check)' })
   @ApiResponse({ status: 200, description: 'Returns if user can play' })
-  async canPlay(@Req() req: any, @Param('id') gameId: string) {
+  async canPlay(@Req() req: AuthenticatedRequest, @Param('id') gameId: string) {
     const userId = req.user.userId;
     return this.gameService.canUserPlay(gameId, userId);
   }
@@ -228,17 +296,62 @@ export class GameController {
   @Get(':id/check-time')
   @ApiOperation({ summary: 'Check if any player has run out of time' })
   @ApiResponse({ status: 200, description: 'Returns time status for both players' })
-  async checkTime(@Req() req: any, @Param('id') gameId: string) {
+  async checkTime(@Req() req: AuthenticatedRequest, @Param('id') gameId: string) {
     const userId = req.user.userId;
     return this.gameService.checkTimeStatus(gameId, userId);
   }
 
+  @Get(':id/fairness')
+  @ApiOperation({ summary: 'Provably fair dice proof (server seed revealed after the game)' })
+  @ApiResponse({ status: 200, description: 'Seed commitment, or revealed seed and rolls' })
+  async getDiceFairness(@Param('id') gameId: string) {
+    return this.gameService.getDiceFairness(gameId);
+  }
+
+  @Get(':id/replay')
+  @ApiOperation({ summary: 'Move-by-move replay (turns, and the position after ?ply=N turns)' })
+  @ApiResponse({ status: 200, description: 'Ordered turns with dice, moves, hits and clock' })
+  @ApiResponse({ status: 403, description: 'Spectators can replay only finished games' })
+  async getReplay(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') gameId: string,
+    @Query('ply') ply?: string,
+  ) {
+    const userId = req.user.userId;
+    const parsedPly = ply !== undefined ? parseInt(ply, 10) : undefined;
+    return this.gameReplayService.getReplay(gameId, userId, parsedPly);
+  }
+
+  @Get(':id/analysis')
+  @ApiOperation({ summary: 'Post-game analysis: equity loss per turn and error rates' })
+  @ApiResponse({ status: 200, description: 'Analysis, or status PENDING until the job has run' })
+  async getGameAnalysis(@Req() req: AuthenticatedRequest, @Param('id') gameId: string) {
+    const userId = req.user.userId;
+    return this.gameAnalysisService.getGameAnalysis(gameId, userId);
+  }
+
+  @Get(':id/export')
+  @ApiOperation({ summary: 'Export the game as a MAT or SGF match file (?format=mat|sgf)' })
+  @ApiResponse({ status: 200, description: 'Match file as text/plain download' })
+  async exportGame(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') gameId: string,
+    @Res({ passthrough: true }) res: Response,
+    @Query('format') format = 'mat',
+  ) {
+    const userId = req.user.userId;
+    const { filename, content } = await this.matchFileService.exportGame(gameId, userId, format);
+
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    return content;
+  }
+
   @Get(':id')
-  @ApiOperation({ summary: 'Get game details with all moves' })
+  @ApiOperation({ summary: 'Get game details with all moves (spectator view for non-players)' })
   @ApiResponse({ status: 200, description: 'Game found' })
   @ApiResponse({ status: 404, description: 'Game not found' })
-  @ApiResponse({ status: 403, description: 'Not a player in this game' })
-  async getGame(@Req() req: any, @Param('id') gameId: string) {
+  async getGame(@Req() req: AuthenticatedRequest, @Param('id') gameId: string) {
     const userId = req.user.userId;
     return this.gameService.getGame(gameId, userId);
   }
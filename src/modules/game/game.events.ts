@@ -0,0 +1,82 @@
+/**
+ * 📡 /game WebSocket protocol (v1)
+ *
+ * Client → server events carry the payload DTOs from dto/game-socket.dto.ts.
+ * Every server → client event is { v, gameId, ...payload, timestamp }.
+ * Rooms: game:{gameId} (v1 clients), game_{gameId} (legacy clients), user_{userId} (personal)
+ * Spectators join {room}:spectators - read-only, events delayed in bet games
+ */
+export const GAME_PROTOCOL_VERSION = 1;
+
+/**
+ * Client → server
+ */
+export const GameClientEvent = {
+  JOIN_GAME: 'joinGame',
+  LEAVE_GAME: 'leaveGame',
+  MOVE: 'move',
+  ROLL_DICE: 'rollDice',
+  END_TURN: 'endTurn',
+  SEND_MESSAGE: 'sendMessage',
+  OFFER_DOUBLE: 'offerDouble',
+  ACCEPT_DOUBLE: 'acceptDouble',
+  DROP_DOUBLE: 'dropDouble',
+  PLAY_OPENING_ROLL: 'playOpeningRoll',
+} as const;
+
+/**
+ * Server → client
+ */
+export const GameServerEvent = {
+  JOINED_GAME: 'joinedGame',
+  GAME_STATE_UPDATE: 'gameStateUpdate',
+  OPPONENT_MOVE: 'opponentMove',
+  DICE_ROLLED: 'diceRolled',
+  TURN_CHANGED: 'turnChanged',
+  TIMER_UPDATE: 'timerUpdate',
+  CUBE_UPDATE: 'cubeUpdate',
+  OPENING_ROLL: 'openingRoll',
+  SET_END: 'setEnd',
+  GAME_END: 'gameEnd',
+  CHAT_MESSAGE: 'chatMessage',
+  PLAYER_JOINED: 'playerJoined',
+  PLAYER_LEFT: 'playerLeft',
+  PLAYER_DISCONNECTED: 'playerDisconnect',
+  PLAYER_RECONNECTED: 'playerReconnected',
+  DISCONNECT_COUNTDOWN: 'disconnectCountdown',
+  PLAYER_ABANDONED: 'playerAbandoned',
+  SPECTATOR_COUNT: 'spectatorCount',
+  UNAUTHORIZED: 'unauthorized',
+} as const;
+
+export type GameServerEventName = (typeof GameServerEvent)[keyof typeof GameServerEvent];
+
+/**
+ * 🔁 Legacy (snake_case) client events → v1 events
+ * Kept during the frontend migration - remove once no client sends them
+ */
+export const LEGACY_CLIENT_EVENTS = {
+  join_game: GameClientEvent.JOIN_GAME,
+  leave_game: GameClientEvent.LEAVE_GAME,
+  make_move: GameClientEvent.MOVE,
+  roll_dice: GameClientEvent.ROLL_DICE,
+  end_turn: GameClientEvent.END_TURN,
+  send_message: GameClientEvent.SEND_MESSAGE,
+} as const;
+
+/**
+ * 🔁 v1 server events → legacy names (sent to game_{gameId} rooms only)
+ */
+export const LEGACY_SERVER_EVENTS: Partial<Record<GameServerEventName, string>> = {
+  [GameServerEvent.GAME_STATE_UPDATE]: 'game_update',
+  [GameServerEvent.DICE_ROLLED]: 'dice_rolled',
+  [GameServerEvent.TURN_CHANGED]: 'turn_changed',
+  [GameServerEvent.GAME_END]: 'game_over',
+  [GameServerEvent.CHAT_MESSAGE]: 'new_message',
+  [GameServerEvent.PLAYER_JOINED]: 'user_joined',
+  [GameServerEvent.PLAYER_LEFT]: 'user_left',
+  [GameServerEvent.PLAYER_DISCONNECTED]: 'player_disconnected',
+  [GameServerEvent.PLAYER_RECONNECTED]: 'player_reconnected',
+  [GameServerEvent.DISCONNECT_COUNTDOWN]: 'disconnect_countdown',
+  [GameServerEvent.PLAYER_ABANDONED]: 'player_abandoned',
+};
@@ -6,19 +6,45 @@ import {
   OnGatewayDisconnect,
   ConnectedSocket,
   MessageBody,
+  WsException,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
-import { Logger } from '@nestjs/common';
+import { Logger, UseGuards, UsePipes, ValidationPipe, Inject, forwardRef } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { PrismaService } from '../../database/prisma.service';
+import { SettingsService } from '../settings/settings.service';
+import { DoublingCube, GameService, OpeningRollResult, SetEnd } from './game.service';
+import { WsJwtAuthGuard, authenticateSocket } from '../../common/guards/ws-jwt-auth.guard';
+import {
+  GAME_PROTOCOL_VERSION,
+  GameClientEvent,
+  GameServerEvent,
+  GameServerEventName,
+  LEGACY_SERVER_EVENTS,
+} from './game.events';
+import { GameRoomPayload, MovePayload, ChatMessagePayload } from './dto/game-socket.dto';
+import { GameViewer, serializeGamePayload, serializeGameState } from './game.serializer';
+
+type Seat = 'white' | 'black' | 'spectator';
+type RoomProtocol = 'v1' | 'legacy';
 
 /**
- * 🎮 Game Gateway - Real-time WebSocket communication for games
- * 
+ * 🎮 Game Gateway - The one /game WebSocket endpoint (protocol v1, see game.events.ts)
+ *
  * Features:
- * - Real-time game updates (moves, timer, etc.)
+ * - Real-time game updates (moves, dice, turns, timer, cube, chat, game end)
+ * - All game actions go through GameService (server-authoritative board)
  * - Room-based architecture (one room per game)
- * - Auto-cleanup on disconnect
- * - Mobile-optimized (battery & bandwidth)
- * 
+ * - Disconnect grace period → ABANDONMENT
+ * - Read-only spectator rooms with live spectator counts (delayed broadcast in bet games)
+ * - Legacy snake_case events (join_game, make_move, ...) mapped to v1 during migration
+ *
+ * 🔐 Security:
+ * - JWT checked at handshake (same token as REST), user attached to the socket
+ * - userId is never taken from message bodies
+ * - Seat (white / black / spectator) comes from the Game record on join;
+ *   game actions are rejected unless the socket owns a player seat
+ *
  * Performance:
  * - Replaces polling (60 req/min → ~10 events/min)
  * - < 50ms latency vs 1-2sec polling
@@ -26,11 +52,21 @@ import { Logger } from '@nestjs/common';
  */
 @WebSocketGateway({
   cors: {
-    origin: process.env.CORS_ORIGIN?.split(',').map(o => o.trim()) || '*',
+    origin: process.env.CORS_ORIGIN?.split(',').map((o) => o.trim()) || '*',
     credentials: true,
   },
   namespace: '/game', // Namespace for game-related events
 })
+@UseGuards(WsJwtAuthGuard)
+@UsePipes(
+  new ValidationPipe({
+    whitelist: true,
+    exceptionFactory: (errors) =>
+      new WsException(
+        errors.map((error) => Object.values(error.constraints || {}).join(', ')).join('; '),
+      ),
+  }),
+)
 export class GameGateway implements OnGatewayConnection, OnGatewayDisconnect {
   @WebSocketServer()
   server: Server;
@@ -39,87 +75,252 @@ export class GameGateway implements OnGatewayConnection, OnGatewayDisconnect {
 
   // Track connected clients per game
   private gameRooms = new Map<string, Set<string>>(); // gameId -> Set of socketIds
+  // Track user per socket
+  private userSockets = new Map<string, string>(); // socketId -> userId
+  // Seat per socket in each game
+  private seats = new Map<string, Seat>(); // `${gameId}:${socketId}` -> seat
+  // Reconnection grace timers
+  private graceTimers = new Map<string, NodeJS.Timeout>(); // `${gameId}:${userId}` -> timer
+  // Spectator broadcast delay (bet games)
+  private spectatorDelays = new Map<string, number>(); // gameId -> ms
+
+  constructor(
+    private prisma: PrismaService,
+    private jwtService: JwtService,
+    private settingsService: SettingsService,
+    @Inject(forwardRef(() => GameService)) private gameService: GameService,
+  ) {}
 
   /**
    * Handle new client connection
+   * 🔐 Sockets without a valid JWT are disconnected
    */
-  handleConnection(client: Socket) {
-    // Disabled - too verbose
-    // this.logger.log(`🔌 Client connected: ${client.id}`);
+  async handleConnection(client: Socket) {
+    const user = await authenticateSocket(this.jwtService, client);
+
+    if (!user) {
+      this.logger.warn(`🔒 Rejected unauthenticated socket: ${client.id}`);
+      client.emit(GameServerEvent.UNAUTHORIZED, { error: 'Invalid or missing token' });
+      client.disconnect(true);
+      return;
+    }
+
+    this.userSockets.set(client.id, user.userId);
+
+    // Personal notifications (invitations, etc.)
+    await client.join(`user_${user.userId}`);
   }
 
   /**
    * Handle client disconnect
    */
   handleDisconnect(client: Socket) {
-    // Disabled - too verbose
-    // this.logger.log(`🔌 Client disconnected: ${client.id}`);
-    
+    const userId = this.userSockets.get(client.id);
+    this.userSockets.delete(client.id);
+
     // Clean up: remove from all game rooms
     this.gameRooms.forEach((clients, gameId) => {
-      if (clients.has(client.id)) {
-        clients.delete(client.id);
-        // this.logger.log(`👤 Removed client ${client.id} from game ${gameId}`);
-        
-        // Clean up empty rooms
-        if (clients.size === 0) {
-          this.gameRooms.delete(gameId);
-          // this.logger.log(`🗑️ Removed empty game room: ${gameId}`);
-        }
+      if (!clients.has(client.id)) return;
+
+      clients.delete(client.id);
+      const seat = this.seats.get(`${gameId}:${client.id}`);
+      this.seats.delete(`${gameId}:${client.id}`);
+
+      if (seat === 'spectator') {
+        this.broadcastSpectatorCount(gameId);
+      } else {
+        this.broadcast(gameId, GameServerEvent.PLAYER_DISCONNECTED, {
+          socketId: client.id,
+          userId,
+          seat,
+        });
+      }
+
+      // Last socket of this player left the game → reconnection grace period
+      if (userId && seat !== 'spectator' && !this.isUserInRoom(gameId, userId)) {
+        this.startGracePeriod(gameId, userId);
+      }
+
+      // Clean up empty rooms
+      if (clients.size === 0) {
+        this.gameRooms.delete(gameId);
+        this.spectatorDelays.delete(gameId);
       }
     });
   }
 
+  // ========================================================================
+  // Client Events (protocol v1)
+  // ========================================================================
+
   /**
    * Join a game room
    * Client should call this when starting/loading a game
    */
-  @SubscribeMessage('joinGame')
-  handleJoinGame(
-    @ConnectedSocket() client: Socket,
-    @MessageBody() data: { gameId: string; userId: string },
-  ) {
-    const { gameId, userId } = data;
+  @SubscribeMessage(GameClientEvent.JOIN_GAME)
+  handleJoinGame(@ConnectedSocket() client: Socket, @MessageBody() data: GameRoomPayload) {
+    return this.joinRoom(client, data.gameId, 'v1');
+  }
 
-    // Join the Socket.IO room
-    client.join(`game:${gameId}`);
+  /**
+   * Leave a game room
+   */
+  @SubscribeMessage(GameClientEvent.LEAVE_GAME)
+  handleLeaveGame(@ConnectedSocket() client: Socket, @MessageBody() data: GameRoomPayload) {
+    return this.leaveRoom(client, data.gameId);
+  }
 
-    // Track in our map
-    if (!this.gameRooms.has(gameId)) {
-      this.gameRooms.set(gameId, new Set());
-    }
-    this.gameRooms.get(gameId)!.add(client.id);
+  /**
+   * Move one checker (validated by GameService / rules engine)
+   */
+  @SubscribeMessage(GameClientEvent.MOVE)
+  handleMove(@ConnectedSocket() client: Socket, @MessageBody() data: MovePayload) {
+    return this.playMove(client, data);
+  }
 
-    // Silent join - logs only on error
-    // this.logger.log(`👤 User ${userId} (socket: ${client.id}) joined game ${gameId}`);
-    // this.logger.log(`📊 Game ${gameId} now has ${this.gameRooms.get(gameId)!.size} connected client(s)`);
+  /**
+   * Roll dice (server dice, only on your own turn)
+   */
+  @SubscribeMessage(GameClientEvent.ROLL_DICE)
+  async handleRollDice(@ConnectedSocket() client: Socket, @MessageBody() data: GameRoomPayload) {
+    const { gameId } = data;
 
-    // Acknowledge join
-    client.emit('joinedGame', { gameId, success: true });
+    return this.runPlayerAction(client, gameId, 'roll dice', async (seat) => {
+      const result = await this.gameService.rollDiceForGame(gameId, client.data.user.userId);
+      this.emitDiceRolled(gameId, seat, result.dice);
+      return result;
+    });
   }
 
   /**
-   * Leave a game room
+   * End turn (Done)
+   */
+  @SubscribeMessage(GameClientEvent.END_TURN)
+  handleEndTurn(@ConnectedSocket() client: Socket, @MessageBody() data: GameRoomPayload) {
+    const { gameId } = data;
+
+    return this.runPlayerAction(client, gameId, 'end turn', async () => {
+      const result = await this.gameService.endTurn(gameId, client.data.user.userId);
+      if (result.nextPlayer) {
+        this.emitTurnChanged(gameId, result.nextPlayer);
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Opening roll (played by the server - result broadcast as openingRoll)
+   */
+  @SubscribeMessage(GameClientEvent.PLAY_OPENING_ROLL)
+  handlePlayOpeningRoll(@ConnectedSocket() client: Socket, @MessageBody() data: GameRoomPayload) {
+    return this.runPlayerAction(client, data.gameId, 'opening roll', () =>
+      this.gameService.playOpeningRoll(data.gameId, client.data.user.userId),
+    );
+  }
+
+  /**
+   * Chat message (players only - spectator rooms are read-only)
    */
-  @SubscribeMessage('leaveGame')
-  handleLeaveGame(
+  @SubscribeMessage(GameClientEvent.SEND_MESSAGE)
+  handleSendMessage(@ConnectedSocket() client: Socket, @MessageBody() data: ChatMessagePayload) {
+    return this.sendChat(client, data.gameId, data.message);
+  }
+
+  /**
+   * Doubling cube (same rules as REST /game/:id/double/*)
+   */
+  @SubscribeMessage(GameClientEvent.OFFER_DOUBLE)
+  handleOfferDouble(@ConnectedSocket() client: Socket, @MessageBody() data: GameRoomPayload) {
+    return this.runPlayerAction(client, data.gameId, 'offer double', () =>
+      this.gameService.offerDouble(data.gameId, client.data.user.userId),
+    );
+  }
+
+  @SubscribeMessage(GameClientEvent.ACCEPT_DOUBLE)
+  handleAcceptDouble(@ConnectedSocket() client: Socket, @MessageBody() data: GameRoomPayload) {
+    return this.runPlayerAction(client, data.gameId, 'accept double', () =>
+      this.gameService.acceptDouble(data.gameId, client.data.user.userId),
+    );
+  }
+
+  @SubscribeMessage(GameClientEvent.DROP_DOUBLE)
+  handleDropDouble(@ConnectedSocket() client: Socket, @MessageBody() data: GameRoomPayload) {
+    return this.runPlayerAction(client, data.gameId, 'drop double', () =>
+      this.gameService.dropDouble(data.gameId, client.data.user.userId),
+    );
+  }
+
+  // ========================================================================
+  // 🔁 Legacy Client Events (compatibility layer - see LEGACY_CLIENT_EVENTS)
+  // Payloads are loose on purpose: old clients send extra fields (newGameState, userId)
+  // that are ignored - the server board is the only board
+  // ========================================================================
+
+  @SubscribeMessage('join_game')
+  handleLegacyJoinGame(@ConnectedSocket() client: Socket, @MessageBody() data: { gameId: string }) {
+    return this.joinRoom(client, data?.gameId, 'legacy');
+  }
+
+  @SubscribeMessage('leave_game')
+  handleLegacyLeaveGame(
     @ConnectedSocket() client: Socket,
     @MessageBody() data: { gameId: string },
   ) {
-    const { gameId } = data;
+    return this.leaveRoom(client, data?.gameId);
+  }
 
-    client.leave(`game:${gameId}`);
+  @SubscribeMessage('make_move')
+  handleLegacyMove(
+    @ConnectedSocket() client: Socket,
+    @MessageBody()
+    data: {
+      gameId: string;
+      move: { from: number | 'bar'; to: number | 'home'; diceValue: number };
+    },
+  ) {
+    const { gameId, move } = data || ({} as Partial<typeof data>);
 
-    // Remove from tracking
-    const room = this.gameRooms.get(gameId);
-    if (room) {
-      room.delete(client.id);
-      if (room.size === 0) {
-        this.gameRooms.delete(gameId);
-      }
-    }
+    return this.playMove(client, {
+      gameId,
+      from: move?.from === 'bar' ? -1 : Number(move?.from),
+      to: move?.to === 'home' ? 24 : Number(move?.to),
+      diceUsed: Number(move?.diceValue),
+    });
+  }
 
-    this.logger.log(`👋 Client ${client.id} left game ${gameId}`);
+  @SubscribeMessage('roll_dice')
+  handleLegacyRollDice(@ConnectedSocket() client: Socket, @MessageBody() data: { gameId: string }) {
+    return this.handleRollDice(client, { gameId: data?.gameId });
+  }
+
+  @SubscribeMessage('end_turn')
+  handleLegacyEndTurn(@ConnectedSocket() client: Socket, @MessageBody() data: { gameId: string }) {
+    return this.handleEndTurn(client, { gameId: data?.gameId });
+  }
+
+  @SubscribeMessage('send_message')
+  handleLegacySendMessage(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { gameId: string; message: string },
+  ) {
+    return this.sendChat(client, data?.gameId, data?.message);
+  }
+
+  /**
+   * ⛔ Results are decided by the server (REST: POST /game/:id/end for resign / abandon)
+   */
+  @SubscribeMessage('game_over')
+  handleLegacyGameOver(@MessageBody() data: { gameId: string }) {
+    this.logger.warn(`Rejected client-reported game_over for game ${data?.gameId}`);
+    return { success: false, error: 'Game results are decided by the server' };
+  }
+
+  /**
+   * Sockets join room user_{userId} at handshake - kept for older clients
+   */
+  @SubscribeMessage('register_user')
+  handleLegacyRegisterUser() {
+    return { success: true };
   }
 
   // ========================================================================
@@ -130,11 +331,7 @@ export class GameGateway implements OnGatewayConnection, OnGatewayDisconnect {
    * Broadcast game state update to all players in a game
    */
   emitGameStateUpdate(gameId: string, gameState: any) {
-    this.server.to(`game:${gameId}`).emit('gameStateUpdate', {
-      gameId,
-      gameState,
-      timestamp: Date.now(),
-    });
+    this.broadcast(gameId, GameServerEvent.GAME_STATE_UPDATE, { gameState });
     this.logger.debug(`📡 Broadcasted game state update for game ${gameId}`);
   }
 
@@ -142,23 +339,31 @@ export class GameGateway implements OnGatewayConnection, OnGatewayDisconnect {
    * Broadcast move to all players in a game
    */
   emitMove(gameId: string, moveData: any) {
-    this.server.to(`game:${gameId}`).emit('opponentMove', {
-      gameId,
-      move: moveData,
-      timestamp: Date.now(),
-    });
+    this.broadcast(gameId, GameServerEvent.OPPONENT_MOVE, { move: moveData });
     this.logger.debug(`🎲 Broadcasted move for game ${gameId}`);
   }
 
+  /**
+   * Broadcast a roll (players and the server-played AI seat)
+   */
+  emitDiceRolled(gameId: string, player: 'white' | 'black', diceValues: number[]) {
+    this.broadcast(gameId, GameServerEvent.DICE_ROLLED, { player, diceValues });
+    this.logger.debug(`🎲 Broadcasted dice roll for game ${gameId}`);
+  }
+
+  /**
+   * Broadcast turn change (after Done)
+   */
+  emitTurnChanged(gameId: string, currentPlayer: 'white' | 'black') {
+    this.broadcast(gameId, GameServerEvent.TURN_CHANGED, { currentPlayer });
+    this.logger.debug(`🔄 Broadcasted turn change for game ${gameId}`);
+  }
+
   /**
    * Broadcast timer update
    */
   emitTimerUpdate(gameId: string, timers: { white: number; black: number }) {
-    this.server.to(`game:${gameId}`).emit('timerUpdate', {
-      gameId,
-      timers,
-      timestamp: Date.now(),
-    });
+    this.broadcast(gameId, GameServerEvent.TIMER_UPDATE, { timers });
     // Don't log timer updates (too frequent)
   }
 
@@ -166,24 +371,55 @@ export class GameGateway implements OnGatewayConnection, OnGatewayDisconnect {
    * Broadcast game end
    */
   emitGameEnd(gameId: string, result: any) {
-    this.server.to(`game:${gameId}`).emit('gameEnd', {
-      gameId,
-      result,
-      timestamp: Date.now(),
-    });
+    this.broadcast(gameId, GameServerEvent.GAME_END, { result });
     this.logger.log(`🏁 Broadcasted game end for game ${gameId}`);
   }
 
   /**
-   * Broadcast player disconnect
+   * Broadcast set end (match continues with the next set)
    */
-  emitPlayerDisconnect(gameId: string, playerId: string) {
-    this.server.to(`game:${gameId}`).emit('playerDisconnect', {
-      gameId,
-      playerId,
-      timestamp: Date.now(),
+  emitSetEnd(gameId: string, result: SetEnd) {
+    this.broadcast(gameId, GameServerEvent.SET_END, { result });
+    this.logger.log(`🏆 Broadcasted set end for game ${gameId}`);
+  }
+
+  /**
+   * Broadcast doubling cube change (offered / accepted / dropped)
+   */
+  emitCubeUpdate(gameId: string, action: 'offered' | 'accepted' | 'dropped', cube: DoublingCube) {
+    this.broadcast(gameId, GameServerEvent.CUBE_UPDATE, { action, cube });
+    this.logger.log(`🎲 Broadcasted cube ${action} for game ${gameId}`);
+  }
+
+  /**
+   * Broadcast opening roll result (dice, tie history, who starts)
+   */
+  emitOpeningRoll(gameId: string, result: OpeningRollResult) {
+    this.broadcast(gameId, GameServerEvent.OPENING_ROLL, { result });
+    this.logger.log(`🎲 Broadcasted opening roll for game ${gameId}`);
+  }
+
+  /**
+   * Send an event to one user (all of their authenticated sockets)
+   */
+  emitToUser(userId: string, event: string, data: Record<string, unknown>) {
+    this.server
+      .to(`user_${userId}`)
+      .emit(
+        event,
+        serializeGamePayload({ v: GAME_PROTOCOL_VERSION, ...data, timestamp: Date.now() }),
+      );
+  }
+
+  /**
+   * Live spectator count of a game
+   */
+  getSpectatorCount(gameId: string): number {
+    let count = 0;
+    this.gameRooms.get(gameId)?.forEach((socketId) => {
+      if (this.seats.get(`${gameId}:${socketId}`) === 'spectator') count++;
     });
-    this.logger.warn(`⚠️ Broadcasted player disconnect for game ${gameId}`);
+    return count;
   }
 
   /**
@@ -199,4 +435,297 @@ export class GameGateway implements OnGatewayConnection, OnGatewayDisconnect {
   isRoomActive(gameId: string): boolean {
     return this.getRoomSize(gameId) > 0;
   }
+
+  // ========================================================================
+  // Internals
+  // ========================================================================
+
+  /**
+   * Send a v1 event to game:{gameId} and its legacy name (if any) to game_{gameId}
+   * 👀 Spectator rooms get the same event, delayed in bet games (game.spectator_delay_seconds)
+   * 🙈 Payloads go through the game serializer (no future dice, per viewer role)
+   */
+  private broadcast(gameId: string, event: GameServerEventName, payload: Record<string, unknown>) {
+    const message = { v: GAME_PROTOCOL_VERSION, gameId, ...payload, timestamp: Date.now() };
+    const legacyEvent = LEGACY_SERVER_EVENTS[event];
+
+    const emit = (suffix: string, viewer: GameViewer) => {
+      const serialized = serializeGamePayload(message, viewer);
+      this.server.to(`game:${gameId}${suffix}`).emit(event, serialized);
+      if (legacyEvent) {
+        this.server.to(`game_${gameId}${suffix}`).emit(legacyEvent, serialized);
+      }
+    };
+
+    emit('', 'player');
+
+    const delayMs = this.spectatorDelays.get(gameId) || 0;
+    if (delayMs > 0) {
+      setTimeout(() => emit(':spectators', 'spectator'), delayMs);
+    } else {
+      emit(':spectators', 'spectator');
+    }
+  }
+
+  /**
+   * Spectator count changed → everyone in the game (not delayed)
+   */
+  private broadcastSpectatorCount(gameId: string) {
+    const message = {
+      v: GAME_PROTOCOL_VERSION,
+      gameId,
+      count: this.getSpectatorCount(gameId),
+      timestamp: Date.now(),
+    };
+
+    for (const room of [`game:${gameId}`, `game:${gameId}:spectators`]) {
+      this.server.to(room).emit(GameServerEvent.SPECTATOR_COUNT, message);
+    }
+  }
+
+  /**
+   * Join a game room - seat decided from the Game record
+   * Spectators join a read-only room (game:{gameId}:spectators), delayed in bet games
+   */
+  private async joinRoom(client: Socket, gameId: string, protocol: RoomProtocol) {
+    const userId: string = client.data.user.userId;
+
+    let game: Awaited<ReturnType<GameService['getGame']>>;
+    try {
+      // Player view, or the read-only spectator view (no future dice / delayed board)
+      game = serializeGamePayload(await this.gameService.getGame(gameId || '', userId));
+    } catch (error) {
+      return { success: false, error: 'Game not found' };
+    }
+
+    const seat: Seat =
+      game.whitePlayerId === userId
+        ? 'white'
+        : game.blackPlayerId === userId
+          ? 'black'
+          : 'spectator';
+
+    const spectatorDelaySeconds = await this.gameService.getSpectatorDelaySeconds(game);
+    this.spectatorDelays.set(gameId, spectatorDelaySeconds * 1000);
+
+    // Join the Socket.IO room (v1 and legacy clients get their own event names)
+    const room = protocol === 'v1' ? `game:${gameId}` : `game_${gameId}`;
+    await client.join(seat === 'spectator' ? `${room}:spectators` : room);
+
+    // Track in our maps
+    if (!this.gameRooms.has(gameId)) {
+      this.gameRooms.set(gameId, new Set());
+    }
+    this.gameRooms.get(gameId)!.add(client.id);
+    this.seats.set(`${gameId}:${client.id}`, seat);
+
+    if (seat === 'spectator') {
+      this.broadcastSpectatorCount(gameId);
+      if (spectatorDelaySeconds > 0) {
+        this.sendDelayedSnapshot(client, gameId, spectatorDelaySeconds * 1000);
+      }
+    } else {
+      // Back within the grace period → cancel abandonment
+      const graceKey = `${gameId}:${userId}`;
+      if (this.graceTimers.has(graceKey)) {
+        clearTimeout(this.graceTimers.get(graceKey));
+        this.graceTimers.delete(graceKey);
+
+        this.broadcast(gameId, GameServerEvent.PLAYER_RECONNECTED, { userId });
+        this.logger.log(`🔌 Player ${userId} reconnected to game ${gameId}`);
+      }
+
+      this.broadcast(gameId, GameServerEvent.PLAYER_JOINED, { userId, seat, isSpectator: false });
+    }
+
+    // Acknowledge join
+    if (protocol === 'v1') {
+      client.emit(GameServerEvent.JOINED_GAME, {
+        v: GAME_PROTOCOL_VERSION,
+        gameId,
+        success: true,
+        seat,
+        spectatorCount: this.getSpectatorCount(gameId),
+        spectatorDelaySeconds: seat === 'spectator' ? spectatorDelaySeconds : 0,
+      });
+    } else {
+      client.emit('game_state', { game, timestamp: new Date().toISOString() });
+    }
+
+    return { success: true, seat, game };
+  }
+
+  /**
+   * ⏳ Board as of join time, sent to a spectator once the delay has passed
+   * (REST spectator view of a delayed game has no board)
+   */
+  private async sendDelayedSnapshot(client: Socket, gameId: string, delayMs: number) {
+    const game = await this.prisma.game.findUnique({
+      where: { id: gameId },
+      select: { gameState: true },
+    });
+    if (!game) return;
+
+    const gameState = serializeGameState(game.gameState, 'spectator');
+    setTimeout(() => {
+      if (!client.connected) return;
+      client.emit(GameServerEvent.GAME_STATE_UPDATE, {
+        v: GAME_PROTOCOL_VERSION,
+        gameId,
+        gameState,
+        timestamp: Date.now(),
+      });
+    }, delayMs);
+  }
+
+  private async leaveRoom(client: Socket, gameId: string) {
+    for (const roomName of [`game:${gameId}`, `game_${gameId}`]) {
+      await client.leave(roomName);
+      await client.leave(`${roomName}:spectators`);
+    }
+
+    // Remove from tracking
+    const seat = this.seats.get(`${gameId}:${client.id}`);
+    this.seats.delete(`${gameId}:${client.id}`);
+    const room = this.gameRooms.get(gameId);
+    if (room) {
+      room.delete(client.id);
+      if (room.size === 0) {
+        this.gameRooms.delete(gameId);
+        this.spectatorDelays.delete(gameId);
+      }
+    }
+
+    if (seat === 'spectator') {
+      this.broadcastSpectatorCount(gameId);
+    } else if (seat) {
+      this.broadcast(gameId, GameServerEvent.PLAYER_LEFT, { userId: client.data.user.userId });
+    }
+    this.logger.log(`👋 Client ${client.id} left game ${gameId}`);
+
+    return { success: true };
+  }
+
+  private playMove(client: Socket, data: MovePayload) {
+    return this.runPlayerAction(client, data.gameId, 'move', (seat) =>
+      this.gameService.recordMove(data.gameId, client.data.user.userId, {
+        playerColor: seat === 'white' ? 'WHITE' : 'BLACK',
+        moveNumber: 0, // Assigned by server
+        from: data.from,
+        to: data.to,
+        diceUsed: data.diceUsed,
+      }),
+    );
+  }
+
+  private sendChat(client: Socket, gameId: string, message: string) {
+    // Only players who joined the game can chat in it (spectator rooms are read-only)
+    const seat = this.seats.get(`${gameId}:${client.id}`);
+    if (!seat) {
+      return { success: false, error: 'You are not in this game' };
+    }
+    if (seat === 'spectator') {
+      return { success: false, error: 'Spectators cannot chat' };
+    }
+    if (typeof message !== 'string' || !message.trim()) {
+      return { success: false, error: 'Message is empty' };
+    }
+
+    this.broadcast(gameId, GameServerEvent.CHAT_MESSAGE, {
+      userId: client.data.user.userId,
+      message: message.slice(0, 500),
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Run a game action for the socket's player seat - { success, ... } or { success: false, error }
+   */
+  private async runPlayerAction(
+    client: Socket,
+    gameId: string,
+    actionName: string,
+    action: (seat: 'white' | 'black') => Promise<object>,
+  ) {
+    const seat = this.seats.get(`${gameId}:${client.id}`);
+    if (seat !== 'white' && seat !== 'black') {
+      return { success: false, error: 'You do not own a seat in this game' };
+    }
+
+    try {
+      const result = await action(seat);
+      return { success: true, ...serializeGamePayload(result) };
+    } catch (error) {
+      this.logger.warn(`⚠️ ${actionName} rejected in game ${gameId}: ${error.message}`);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Does the user still have a socket in the game room?
+   */
+  private isUserInRoom(gameId: string, userId: string): boolean {
+    const sockets = this.gameRooms.get(gameId) || new Set<string>();
+    return [...sockets].some((socketId) => this.userSockets.get(socketId) === userId);
+  }
+
+  /**
+   * ⏳ Start the reconnection grace window for a disconnected player
+   * - Only players of ACTIVE ONLINE games (not spectators, not AI games)
+   * - Opponent gets disconnectCountdown with the deadline
+   * - Window runs out → game ends with ABANDONMENT (disconnected player loses)
+   */
+  private async startGracePeriod(gameId: string, userId: string) {
+    const graceKey = `${gameId}:${userId}`;
+    if (this.graceTimers.has(graceKey)) return;
+
+    try {
+      const game = await this.prisma.game.findUnique({
+        where: { id: gameId },
+        select: { status: true, gameType: true, whitePlayerId: true, blackPlayerId: true },
+      });
+      const isPlayer = game?.whitePlayerId === userId || game?.blackPlayerId === userId;
+      if (!game || game.status !== 'ACTIVE' || game.gameType !== 'ONLINE' || !isPlayer) return;
+
+      const setting = await this.settingsService.getGameSetting('game.disconnect_grace_seconds');
+      const parsed = setting ? parseInt(setting.value, 10) : NaN;
+      const graceSeconds = Number.isFinite(parsed) ? parsed : 60;
+
+      // Reconnected while we were loading the game
+      if (this.isUserInRoom(gameId, userId)) return;
+
+      this.graceTimers.set(
+        graceKey,
+        setTimeout(() => this.handleGraceExpired(gameId, userId), graceSeconds * 1000),
+      );
+
+      this.broadcast(gameId, GameServerEvent.DISCONNECT_COUNTDOWN, {
+        userId,
+        graceSeconds,
+        reconnectDeadline: new Date(Date.now() + graceSeconds * 1000).toISOString(),
+      });
+
+      this.logger.warn(`⚠️ Player ${userId} left game ${gameId} - ${graceSeconds}s to reconnect`);
+    } catch (error) {
+      this.logger.error(`Error starting grace period: ${error.message}`);
+    }
+  }
+
+  /**
+   * 🚪 Grace window ran out - disconnected player abandons the game
+   */
+  private async handleGraceExpired(gameId: string, userId: string) {
+    this.graceTimers.delete(`${gameId}:${userId}`);
+
+    try {
+      await this.gameService.endGame(gameId, userId, { endReason: 'ABANDONMENT' });
+
+      this.broadcast(gameId, GameServerEvent.PLAYER_ABANDONED, { userId });
+      this.logger.warn(`🚪 Player ${userId} abandoned game ${gameId}`);
+    } catch (error) {
+      // Game already ended (timeout, resign, ...) - nothing to do
+      this.logger.log(`Grace expired for ${userId} in game ${gameId}: ${error.message}`);
+    }
+  }
 }
@@ -3,9 +3,21 @@ import { GameController } from './game.controller';
 import { GameService } from './game.service';
 import { GameGateway } from './game.gateway';
 import { AIPlayerService } from './ai/ai-player.service';
+import { ExpertEngineService } from './ai/expert-engine.service';
+import { CubeDecisionService } from './ai/cube-decision.service';
+import { BuiltinAIEngine } from './ai/engines/builtin-ai.engine';
+import { GnubgEngine } from './ai/engines/gnubg.engine';
+import { AIEngineRegistry } from './ai/engines/ai-engine.registry';
+import { AdaptiveDifficultyService } from './ai/adaptive-difficulty.service';
 import { DiceService } from './dice.service';
 import { OpeningRollService } from './core/opening-roll.service';
-import { AIMoveService } from './core/ai-move.service';
+import { AITurnService } from './core/ai-turn.service';
+import { RulesEngineService } from './core/rules-engine.service';
+import { BetEscrowService } from './core/bet-escrow.service';
+import { GameReplayService } from './core/game-replay.service';
+import { MatchFileService } from './core/match-file.service';
+import { GameAnalysisService } from './core/game-analysis.service';
+import { GameCronService } from './game-cron.service';
 import { DatabaseModule } from '../../database/database.module';
 import { AuthModule } from '../auth/auth.module';
 import { SettingsModule } from '../settings/settings.module';
@@ -17,17 +29,40 @@ import { SettingsModule } from '../settings/settings.module';
     GameService,
     GameGateway,
     AIPlayerService,
+    ExpertEngineService,
+    CubeDecisionService,
+    BuiltinAIEngine,
+    GnubgEngine,
+    AIEngineRegistry,
+    AdaptiveDifficultyService,
     DiceService,
     OpeningRollService,
-    AIMoveService,
+    AITurnService,
+    RulesEngineService,
+    BetEscrowService,
+    GameReplayService,
+    MatchFileService,
+    GameAnalysisService,
+    GameCronService,
   ],
   exports: [
     GameService,
     GameGateway,
     AIPlayerService,
+    ExpertEngineService,
+    CubeDecisionService,
+    BuiltinAIEngine,
+    GnubgEngine,
+    AIEngineRegistry,
+    AdaptiveDifficultyService,
     DiceService,
     OpeningRollService,
-    AIMoveService,
+    AITurnService,
+    RulesEngineService,
+    BetEscrowService,
+    GameReplayService,
+    MatchFileService,
+    GameAnalysisService,
   ],
 })
 export class GameModule {}
@@ -0,0 +1,152 @@
+import { CallHandler, ExecutionContext } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { lastValueFrom, of } from 'rxjs';
+import { GameSerializerInterceptor, serializeGamePayload } from './game.serializer';
+
+const HIDDEN_FIELDS = ['firstRollDice', 'nextRoll', 'nextDiceRoll', 'serverSeed', 'aiSeed'];
+
+/**
+ * Every key of a payload, at any depth
+ */
+function collectKeys(value: any, keys = new Set<string>()): Set<string> {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectKeys(item, keys));
+  } else if (value && typeof value === 'object') {
+    for (const [key, fieldValue] of Object.entries(value)) {
+      keys.add(key);
+      collectKeys(fieldValue, keys);
+    }
+  }
+  return keys;
+}
+
+function makeGame() {
+  return {
+    id: 'game-1',
+    status: 'ACTIVE',
+    serverSeed: 'secret-seed',
+    serverSeedHash: 'hash',
+    aiSeed: 'ai-secret',
+    firstRollDice: [6, 5],
+    betAmount: new Prisma.Decimal('12.5'),
+    betStatus: 'LOCKED',
+    createdAt: new Date('2025-12-01T10:00:00Z'),
+    moveHistory: [{ moveNumber: 1, from: 23, to: 17 }],
+    gameState: {
+      currentPlayer: 'white',
+      currentTurnDice: [3, 4],
+      nextRoll: { white: null, black: [2, 2] },
+      nextDiceRoll: [2, 2],
+      cube: { value: 1, owner: null, offer: null },
+    },
+  };
+}
+
+describe('GameSerializerInterceptor', () => {
+  const interceptor = new GameSerializerInterceptor();
+  const context = {} as ExecutionContext;
+
+  const intercept = (payload: any) => {
+    const next: CallHandler = { handle: () => of(payload) };
+    return lastValueFrom(interceptor.intercept(context, next));
+  };
+
+  it('strips future dice and seeds from a game row and its gameState', async () => {
+    const result = await intercept(makeGame());
+
+    const keys = collectKeys(result);
+    HIDDEN_FIELDS.forEach((field) => expect(keys.has(field)).toBe(false));
+    expect(result.gameState.currentTurnDice).toEqual([3, 4]);
+    expect(result.serverSeedHash).toBe('hash');
+  });
+
+  it('strips hidden fields at any depth of a service result', async () => {
+    const result = await intercept({
+      message: 'Turn ended successfully',
+      nextRoll: { white: [1, 2], black: null },
+      game: { id: 'game-1', gameState: makeGame().gameState },
+      games: [makeGame(), { whitePlayer: { id: 'u1' }, ...makeGame() }],
+    });
+
+    const keys = collectKeys(result);
+    HIDDEN_FIELDS.forEach((field) => expect(keys.has(field)).toBe(false));
+    expect(result.games).toHaveLength(2);
+  });
+
+  it('keeps Date and Decimal values intact', async () => {
+    const result = await intercept(makeGame());
+
+    expect(result.createdAt).toBeInstanceOf(Date);
+    expect(result.betAmount).toBeInstanceOf(Prisma.Decimal);
+    expect(result.betAmount.toString()).toBe('12.5');
+  });
+
+  it('does not modify the original payload', async () => {
+    const game = makeGame();
+    await intercept(game);
+
+    expect(game.serverSeed).toBe('secret-seed');
+    expect(game.gameState.nextRoll).toEqual({ white: null, black: [2, 2] });
+  });
+
+  it('passes through primitives and empty results', async () => {
+    expect(await intercept(null)).toBeNull();
+    expect(await intercept(undefined)).toBeUndefined();
+    expect(await intercept('ok')).toBe('ok');
+  });
+});
+
+describe('serializeGamePayload', () => {
+  it('gives players the move log and escrow state', () => {
+    const result = serializeGamePayload(makeGame(), 'player');
+
+    expect(result.moveHistory).toHaveLength(1);
+    expect(result.betStatus).toBe('LOCKED');
+  });
+
+  it('hides the move log and escrow state from spectators', () => {
+    const result = serializeGamePayload({ game: makeGame() }, 'spectator');
+
+    const keys = collectKeys(result);
+    [...HIDDEN_FIELDS, 'moveHistory', 'betStatus'].forEach((field) =>
+      expect(keys.has(field)).toBe(false),
+    );
+    expect(result.game.gameState.currentPlayer).toBe('white');
+  });
+
+  it('hides the live board, dice and clocks from delayed spectators', () => {
+    const result = serializeGamePayload(
+      {
+        ...makeGame(),
+        moves: [{ moveNumber: 1, from: 23, to: 17 }],
+        currentDiceValues: [3, 4],
+        whiteHasDiceRolled: true,
+        blackHasDiceRolled: false,
+        whiteTimeRemaining: 1740,
+        blackTimeRemaining: 1800,
+        diceNonce: 7,
+        updatedAt: new Date('2025-12-01T10:05:00Z'),
+        spectatorDelaySeconds: 30,
+      },
+      'delayed-spectator',
+    );
+
+    const keys = collectKeys(result);
+    [
+      ...HIDDEN_FIELDS,
+      'moveHistory',
+      'betStatus',
+      'gameState',
+      'moves',
+      'currentDiceValues',
+      'whiteHasDiceRolled',
+      'blackHasDiceRolled',
+      'whiteTimeRemaining',
+      'blackTimeRemaining',
+      'diceNonce',
+      'updatedAt',
+    ].forEach((field) => expect(keys.has(field)).toBe(false));
+    expect(result.id).toBe('game-1');
+    expect(result.spectatorDelaySeconds).toBe(30);
+  });
+});
@@ -0,0 +1,85 @@
+import { Injectable, NestInterceptor, ExecutionContext, CallHandler } from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+
+/**
+ * 🙈 Game serialization - what a client may see of a game
+ *
+ * Pre-generated dice are rolled at game creation / on Done and kept on the server
+ * until the roll is revealed through rollDiceForGame. They must never reach a client,
+ * otherwise a player can read the opponent's (or their own) upcoming dice.
+ *
+ * Used by every game REST response (GameSerializerInterceptor) and every /game socket emit.
+ */
+export type GameViewer = 'player' | 'spectator' | 'delayed-spectator';
+
+// Server-only, stripped for everyone (at any depth: game row, gameState, service results)
+const SERVER_ONLY_FIELDS = new Set([
+  'firstRollDice', // opening winner's first 2d6
+  'nextRoll', // { white, black } dice for the next turn
+  'nextDiceRoll', // legacy copy of nextRoll
+  'serverSeed', // provably fair seed - revealed after the game as revealedServerSeed
+  'aiSeed', // seed of the AI's random choices - would let a player predict its plays
+]);
+
+// Players only - live move log and escrow state are not for spectators
+const PLAYER_ONLY_FIELDS = new Set(['moveHistory', 'betStatus']);
+
+// Live board, dice and clocks - delayed spectators (bet games) only get them from the delayed socket stream
+const LIVE_FIELDS = new Set([
+  'gameState',
+  'moves',
+  'currentDiceValues',
+  'whiteHasDiceRolled',
+  'blackHasDiceRolled',
+  'whiteTimeRemaining',
+  'blackTimeRemaining',
+  'diceNonce', // moves on every roll
+  'updatedAt', // moves on every move / Done
+]);
+
+/**
+ * Strip hidden fields from any game payload (game row, gameState, service result, event)
+ */
+export function serializeGamePayload<T>(payload: T, viewer: GameViewer = 'player'): T {
+  return strip(payload, viewer) as T;
+}
+
+/**
+ * Game state as a client sees it
+ */
+export function serializeGameState(gameState: any, viewer: GameViewer = 'player') {
+  return serializeGamePayload(gameState, viewer);
+}
+
+function strip(value: any, viewer: GameViewer): any {
+  if (Array.isArray(value)) {
+    return value.map((item) => strip(item, viewer));
+  }
+
+  // Only plain objects (JSON / Prisma rows) - keep Date, Decimal, Buffer as they are
+  if (!value || typeof value !== 'object' || Object.getPrototypeOf(value) !== Object.prototype) {
+    return value;
+  }
+
+  const result: Record<string, any> = {};
+  for (const [key, fieldValue] of Object.entries(value)) {
+    if (SERVER_ONLY_FIELDS.has(key)) continue;
+    if (viewer !== 'player' && PLAYER_ONLY_FIELDS.has(key)) continue;
+    if (viewer === 'delayed-spectator' && LIVE_FIELDS.has(key)) continue;
+    result[key] = strip(fieldValue, viewer);
+  }
+  return result;
+}
+
+/**
+ * Game Serializer Interceptor
+ * Runs every response of a game controller through serializeGamePayload
+ * (spectator views are already serialized as 'spectator' by GameService)
+ */
+@Injectable()
+export class GameSerializerInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    return next.handle().pipe(map((data) => serializeGamePayload(data)));
+  }
+}
@@ -4,8 +4,7 @@
  * Game Service - Core game logic and state management
  * 
  * LOCKED COMPONENTS:
- * - applyMove() - Hit logic, board manipulation
- * - validateMove() - Movement rules
+ * - recordMove() - Server-authoritative moves (rules live in core/rules-engine.service.ts)
  * - rollDice() - Dice generation
  * - Game state conversion and board format handling
  * 
@@ -43,9 +42,13 @@
  *   // 6️⃣ تاس‌ها
  *   diceValues: [3, 4],
  *   currentTurnDice: [3, 4],  // تاس فعلی (برای refresh)
+ *   remainingDice: [4],       // تاس‌های استفاده‌نشده در نوبت فعلی (server-side)
  *   nextDiceRoll: [2, 5],     // تاس پیش‌ساخته برای نوبت بعد
  *   
- *   // 7️⃣ بقیه فیلدها
+ *   // 7️⃣ Doubling cube
+ *   cube: { value: 1, owner: null | 'white' | 'black', offer: null | { from, value, offeredAt } },
+ *   
+ *   // 8️⃣ بقیه فیلدها
  *   points: [...],  // وضعیت صفحه (24 نقطه)
  *   bar: { white: 0, black: 0 },
  *   off: { white: 0, black: 0 },
@@ -54,25 +57,106 @@
  */
 
 
-import { Injectable, NotFoundException, BadRequestException, ForbiddenException, Optional, Inject, forwardRef } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, BadRequestException, ConflictException, ForbiddenException, Optional, Inject, forwardRef } from '@nestjs/common';
+import { EndReason, Game, Prisma } from '@prisma/client';
 import { PrismaService } from '../../database/prisma.service';
 import { CreateGameDto } from './dto/create-game.dto';
 import { RecordMoveDto } from './dto/record-move.dto';
 import { EndGameDto } from './dto/end-game.dto';
-import { AIPlayerService, AIDifficulty } from './ai/ai-player.service';
+import { AIPlayerService } from './ai/ai-player.service';
+import { AIDifficulty } from './ai/ai.types';
+import { AdaptiveDifficultyService } from './ai/adaptive-difficulty.service';
+import { AIEngineRegistry } from './ai/engines/ai-engine.registry';
+import { CubeContext, CubeDecision } from './ai/engines/ai-engine.interface';
+import { createSeededRandom } from './ai/seeded-random';
 import { SettingsService } from '../settings/settings.service';
 import { OpeningRollService } from './core/opening-roll.service';
-import { AIMoveService } from './core/ai-move.service';
+import { AITurnService } from './core/ai-turn.service';
+import { RulesEngineService, PlayerSide, SetResultType } from './core/rules-engine.service';
+import { BetEscrowService } from './core/bet-escrow.service';
+import { DiceService } from './dice.service';
 import { GameGateway } from './game.gateway';
+import { serializeGamePayload } from './game.serializer';
+
+// 🔒 gameState keys a client may write (display only - the server never reads them)
+const CLIENT_STATE_KEYS = ['ui'];
+
+// 🎲 Opening roll claims older than this belong to a call that never finished
+const OPENING_CLAIM_TIMEOUT_MS = 30_000;
+
+/**
+ * 🏁 Final result of a game - always decided on the server
+ */
+interface GameResult {
+  winner: 'WHITE' | 'BLACK';
+  endReason: EndReason;
+  whiteSetsWon: number;
+  blackSetsWon: number;
+  gameState: any;
+  timers?: { white: number; black: number };
+  setResult?: SetResult;
+}
+
+/**
+ * 🏆 One finished set (stored in Game.setHistory)
+ */
+export interface SetResult {
+  setNumber: number;
+  winner: 'WHITE' | 'BLACK';
+  resultType: SetResultType;
+  cubeValue: number;
+  points: number;
+  endReason: EndReason;
+  durationSeconds: number;
+  endedAt: string;
+}
+
+/**
+ * 🎲 Doubling cube (stored in gameState.cube)
+ * owner null = centered cube, either player may double
+ */
+export interface DoublingCube {
+  value: number;
+  owner: PlayerSide | null;
+  offer: { from: PlayerSide; value: number; offeredAt: string } | null;
+}
+
+/**
+ * 🏆 Set end broadcast (match continues with the next set)
+ */
+export interface SetEnd {
+  setResult: SetResult;
+  whiteSetsWon: number;
+  blackSetsWon: number;
+  matchLength: number;
+}
+
+/**
+ * 🎲 Opening roll result (dice, tie history, who starts)
+ */
+export interface OpeningRollResult {
+  winner: PlayerSide;
+  white: number | null;
+  black: number | null;
+  openingRolls: { white: number; black: number }[];
+  gameState: any;
+}
 
 @Injectable()
 export class GameService {
+  private readonly logger = new Logger(GameService.name);
+
   constructor(
     private prisma: PrismaService,
     private aiPlayerService: AIPlayerService,
     private settingsService: SettingsService,
     private openingRollService: OpeningRollService,
-    private aiMoveService: AIMoveService,
+    private rulesEngine: RulesEngineService,
+    private betEscrow: BetEscrowService,
+    private diceService: DiceService,
+    private adaptiveDifficulty: AdaptiveDifficultyService,
+    private aiEngineRegistry: AIEngineRegistry,
+    @Inject(forwardRef(() => AITurnService)) private aiTurnService: AITurnService,
     @Optional() @Inject(forwardRef(() => GameGateway)) private gameGateway?: GameGateway,
   ) {}
 
@@ -136,26 +220,105 @@ export class GameService {
     }
   }
 
+  /**
+   * Emit set end (match continues) via WebSocket
+   */
+  private emitSetEnd(gameId: string, result: SetEnd) {
+    try {
+      if (this.gameGateway && typeof this.gameGateway.emitSetEnd === 'function') {
+        this.gameGateway.emitSetEnd(gameId, result);
+      }
+    } catch (error) {
+      console.warn('WebSocket emit failed for set end');
+    }
+  }
+
+  /**
+   * Emit doubling cube change via WebSocket
+   */
+  private emitCubeUpdate(gameId: string, action: 'offered' | 'accepted' | 'dropped', cube: DoublingCube) {
+    try {
+      if (this.gameGateway && typeof this.gameGateway.emitCubeUpdate === 'function') {
+        this.gameGateway.emitCubeUpdate(gameId, action, cube);
+      }
+    } catch (error) {
+      console.warn('WebSocket emit failed for cube update');
+    }
+  }
+
+  /**
+   * Emit opening roll result (dice, tie history, who starts)
+   */
+  private emitOpeningRoll(gameId: string, result: OpeningRollResult) {
+    try {
+      if (this.gameGateway && typeof this.gameGateway.emitOpeningRoll === 'function') {
+        this.gameGateway.emitOpeningRoll(gameId, result);
+      }
+    } catch (error) {
+      console.warn('WebSocket emit failed for opening roll');
+    }
+  }
+
   // ========================================================================
   // 🎲 Dice and Game Logic
   // ========================================================================
 
-  // 🎲 Generate dice (random or specific for testing)
-  private generateDice(rollOne?: number, rollTwo?: number): [number, number] {
-    // If both values provided, use them (for testing)
-    if (rollOne !== undefined && rollTwo !== undefined) {
-      return [rollOne, rollTwo];
+  /**
+   * 🔐 Next provably fair roll of a game (HMAC of server seed, client seed and nonce)
+   * Nonce is claimed atomically, so two rolls can never share one
+   * (inside `tx`: a rolled-back transaction gives the nonce back)
+   * Games created before provably fair dice have no seeds → plain CSPRNG roll
+   */
+  private async generateDice(
+    gameId: string,
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<[number, number]> {
+    const { serverSeed, clientSeed, diceNonce } = await tx.game.update({
+      where: { id: gameId },
+      data: { diceNonce: { increment: 1 } },
+      select: { serverSeed: true, clientSeed: true, diceNonce: true },
+    });
+
+    if (!serverSeed || !clientSeed) {
+      return this.diceService.rollTwoDice();
     }
-    
-    // Otherwise, generate random dice
-    return [
-      Math.floor(Math.random() * 6) + 1,
-      Math.floor(Math.random() * 6) + 1,
-    ];
+
+    return this.diceService.rollFairDice(serverSeed, clientSeed, diceNonce - 1);
+  }
+
+  /**
+   * 🔒 Claim the game row for a read → validate → write (first step of the writing transaction)
+   * 409 if the game changed since it was read (updatedAt moves on every write) - of two
+   * concurrent moves / Done / rolls validated against the same state, only one is applied
+   */
+  private async claimGameVersion(
+    tx: Prisma.TransactionClient,
+    game: Pick<Game, 'id' | 'updatedAt'>,
+  ) {
+    const { count } = await tx.game.updateMany({
+      where: { id: game.id, status: 'ACTIVE', updatedAt: game.updatedAt },
+      data: { updatedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new ConflictException('Game changed in the meantime - reload and try again');
+    }
+  }
+
+  /**
+   * 🎯 Standard starting position (frontend format: {checkers: ['white', 'white'], count: 2})
+   * Used for the first set and every following set
+   */
+  private createInitialBoard() {
+    return this.rulesEngine.toGameStateBoard(this.rulesEngine.initialBoard());
   }
 
-  async createGame(userId: string, createGameDto: CreateGameDto) {
-    const { gameType, opponentId, gameMode = 'CLASSIC', aiDifficulty = 'MEDIUM', aiPlayerColor = 'black' } = createGameDto;
+  async createGame(
+    userId: string,
+    createGameDto: CreateGameDto,
+    options: { timeControl?: number; allowBet?: boolean; botPlayerId?: string } = {},
+  ) {
+    const { gameType, opponentId, gameMode = 'CLASSIC', aiDifficulty = 'MEDIUM', aiPlayerColor = 'black', betAmount, matchLength = 1 } = createGameDto;
 
     // ✅ Get timeControl from GameSettings (anti-cheat: always from database)
     let timeControl = 1800; // Default 30 minutes
@@ -169,6 +332,11 @@ export class GameService {
       console.warn('Failed to load time control from settings, using default:', error);
     }
 
+    // ⏱️ Server-side callers (matchmaking) may pick the time control - never the client DTO
+    if (options.timeControl) {
+      timeControl = options.timeControl;
+    }
+
     // ✅ Determine white and black players based on aiPlayerColor
     let whitePlayerId: string;
     let blackPlayerId: string;
@@ -193,39 +361,64 @@ export class GameService {
       throw new BadRequestException('Tournament games must be created through tournament system');
     }
 
+    // 💰 Bets: ONLINE only, amount must be one of the allowed bet amounts
+    // Only matchmaking / an accepted invitation may stake the opponent's balance
+    if (betAmount !== undefined) {
+      if (!options.allowBet) {
+        throw new BadRequestException(
+          'Bets can only be placed through matchmaking or an accepted invitation',
+        );
+      }
+      if (gameType !== 'ONLINE') {
+        throw new BadRequestException('Bets are only allowed in ONLINE games');
+      }
+      await this.assertAllowedBetAmount(betAmount);
+    }
+
+    // 🤖 Matchmaking bot games: the isBot seat is played by the engine as well (AITurnService)
+    let botPlayerColor: PlayerSide | undefined;
+    if (options.botPlayerId) {
+      if (options.botPlayerId !== whitePlayerId && options.botPlayerId !== blackPlayerId) {
+        throw new BadRequestException('Bot must be one of the players');
+      }
+      botPlayerColor = options.botPlayerId === whitePlayerId ? 'white' : 'black';
+    }
+
+    // 🤖 AI level (ADAPTIVE = picked from the player's recent results), engine and seed
+    let aiSetup: Pick<
+      Prisma.GameUncheckedCreateInput,
+      'aiDifficulty' | 'aiAdaptive' | 'aiEngine' | 'aiEngineVersion' | 'aiSeed'
+    > = {};
+    if (gameType === 'AI' || botPlayerColor) {
+      const humanId = !botPlayerColor
+        ? userId
+        : botPlayerColor === 'white'
+          ? blackPlayerId
+          : whitePlayerId;
+      const difficulty =
+        aiDifficulty === 'ADAPTIVE'
+          ? await this.adaptiveDifficulty.resolveDifficulty(humanId)
+          : (aiDifficulty as AIDifficulty);
+      const engine = await this.aiEngineRegistry.getEngine(difficulty);
+
+      aiSetup = {
+        aiDifficulty: difficulty,
+        aiAdaptive: aiDifficulty === 'ADAPTIVE',
+        aiEngine: engine.name,
+        aiEngineVersion: engine.version,
+        aiSeed: this.diceService.generateServerSeed(),
+      };
+      console.log(
+        `🤖 AI game: ${difficulty}${aiSetup.aiAdaptive ? ' (adaptive)' : ''} - engine ${engine.name}@${engine.version}`,
+      );
+    }
+
     // Create initial standard backgammon board state
     // ✅ Using FRONTEND format: {checkers: ['white', 'white'], count: 2}
     // This way NO conversion is needed!
     const initialBoardState = {
       // Board arrangement
-      points: [
-        { checkers: ['black', 'black'], count: 2 },  // Point 0 - Black home (2 black)
-        { checkers: [], count: 0 },  // Point 1
-        { checkers: [], count: 0 },  // Point 2
-        { checkers: [], count: 0 },  // Point 3
-        { checkers: [], count: 0 },  // Point 4
-        { checkers: ['white', 'white', 'white', 'white', 'white'], count: 5 },  // Point 5 - White (5 white)
-        { checkers: [], count: 0 },  // Point 6
-        { checkers: ['white', 'white', 'white'], count: 3 },  // Point 7 - White (3 white)
-        { checkers: [], count: 0 },  // Point 8
-        { checkers: [], count: 0 },  // Point 9
-        { checkers: [], count: 0 },  // Point 10
-        { checkers: ['black', 'black', 'black', 'black', 'black'], count: 5 },  // Point 11 - Black (5 black)
-        { checkers: ['white', 'white', 'white', 'white', 'white'], count: 5 },  // Point 12 - White (5 white)
-        { checkers: [], count: 0 },  // Point 13
-        { checkers: [], count: 0 },  // Point 14
-        { checkers: [], count: 0 },  // Point 15
-        { checkers: ['black', 'black', 'black'], count: 3 },  // Point 16 - Black (3 black)
-        { checkers: [], count: 0 },  // Point 17
-        { checkers: ['black', 'black', 'black', 'black', 'black'], count: 5 },  // Point 18 - Black (5 black)
-        { checkers: [], count: 0 },  // Point 19
-        { checkers: [], count: 0 },  // Point 20
-        { checkers: [], count: 0 },  // Point 21
-        { checkers: [], count: 0 },  // Point 22
-        { checkers: ['white', 'white'], count: 2 },  // Point 23 - White home (2 white)
-      ],
-      bar: { white: 0, black: 0 },
-      off: { white: 0, black: 0 },
+      ...this.createInitialBoard(),
       
       // Turn management
       currentPlayer: 'white',
@@ -241,6 +434,12 @@ export class GameService {
       lastDoneAt: null, // timestamp when Done was pressed
       turnCompleted: false, // Has current player pressed Done?
       
+      // Doubling cube (centered)
+      cube: { value: 1, owner: null, offer: null },
+      
+      // Set tracking (for set duration in setHistory)
+      setStartedAt: new Date().toISOString(),
+      
       // Timer tracking
       remainingTime: {
         white: timeControl, // in seconds
@@ -248,66 +447,66 @@ export class GameService {
       },
       
       // Game metadata
-      aiDifficulty: gameType === 'AI' ? aiDifficulty : undefined,
+      aiDifficulty: aiSetup.aiDifficulty ?? undefined,
       aiPlayerColor: gameType === 'AI' ? aiPlayerColor : undefined,
+      botPlayerColor,
     };
 
-    // 🎲 Pre-generate ALL dice for anti-cheat (unhackable!)
-    const openingDiceWhite = Math.floor(Math.random() * 6) + 1;
-    const openingDiceBlack = Math.floor(Math.random() * 6) + 1;
-    const firstRollDice = [Math.floor(Math.random() * 6) + 1, Math.floor(Math.random() * 6) + 1];
-    
-    console.log('\n=================================================');
-    console.log('🎲 Pre-generated dice at game creation:');
-    console.log('=================================================');
-    console.log(`📋 Opening Roll (1d6):`);
-    console.log(`   🎲 White Player: ${openingDiceWhite}`);
-    console.log(`   🎲 Black Player: ${openingDiceBlack}`);
-    console.log(`📋 Winner's First Roll (2d6): [${firstRollDice[0]}, ${firstRollDice[1]}]`);
-    console.log('=================================================\n');
-
-    const game = await this.prisma.game.create({
-      data: {
-        whitePlayerId,
-        blackPlayerId,
-        gameType,
-        gameMode,
-        timeControl,
-        whiteTimeRemaining: timeControl, // ✅ Initialize timer for white
-        blackTimeRemaining: timeControl, // ✅ Initialize timer for black
-        openingDiceWhite,
-        openingDiceBlack,
-        firstRollDice,
-        gameState: initialBoardState,
-        moveHistory: [],
-        status: 'ACTIVE',
-        startedAt: new Date(),
-      },
-      include: {
-        whitePlayer: {
-          select: {
-            id: true,
-            username: true,
-            displayName: true,
-            avatar: true,
-          },
+    // 🔐 Provably fair: commit to a secret server seed (only its hash is public until the game ends)
+    const serverSeed = this.diceService.generateServerSeed();
+    const clientSeed = createGameDto.clientSeed || this.diceService.generateClientSeed();
+
+    // 🎲 Opening dice are rolled later by the server (playOpeningRoll), from the same seeds
+
+    // 💰 Game creation and stake escrow succeed or fail together
+    const game = await this.prisma.$transaction(async (tx) => {
+      const createdGame = await tx.game.create({
+        data: {
+          whitePlayerId,
+          blackPlayerId,
+          gameType,
+          gameMode,
+          timeControl,
+          matchLength,
+          betAmount,
+          betStatus: betAmount !== undefined ? 'ESCROWED' : undefined,
+          whiteTimeRemaining: timeControl, // ✅ Initialize timer for white
+          blackTimeRemaining: timeControl, // ✅ Initialize timer for black
+          serverSeed,
+          serverSeedHash: this.diceService.hashServerSeed(serverSeed),
+          clientSeed,
+          ...aiSetup,
+          gameState: initialBoardState,
+          moveHistory: [],
+          status: 'ACTIVE',
+          startedAt: new Date(),
         },
-        blackPlayer: {
-          select: {
-            id: true,
-            username: true,
-            displayName: true,
-            avatar: true,
+        include: {
+          whitePlayer: {
+            select: {
+              id: true,
+              username: true,
+              displayName: true,
+              avatar: true,
+            },
+          },
+          blackPlayer: {
+            select: {
+              id: true,
+              username: true,
+              displayName: true,
+              avatar: true,
+            },
           },
         },
-      },
+      });
+
+      await this.betEscrow.lockStakes(tx, createdGame);
+
+      return createdGame;
     });
 
-    // 🎲 Log pre-generated dice for frontend
-    console.log('\n📤 [RESPONSE TO FRONTEND] Game created with pre-generated dice:');
-    console.log(`   Opening White: ${openingDiceWhite}`);
-    console.log(`   Opening Black: ${openingDiceBlack}`);
-    console.log(`   Winner First Roll: [${firstRollDice[0]}, ${firstRollDice[1]}]\n`);
+    console.log(`🎮 Game ${game.id} created - waiting for the opening roll`);
 
     return game;
   }
@@ -397,6 +596,12 @@ export class GameService {
     return { whiteTime, blackTime };
   }
 
+  /**
+   * 🔒 Record a single checker move (server-authoritative)
+   * - Client only sends from / to / diceUsed
+   * - Move is validated by the rules engine against the dice still unplayed this turn
+   * - Board after the move is computed on the server and is the ONLY board persisted
+   */
   async recordMove(gameId: string, userId: string, recordMoveDto: RecordMoveDto) {
     // Verify game exists and user is a player
     const game = await this.prisma.game.findUnique({
@@ -416,111 +621,154 @@ export class GameService {
       throw new ForbiddenException('You are not a player in this game');
     }
 
-    // Record the move
-    const move = await this.prisma.gameMove.create({
-      data: {
-        gameId,
-        playerColor: recordMoveDto.playerColor,
-        moveNumber: recordMoveDto.moveNumber,
-        from: recordMoveDto.from,
-        to: recordMoveDto.to,
-        diceUsed: recordMoveDto.diceUsed,
-        isHit: recordMoveDto.isHit || false,
-        boardStateBefore: recordMoveDto.boardStateBefore,
-        boardStateAfter: recordMoveDto.boardStateAfter,
-        timeRemaining: recordMoveDto.timeRemaining,
-        moveTime: recordMoveDto.moveTime,
-      },
-    });
+    const existingGameState = game.gameState as any;
+    const playerColor: PlayerSide = game.whitePlayerId === userId ? 'white' : 'black';
 
-    // Update game's moveHistory (append move data)
-    const moveData = {
-      moveNumber: recordMoveDto.moveNumber,
-      player: recordMoveDto.playerColor,
-      from: recordMoveDto.from,
-      to: recordMoveDto.to,
-      dice: recordMoveDto.diceUsed,
-      timestamp: new Date().toISOString(),
-    };
+    if (recordMoveDto.playerColor.toLowerCase() !== playerColor) {
+      throw new ForbiddenException('You can only move your own checkers');
+    }
+
+    if (existingGameState.currentPlayer !== playerColor) {
+      throw new BadRequestException('Not your turn');
+    }
+
+    const turnDice = existingGameState.currentTurnDice;
+    if (existingGameState.turnCompleted !== false || !Array.isArray(turnDice) || turnDice.length !== 2) {
+      throw new BadRequestException('Roll the dice before moving');
+    }
+
+    // 🎲 Dice still available this turn (doubles = 4 moves)
+    const remainingDice: number[] = Array.isArray(existingGameState.remainingDice)
+      ? existingGameState.remainingDice
+      : this.rulesEngine.expandDice(turnDice);
+
+    // ✅ Validate against the rules engine (bar entry, blocked points, bear-off, forced play)
+    const boardBefore = this.rulesEngine.fromGameState(existingGameState);
+    const legalMove = this.rulesEngine.findLegalMove(
+      boardBefore,
+      remainingDice,
+      playerColor,
+      recordMoveDto.from,
+      recordMoveDto.to,
+      recordMoveDto.diceUsed,
+    );
+
+    if (!legalMove) {
+      throw new BadRequestException(
+        `Illegal move: ${recordMoveDto.from} → ${recordMoveDto.to} with die ${recordMoveDto.diceUsed}`,
+      );
+    }
+
+    const { board: boardAfter, isHit } = this.rulesEngine.applyMove(boardBefore, legalMove, playerColor);
+    const boardStateBefore = this.rulesEngine.toGameStateBoard(boardBefore);
+    const boardStateAfter = this.rulesEngine.toGameStateBoard(boardAfter);
+
+    // ⏱️ Clock is worked out on the server (stored time - elapsed since Done), never taken from the client
+    const { whiteTime, blackTime } = this.calculateCurrentTimers(game);
+    const lastEvent = game.moveHistory[game.moveHistory.length - 1] as any;
+    const lastEventAt = lastEvent?.timestamp ? new Date(lastEvent.timestamp).getTime() : NaN;
 
     // ✅ DON'T generate dice here! Dice should only be generated when Done is pressed (in endTurn)
     // recordMove is called MULTIPLE times (once per move), we don't want to regenerate dice each time!
 
-    // Update boardStateAfter WITHOUT generating new dice
-    // ⏱️ CRITICAL: Preserve lastDoneBy and lastDoneAt from existing gameState!
-    const existingGameState = game.gameState as any;
-    const updatedBoardState = recordMoveDto.boardStateAfter 
-      ? { 
-          ...(recordMoveDto.boardStateAfter as any),
-          // ⏱️ Preserve timer fields from previous state
-          lastDoneBy: existingGameState.lastDoneBy,
-          lastDoneAt: existingGameState.lastDoneAt,
-        }
-      : game.gameState;
-
-    // ✅ Update player's time remaining in database
-    const updateData: any = {
-      moveHistory: {
-        push: moveData,
-      },
-      gameState: updatedBoardState,
-      updatedAt: new Date(),
+    // ⏱️ Spreading existing state preserves lastDoneBy / lastDoneAt
+    const updatedBoardState = {
+      ...existingGameState,
+      ...boardStateAfter,
+      phase: 'moving',
+      remainingDice: this.rulesEngine.removeDie(remainingDice, legalMove.diceUsed),
     };
 
-    // ✅ Save timer if provided
-    if (recordMoveDto.timeRemaining !== undefined && recordMoveDto.timeRemaining !== null) {
-      if (recordMoveDto.playerColor === 'WHITE') {
-        updateData.whiteTimeRemaining = recordMoveDto.timeRemaining;
-      } else if (recordMoveDto.playerColor === 'BLACK') {
-        updateData.blackTimeRemaining = recordMoveDto.timeRemaining;
-      }
-    }
+    // 🔒 Move row, moveHistory and board are written together, only if nothing moved since the read
+    const { move, moveNumber, updatedGame } = await this.prisma.$transaction(async (tx) => {
+      await this.claimGameVersion(tx, game);
 
-    const updatedGame = await this.prisma.game.update({
-      where: { id: gameId },
-      data: updateData,
+      const moveNumber = (await tx.gameMove.count({ where: { gameId } })) + 1;
+
+      // Record the move
+      const move = await tx.gameMove.create({
+        data: {
+          gameId,
+          playerColor: recordMoveDto.playerColor,
+          moveNumber,
+          from: legalMove.from,
+          to: legalMove.to,
+          diceUsed: legalMove.diceUsed,
+          isHit,
+          boardStateBefore,
+          boardStateAfter,
+          timeRemaining: playerColor === 'white' ? whiteTime : blackTime,
+          moveTime: Number.isFinite(lastEventAt) ? Math.max(0, Date.now() - lastEventAt) : null,
+        },
+      });
+
+      // Update game's moveHistory (append move data)
+      const moveData = {
+        moveNumber,
+        player: recordMoveDto.playerColor,
+        from: legalMove.from,
+        to: legalMove.to,
+        dice: legalMove.diceUsed,
+        hit: isHit,
+        timestamp: new Date().toISOString(),
+      };
+
+      // ⏱️ Stored clocks only change on Done / cube hand-over - the running clock is derived from lastDoneAt
+      const updatedGame = await tx.game.update({
+        where: { id: gameId },
+        data: {
+          moveHistory: {
+            push: moveData,
+          },
+          gameState: updatedBoardState,
+        },
+      });
+
+      return { move, moveNumber, updatedGame };
     });
 
     // 📡 Emit move via WebSocket for real-time sync
     this.emitMove(gameId, {
       playerColor: recordMoveDto.playerColor,
-      from: recordMoveDto.from,
-      to: recordMoveDto.to,
-      diceUsed: recordMoveDto.diceUsed,
+      from: legalMove.from,
+      to: legalMove.to,
+      diceUsed: legalMove.diceUsed,
+      isHit,
       boardState: updatedBoardState,
-      moveNumber: recordMoveDto.moveNumber,
+      moveNumber,
     });
     this.emitGameStateUpdate(gameId, updatedGame.gameState);
 
-    // If this is an AI game and player just finished their turn, trigger AI move
-    const shouldTriggerAI = 
-      game.gameType === 'AI' && 
-      recordMoveDto.boardStateAfter && 
-      (recordMoveDto.boardStateAfter as any).currentPlayer === 'black';
-
-    if (shouldTriggerAI) {
-      console.log('🤖 AI\'s turn detected, triggering AI move...');
-      // Trigger AI move in background (non-blocking)
-      setImmediate(async () => {
-        try {
-          await this.makeAIMove(gameId);
-          console.log('✅ AI move completed');
-        } catch (error) {
-          console.error('❌ AI move failed:', error);
-        }
-      });
+    // 🏁 All 15 checkers borne off → set won, decided from the server board only
+    if (boardAfter.off[playerColor] === 15) {
+      const { matchOver, setResult, game: resultGame } = await this.finishSet(
+        game,
+        playerColor,
+        'NORMAL_WIN',
+        updatedBoardState,
+      );
+
+      return {
+        move,
+        gameState: resultGame.gameState,
+        setOver: true,
+        setResult,
+        gameOver: matchOver,
+        game: resultGame,
+      };
     }
 
-    return { move };
+    return { move, gameState: updatedBoardState };
   }
 
+  /**
+   * 🏳️ Resign or abandon a game (the only client-initiated endings)
+   * - The caller always loses; the opponent wins the match
+   * - Normal wins and timeouts are detected by the server itself
+   */
   async endGame(gameId: string, userId: string, endGameDto: EndGameDto) {
     const game = await this.prisma.game.findUnique({
       where: { id: gameId },
-      include: {
-        whitePlayer: true,
-        blackPlayer: true,
-      },
     });
 
     if (!game) {
@@ -536,104 +784,803 @@ export class GameService {
       throw new ForbiddenException('You are not a player in this game');
     }
 
-    // Update game status
-    const updatedGame = await this.prisma.game.update({
-      where: { id: gameId },
-      data: {
-        status: 'COMPLETED',
-        winner: endGameDto.winner,
-        whiteSetsWon: endGameDto.whiteSetsWon,
-        blackSetsWon: endGameDto.blackSetsWon,
-        endReason: endGameDto.endReason || 'NORMAL_WIN',
-        endedAt: new Date(),
-        gameState: endGameDto.finalGameState || game.gameState,
-      },
+    const winner = game.whitePlayerId === userId ? 'BLACK' : 'WHITE';
+    const { whiteTime, blackTime } = this.calculateCurrentTimers(game);
+
+    console.log(`🏳️ [${endGameDto.endReason}] Game ${gameId} - Winner: ${winner}`);
+
+    return this.completeGame(game, {
+      winner,
+      endReason: endGameDto.endReason,
+      whiteSetsWon: winner === 'WHITE' ? game.matchLength : game.whiteSetsWon,
+      blackSetsWon: winner === 'BLACK' ? game.matchLength : game.blackSetsWon,
+      gameState: game.gameState,
+      timers: { white: whiteTime, black: blackTime },
     });
+  }
 
-    // Update user stats for both players
-    const winnerUserId = endGameDto.winner === 'WHITE' ? game.whitePlayerId : game.blackPlayerId;
-    const loserUserId = endGameDto.winner === 'WHITE' ? game.blackPlayerId : game.whitePlayerId;
+  /**
+   * 🏁 A set was won (bear-off or dropped double)
+   * - Result type (single / mars / backgammon) comes from the final board
+   * - Winner reaches matchLength → match completed, otherwise the next set starts automatically
+   */
+  private async finishSet(game: Game, setWinner: PlayerSide, endReason: EndReason, gameState: any) {
+    const cubeValue = this.getCube(gameState).value;
+    const resultType: SetResultType =
+      endReason === 'NORMAL_WIN'
+        ? await this.getScoredResultType(gameState, setWinner)
+        : 'SINGLE'; // Dropped double: set ends at the current cube value
+    const points = await this.calculateSetPoints(resultType, cubeValue);
+    const setStartedAt = new Date(gameState.setStartedAt || game.startedAt || game.createdAt).getTime();
+
+    const setResult: SetResult = {
+      setNumber: game.setHistory.length + 1,
+      winner: setWinner === 'white' ? 'WHITE' : 'BLACK',
+      resultType,
+      cubeValue,
+      points,
+      endReason,
+      durationSeconds: Math.max(0, Math.floor((Date.now() - setStartedAt) / 1000)),
+      endedAt: new Date().toISOString(),
+    };
 
-    // Only update stats for real users (not AI)
-    if (winnerUserId !== this.AI_PLAYER_ID) {
-      await this.updateUserStats(winnerUserId, true, endGameDto.whiteSetsWon + endGameDto.blackSetsWon);
-    }
-    
-    if (loserUserId !== this.AI_PLAYER_ID) {
-      await this.updateUserStats(loserUserId, false, endGameDto.whiteSetsWon + endGameDto.blackSetsWon);
+    const whiteSetsWon = game.whiteSetsWon + (setWinner === 'white' ? points : 0);
+    const blackSetsWon = game.blackSetsWon + (setWinner === 'black' ? points : 0);
+    const winnerScore = setWinner === 'white' ? whiteSetsWon : blackSetsWon;
+
+    console.log(
+      `🏆 Set ${setResult.setNumber} won by ${setWinner} (${endReason}, ${resultType}) - ${points} point(s), ` +
+        `score ${whiteSetsWon}-${blackSetsWon} / ${game.matchLength}`,
+    );
+
+    if (winnerScore < game.matchLength) {
+      const nextSetGame = await this.startNextSet(game, setWinner, setResult, whiteSetsWon, blackSetsWon, gameState);
+      return { matchOver: false, setResult, game: nextSetGame };
     }
 
-    // 📡 Emit game end via WebSocket
-    this.emitGameEnd(gameId, {
-      winner: endGameDto.winner,
-      endReason: endGameDto.endReason || 'NORMAL_WIN',
-      gameState: updatedGame.gameState,
-      whiteSetsWon: endGameDto.whiteSetsWon,
-      blackSetsWon: endGameDto.blackSetsWon,
+    const { whiteTime, blackTime } = this.calculateCurrentTimers(game);
+    const completedGame = await this.completeGame(game, {
+      winner: setResult.winner,
+      endReason,
+      whiteSetsWon,
+      blackSetsWon,
+      gameState,
+      timers: { white: whiteTime, black: blackTime },
+      setResult,
     });
 
-    return updatedGame;
+    return { matchOver: true, setResult, game: completedGame };
   }
 
   /**
-   * 🎲 Roll dice for a game
-   * ⚠️ IMPORTANT: This only RETURNS dice, does NOT save to database!
-   * Database is only updated when Done button is pressed (endTurn)
+   * ⏱️ Start the next set of a match (server-driven, no client input)
+   * - Fresh board, centered cube, both timers reset to full time
+   * - Set winner starts: gets new dice and their clock runs (loser "pressed Done")
+   * - 🔒 Recorded once: guarded on the score the set was scored from (a second finisher gets 409)
    */
-  async rollDiceForGame(gameId: string) {
-    const game = await this.prisma.game.findUnique({
-      where: { id: gameId },
-    });
+  private async startNextSet(
+    game: Game,
+    setWinner: PlayerSide,
+    setResult: SetResult,
+    whiteSetsWon: number,
+    blackSetsWon: number,
+    gameState: any,
+  ) {
+    const loser = this.rulesEngine.opponentOf(setWinner);
+    const now = new Date().toISOString();
+    const timeControl = game.timeControl || 1800;
 
-    if (!game) {
-      throw new NotFoundException('Game not found');
-    }
+    const updatedGameState = {
+      ...gameState,
+      ...this.createInitialBoard(),
+      currentPlayer: setWinner,
+      phase: 'waiting',
+      diceValues: [],
+      currentTurnDice: null,
+      remainingDice: [],
+      cube: { value: 1, owner: null, offer: null }, // 🎲 Cube is centered again every set
+      setStartedAt: now,
+      nextRoll: { white: null, black: null },
+      nextDiceRoll: null,
 
-    // 🏁 Don't roll dice if game is finished
-    if (game.status === 'COMPLETED' || game.winner) {
-      throw new BadRequestException('Game has ended - cannot roll dice');
-    }
+      // ⏱️ CRITICAL: Reset timer tracking
+      lastDoneBy: loser, // Winner's timer starts (loser "pressed Done")
+      lastDoneAt: now,
+      turnCompleted: false,
+    };
 
-    const gameState = game.gameState as any;
-    const currentPlayer = gameState.currentPlayer;
-    
-    // 🎲 OPENING PHASE: Return pre-generated opening dice
-    if (gameState.phase === 'opening') {
-      const openingDice = currentPlayer === 'white' ? game.openingDiceWhite : game.openingDiceBlack;
-      if (openingDice) {
-        console.log(`\n📤 [FRONTEND] Sending opening dice for ${currentPlayer}: [${openingDice}]`);
-        return {
-          dice: [openingDice],
-          source: 'opening-pregenerated',
-          timestamp: new Date().toISOString(),
-          message: 'Opening roll dice'
-        };
+    // 🎲 Winner's dice are drawn only once the set is recorded (same transaction)
+    const newDice = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.game.updateMany({
+        where: {
+          id: game.id,
+          status: 'ACTIVE',
+          whiteSetsWon: game.whiteSetsWon,
+          blackSetsWon: game.blackSetsWon,
+        },
+        data: {
+          gameState: updatedGameState,
+          whiteSetsWon,
+          blackSetsWon,
+          setHistory: { push: setResult as any },
+          // ⏱️ Reset timers to full time
+          whiteTimeRemaining: timeControl,
+          blackTimeRemaining: timeControl,
+          whiteHasDiceRolled: false,
+          blackHasDiceRolled: false,
+        },
+      });
+
+      if (count === 0) {
+        throw new ConflictException('Set is already finished');
       }
-    }
 
-    // 🔒 PRIORITY 1: If turn not completed and dice exist, return SAME dice
-    // This handles REFRESH scenario - user rolled but didn't press Done yet
-    if (
-      gameState.turnCompleted === false && 
-      gameState.currentTurnDice && 
-      Array.isArray(gameState.currentTurnDice) &&
-      gameState.currentTurnDice.length === 2
-    ) {
-      console.log(`🔒 [${currentPlayer}] Turn not completed! Returning SAME dice (REFRESH):`, gameState.currentTurnDice);
-      console.log(`📋 nextRoll unchanged:`, JSON.stringify(gameState.nextRoll || {}));
-      
-      return {
-        dice: gameState.currentTurnDice,
-        source: 'current-turn-refresh',
-        timestamp: new Date().toISOString(),
-        message: 'Returning same dice after page refresh',
+      const newDice = await this.generateDice(game.id, tx);
+      updatedGameState.nextRoll = {
+        white: setWinner === 'white' ? newDice : null,
+        black: setWinner === 'black' ? newDice : null,
       };
+      updatedGameState.nextDiceRoll = newDice;
+
+      await tx.game.update({ where: { id: game.id }, data: { gameState: updatedGameState } });
+
+      return newDice;
+    });
+
+    console.log(`🎲 Set ${setResult.setNumber + 1} started - ${setWinner} rolls first:`, newDice);
+
+    // 📡 Emit set end, new board and reset timers via WebSocket
+    this.emitSetEnd(game.id, { setResult, whiteSetsWon, blackSetsWon, matchLength: game.matchLength });
+    this.emitGameStateUpdate(game.id, updatedGameState);
+    this.emitTimerUpdate(game.id, { white: timeControl, black: timeControl });
+    this.scheduleAITurnIfDue(game, setWinner);
+
+    return this.prisma.game.findUniqueOrThrow({
+      where: { id: game.id },
+      include: {
+        whitePlayer: true,
+        blackPlayer: true,
+      },
+    });
+  }
+
+  /**
+   * 🏆 Set result type from the board, limited by game.mars_enabled / game.backgammon_enabled
+   */
+  private async getScoredResultType(gameState: any, setWinner: PlayerSide): Promise<SetResultType> {
+    const boardType = this.rulesEngine.getSetResultType(this.rulesEngine.fromGameState(gameState), setWinner);
+
+    if (boardType === 'SINGLE' || !(await this.isSettingEnabled('game.mars_enabled'))) {
+      return 'SINGLE';
     }
 
-    // 🎲 PRIORITY 2: Check if current player has nextRoll (ONLY if phase is 'waiting' AND no currentTurnDice)
-    // This ensures nextRoll is used ONLY ONCE (when player first rolls after Done)
-    const playerNextRoll = gameState.nextRoll?.[currentPlayer];
-    if (
+    if (boardType === 'BACKGAMMON' && !(await this.isSettingEnabled('game.backgammon_enabled'))) {
+      return 'MARS';
+    }
+
+    return boardType;
+  }
+
+  /**
+   * 🏆 Points for a set: result multiplier (1 / 2 / 3) x cube value
+   * With game.mars_applies_on_doubled = false, a doubled set only scores the cube value
+   */
+  private async calculateSetPoints(resultType: SetResultType, cubeValue: number): Promise<number> {
+    const multipliers: Record<SetResultType, number> = { SINGLE: 1, MARS: 2, BACKGAMMON: 3 };
+    let multiplier = multipliers[resultType];
+
+    if (cubeValue > 1 && multiplier > 1 && !(await this.isSettingEnabled('game.mars_applies_on_doubled'))) {
+      multiplier = 1;
+    }
+
+    return multiplier * cubeValue;
+  }
+
+  /**
+   * 🏁 Persist a server-decided result and update both players' stats
+   * - ACTIVE → COMPLETED happens exactly once (a concurrent second call gets 400)
+   * - A last set result only counts against the score it was scored from
+   * - Bet games: pot is paid to the winner in the same transaction
+   * - AI player never gets stats
+   * - Elo only for ONLINE games between two humans (bot-fallback games keep ratings as they are)
+   */
+  private async completeGame(game: Game, result: GameResult) {
+    // 💰 Result and bet payout are committed together
+    await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.game.updateMany({
+        where: {
+          id: game.id,
+          status: 'ACTIVE',
+          ...(result.setResult && {
+            whiteSetsWon: game.whiteSetsWon,
+            blackSetsWon: game.blackSetsWon,
+          }),
+        },
+        data: {
+          status: 'COMPLETED',
+          winner: result.winner,
+          whiteSetsWon: result.whiteSetsWon,
+          blackSetsWon: result.blackSetsWon,
+          endReason: result.endReason,
+          endedAt: new Date(),
+          gameState: result.gameState,
+          ...(result.timers && {
+            whiteTimeRemaining: result.timers.white,
+            blackTimeRemaining: result.timers.black,
+          }),
+          ...(result.setResult && {
+            setHistory: { push: result.setResult as any },
+          }),
+        },
+      });
+
+      if (count === 0) {
+        throw new BadRequestException('Game is already ended');
+      }
+
+      await this.betEscrow.settle(tx, game, result.winner);
+    });
+
+    const isWhiteWinner = result.winner === 'WHITE';
+    const winnerUserId = isWhiteWinner ? game.whitePlayerId : game.blackPlayerId;
+    const loserUserId = isWhiteWinner ? game.blackPlayerId : game.whitePlayerId;
+    const winnerSets = isWhiteWinner ? result.whiteSetsWon : result.blackSetsWon;
+    const loserSets = isWhiteWinner ? result.blackSetsWon : result.whiteSetsWon;
+
+    // Only update stats for real users (not AI)
+    if (winnerUserId !== this.AI_PLAYER_ID) {
+      await this.updateUserStats(winnerUserId, true, winnerSets, loserSets);
+    }
+
+    if (loserUserId !== this.AI_PLAYER_ID) {
+      await this.updateUserStats(loserUserId, false, loserSets, winnerSets);
+    }
+
+    // 🚪 Abandonments are counted separately (feed matchmaking penalties)
+    if (result.endReason === 'ABANDONMENT' && loserUserId !== this.AI_PLAYER_ID) {
+      await this.prisma.userStats.updateMany({
+        where: { userId: loserUserId },
+        data: { gamesAbandoned: { increment: 1 } },
+      });
+    }
+
+    // 📈 Elo ratings move only in human vs human games (not against a matchmaking bot seat)
+    if (game.gameType === 'ONLINE' && !this.aiTurnService.getAISeat(game)) {
+      await this.updateRatings(winnerUserId, loserUserId);
+    }
+
+    console.log(`🏁 Game ${game.id} completed - Winner: ${result.winner} (${result.endReason})`);
+
+    // 📡 Emit game end via WebSocket
+    this.emitGameEnd(game.id, {
+      winner: result.winner,
+      endReason: result.endReason,
+      // 🔐 Game over → server seed revealed (verify via GET /game/:id/fairness)
+      revealedServerSeed: game.serverSeed,
+      gameState: result.gameState,
+      whiteSetsWon: result.whiteSetsWon,
+      blackSetsWon: result.blackSetsWon,
+      setResult: result.setResult,
+      ...(result.timers && {
+        whiteTimeRemaining: result.timers.white,
+        blackTimeRemaining: result.timers.black,
+      }),
+    });
+
+    return this.prisma.game.findUniqueOrThrow({
+      where: { id: game.id },
+      include: {
+        whitePlayer: true,
+        blackPlayer: true,
+      },
+    });
+  }
+
+  /**
+   * 🚫 Cancel a game (admin only)
+   * - WAITING / ACTIVE → CANCELLED with ADMIN_CANCELLED reason, no winner, no stats
+   * - Bet games: both stakes are refunded in the same transaction
+   */
+  async cancelGame(gameId: string, adminId: string) {
+    const game = await this.prisma.game.findUnique({
+      where: { id: gameId },
+    });
+
+    if (!game) {
+      throw new NotFoundException('Game not found');
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.game.updateMany({
+        where: { id: gameId, status: { in: ['WAITING', 'ACTIVE'] } },
+        data: {
+          status: 'CANCELLED',
+          endReason: 'ADMIN_CANCELLED',
+          endedAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        throw new BadRequestException('Game is already ended');
+      }
+
+      await this.betEscrow.refund(tx, game);
+    });
+
+    console.log(`🚫 Game ${gameId} cancelled by admin ${adminId}`);
+
+    // 📡 Emit game end via WebSocket
+    this.emitGameEnd(gameId, {
+      winner: null,
+      endReason: 'ADMIN_CANCELLED',
+      gameState: game.gameState,
+    });
+
+    return this.prisma.game.findUniqueOrThrow({
+      where: { id: gameId },
+    });
+  }
+
+  // ========================================================================
+  // 🎲 Doubling Cube
+  // ========================================================================
+
+  /**
+   * 🎲 Offer a double
+   * - Only on your own turn, before rolling (phase 'waiting', no dice yet)
+   * - Centered cube: either player; owned cube: only its owner
+   * - AI games: the AI answers right away (aiAnswer: take / drop with its reasoning)
+   * - ⏱️ The answerer's clock runs until they answer (an unanswered double times out)
+   */
+  async offerDouble(gameId: string, userId: string) {
+    const { game, gameState, playerColor } = await this.getCubeContext(gameId, userId);
+    const cube = this.getCube(gameState);
+
+    if (gameState.currentPlayer !== playerColor) {
+      throw new BadRequestException('Not your turn');
+    }
+
+    const hasRolled = Array.isArray(gameState.currentTurnDice) && gameState.currentTurnDice.length > 0;
+    if (gameState.phase !== 'waiting' || hasRolled) {
+      throw new BadRequestException('You can only double before rolling');
+    }
+
+    if (cube.offer) {
+      throw new BadRequestException('A double is already pending');
+    }
+
+    if (cube.owner && cube.owner !== playerColor) {
+      throw new BadRequestException('You do not own the cube');
+    }
+
+    // 💰 Bet games: the offerer must be able to cover the raised stake
+    if (game.betAmount) {
+      const stats = await this.prisma.userStats.findUnique({ where: { userId } });
+      const extra = this.betEscrow.extraStake(game, game.escrowedStake, cube.value * 2);
+      if (!stats || stats.balance.lessThan(extra)) {
+        throw new BadRequestException('Insufficient balance to double');
+      }
+    }
+
+    const updatedCube: DoublingCube = {
+      ...cube,
+      offer: { from: playerColor, value: cube.value * 2, offeredAt: new Date().toISOString() },
+    };
+
+    console.log(`🎲 [${playerColor}] offers double: ${cube.value} → ${cube.value * 2}`);
+
+    const result = await this.saveCube(game, gameState, updatedCube, 'offered');
+
+    // 🤖 AI / bot games: the engine answers right away
+    const aiSeat = this.aiTurnService.getAISeat(game);
+    if (aiSeat && userId !== aiSeat.userId) {
+      return { ...result, aiAnswer: await this.answerAIDouble(gameId) };
+    }
+
+    return result;
+  }
+
+  /**
+   * 🎲 Accept (take) a pending double
+   * - Cube value doubles and the taker owns the cube
+   * - Bet games: both stakes are raised in the same transaction
+   */
+  async acceptDouble(gameId: string, userId: string) {
+    const { game, gameState, playerColor } = await this.getCubeContext(gameId, userId);
+    const cube = this.getCube(gameState);
+
+    if (!cube.offer || cube.offer.from === playerColor) {
+      throw new BadRequestException('No double to accept');
+    }
+
+    const updatedCube: DoublingCube = { value: cube.offer.value, owner: playerColor, offer: null };
+
+    console.log(`🎲 [${playerColor}] takes - cube is now ${updatedCube.value}`);
+
+    const result = await this.saveCube(game, gameState, updatedCube, 'accepted', (tx) =>
+      this.betEscrow.raiseStakes(tx, game, updatedCube.value),
+    );
+
+    // 🤖 The AI doubled and was taken - it goes on with its roll
+    this.scheduleAITurnIfDue(game, cube.offer.from);
+
+    return result;
+  }
+
+  /**
+   * 🎲 Drop (refuse) a pending double
+   * - The offerer wins the set at the current (not doubled) cube value
+   * - Match continues with the next set unless that reaches matchLength
+   */
+  async dropDouble(gameId: string, userId: string) {
+    const { game, gameState, playerColor } = await this.getCubeContext(gameId, userId);
+    const cube = this.getCube(gameState);
+
+    if (!cube.offer || cube.offer.from === playerColor) {
+      throw new BadRequestException('No double to drop');
+    }
+
+    const updatedCube: DoublingCube = { ...cube, offer: null };
+    const updatedGameState = { ...gameState, cube: updatedCube };
+
+    console.log(`🎲 [${playerColor}] drops - ${cube.offer.from} wins ${cube.value} point(s)`);
+
+    // 🔒 Drop only while that very offer is pending (a concurrent take can't also win)
+    // 📼 Recorded before the set ends (replay / export place it in this set)
+    const { count } = await this.prisma.game.updateMany({
+      where: {
+        id: gameId,
+        status: 'ACTIVE',
+        gameState: { path: ['cube', 'offer', 'offeredAt'], equals: cube.offer.offeredAt },
+      },
+      data: {
+        gameState: updatedGameState,
+        moveHistory: { push: this.createCubeRecord('drop', playerColor, cube.offer.value) },
+      },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('No double to drop');
+    }
+
+    this.emitCubeUpdate(gameId, 'dropped', updatedCube);
+
+    const { matchOver, setResult, game: resultGame } = await this.finishSet(
+      game,
+      cube.offer.from,
+      'DOUBLE_DROPPED',
+      updatedGameState,
+    );
+
+    return { cube: updatedCube, setResult, gameOver: matchOver, game: resultGame };
+  }
+
+  /**
+   * 📼 Cube action entry for Game.moveHistory (replay and MAT / SGF export)
+   */
+  private createCubeRecord(action: 'double' | 'take' | 'drop', player: PlayerSide, value: number) {
+    return {
+      type: 'cube',
+      action,
+      player: player.toUpperCase(),
+      value,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * 📼 AI cube reasoning for Game.moveHistory (later analysis - replay and export skip it)
+   */
+  private createAICubeDecisionRecord(
+    player: PlayerSide,
+    cubeValue: number,
+    engine: string,
+    decision: CubeDecision,
+  ) {
+    return {
+      type: 'ai_cube',
+      player: player.toUpperCase(),
+      cubeValue,
+      engine,
+      ...decision,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * 🤖🎲 Before its roll the AI may double - the human then answers with accept / drop
+   * Returns null when the AI goes on with its roll (called by AITurnService)
+   */
+  async offerAIDouble(gameId: string) {
+    const game = await this.prisma.game.findUnique({ where: { id: gameId } });
+
+    // Not an active AI / bot game - nothing to decide
+    const aiSeat = game && this.aiTurnService.getAISeat(game);
+    if (!game || !aiSeat || game.status !== 'ACTIVE') {
+      return null;
+    }
+
+    const gameState = game.gameState as any;
+    const cube = this.getCube(gameState);
+    const { board, aiColor, engine, context } = await this.getAICubeContext(game);
+
+    if (cube.offer) {
+      throw new BadRequestException(
+        cube.offer.from === aiColor
+          ? 'Waiting for the answer to the double'
+          : 'The AI has not answered the double yet',
+      );
+    }
+
+    const hasRolled =
+      Array.isArray(gameState.currentTurnDice) && gameState.currentTurnDice.length > 0;
+    if (gameState.currentPlayer !== aiColor || gameState.phase !== 'waiting' || hasRolled) {
+      return null;
+    }
+
+    const cubeAvailable = !cube.owner || cube.owner === aiColor;
+    if (!cubeAvailable || !(await this.isSettingEnabled('game.double_enabled'))) {
+      return null;
+    }
+
+    const decision = await engine.shouldDouble(board, context);
+    await this.logAICubeDecision(gameId, aiColor, cube.value, engine.name, decision);
+
+    if (decision.action !== 'double') {
+      return null;
+    }
+
+    const offer = await this.offerDouble(gameId, aiSeat.userId);
+    return { ...offer, aiDecision: decision, waitingForAnswer: true };
+  }
+
+  /**
+   * 🤖🎲 The AI takes or drops the double the human just offered
+   */
+  private async answerAIDouble(gameId: string) {
+    const game = await this.prisma.game.findUnique({ where: { id: gameId } });
+    if (!game) {
+      throw new NotFoundException('Game not found');
+    }
+
+    const cube = this.getCube(game.gameState);
+    const { board, aiColor, aiUserId, engine, context } = await this.getAICubeContext(game);
+
+    // board.currentPlayer = the human who doubled
+    const decision = await engine.shouldTake(
+      { ...board, currentPlayer: this.rulesEngine.opponentOf(aiColor) },
+      context,
+    );
+    await this.logAICubeDecision(gameId, aiColor, cube.value, engine.name, decision);
+
+    const result =
+      decision.action === 'take'
+        ? await this.acceptDouble(gameId, aiUserId)
+        : await this.dropDouble(gameId, aiUserId);
+
+    return { decision, ...result };
+  }
+
+  /**
+   * AI side, engine and cube context of an AI / bot game
+   */
+  private async getAICubeContext(game: Game) {
+    const gameState = game.gameState as any;
+    const cube = this.getCube(gameState);
+    const { color: aiColor, userId: aiUserId } = this.aiTurnService.getAISeat(game)!;
+    const difficulty = (game.aiDifficulty || gameState.aiDifficulty || 'MEDIUM') as AIDifficulty;
+
+    const context: CubeContext = {
+      player: aiColor,
+      cubeValue: cube.value,
+      cubeOwner: cube.owner,
+      matchLength: game.matchLength,
+      score: { white: game.whiteSetsWon, black: game.blackSetsWon },
+      difficulty,
+      random: game.aiSeed ? createSeededRandom(game.aiSeed, `cube:${game.diceNonce}`) : undefined,
+    };
+
+    return {
+      board: this.rulesEngine.fromGameState(gameState),
+      aiColor,
+      aiUserId,
+      engine: await this.aiEngineRegistry.forGame(game, difficulty),
+      context,
+    };
+  }
+
+  private async logAICubeDecision(
+    gameId: string,
+    aiColor: PlayerSide,
+    cubeValue: number,
+    engine: string,
+    decision: CubeDecision,
+  ) {
+    console.log(`🤖🎲 [AI ${aiColor}] ${decision.action}: ${decision.reason}`);
+
+    await this.prisma.game.updateMany({
+      where: { id: gameId, status: 'ACTIVE' },
+      data: {
+        moveHistory: {
+          push: this.createAICubeDecisionRecord(aiColor, cubeValue, engine, decision),
+        },
+      },
+    });
+  }
+
+  /**
+   * Load an active, cube-enabled game and the caller's color
+   */
+  private async getCubeContext(gameId: string, userId: string) {
+    const game = await this.prisma.game.findUnique({
+      where: { id: gameId },
+    });
+
+    if (!game) {
+      throw new NotFoundException('Game not found');
+    }
+
+    if (game.status !== 'ACTIVE') {
+      throw new BadRequestException('Game is not active');
+    }
+
+    if (game.whitePlayerId !== userId && game.blackPlayerId !== userId) {
+      throw new ForbiddenException('You are not a player in this game');
+    }
+
+    const doubleSetting = await this.settingsService.getGameSetting('game.double_enabled');
+    if (doubleSetting?.value !== 'true') {
+      throw new BadRequestException('Doubling is disabled');
+    }
+
+    const playerColor: PlayerSide = game.whitePlayerId === userId ? 'white' : 'black';
+
+    return { game, gameState: game.gameState as any, playerColor };
+  }
+
+  /**
+   * Persist a cube change (optionally with bet escrow work in the same transaction) and broadcast it
+   * ⏱️ Offer → the answerer's clock runs until they answer; take → back to the offerer
+   */
+  private async saveCube(
+    game: Game,
+    gameState: any,
+    cube: DoublingCube,
+    action: 'offered' | 'accepted',
+    escrowStep?: (tx: Prisma.TransactionClient) => Promise<void>,
+  ) {
+    const pendingOffer = this.getCube(gameState).offer;
+    const cubeRecord = cube.offer
+      ? this.createCubeRecord('double', cube.offer.from, cube.offer.value)
+      : this.createCubeRecord('take', cube.owner as PlayerSide, cube.value);
+    const clockTo = cube.offer
+      ? this.rulesEngine.opponentOf(cube.offer.from)
+      : this.rulesEngine.opponentOf(cube.owner as PlayerSide);
+    const clock = this.handOverClock(game, { ...gameState, cube }, clockTo);
+
+    const updatedGame = await this.prisma.$transaction(async (tx) => {
+      // 🔒 A take only goes through while that very offer is pending (a concurrent drop can't also win)
+      const { count } = await tx.game.updateMany({
+        where: {
+          id: game.id,
+          status: 'ACTIVE',
+          ...(action === 'accepted' && {
+            gameState: { path: ['cube', 'offer', 'offeredAt'], equals: pendingOffer?.offeredAt },
+          }),
+        },
+        data: { gameState: clock.gameState, ...clock.timers, moveHistory: { push: cubeRecord } },
+      });
+
+      if (count === 0) {
+        throw new BadRequestException(
+          action === 'accepted' ? 'No double to accept' : 'Game is not active',
+        );
+      }
+
+      if (escrowStep) {
+        await escrowStep(tx);
+      }
+
+      return tx.game.findUniqueOrThrow({ where: { id: game.id } });
+    });
+
+    this.emitCubeUpdate(game.id, action, cube);
+    this.emitGameStateUpdate(game.id, updatedGame.gameState);
+
+    return {
+      cube,
+      game: {
+        id: updatedGame.id,
+        gameState: updatedGame.gameState,
+        status: updatedGame.status,
+      },
+    };
+  }
+
+  /**
+   * ⏱️ Start `color`'s clock now - the time the other side used is banked in the stored clocks
+   * (same trick as the opening roll: the opponent "pressed Done")
+   */
+  private handOverClock(game: Game, gameState: any, color: PlayerSide) {
+    const { whiteTime, blackTime } = this.calculateCurrentTimers(game);
+
+    return {
+      gameState: {
+        ...gameState,
+        lastDoneBy: this.rulesEngine.opponentOf(color),
+        lastDoneAt: new Date().toISOString(),
+      },
+      timers: { whiteTimeRemaining: whiteTime, blackTimeRemaining: blackTime },
+    };
+  }
+
+  /**
+   * 🎲 Roll dice for a game
+   * ⚠️ IMPORTANT: This only RETURNS dice, does NOT save to database!
+   * Database is only updated when Done button is pressed (endTurn)
+   * 🔒 Only the player on turn rolls (the AI seat is rolled by AITurnService)
+   */
+  async rollDiceForGame(gameId: string, userId: string) {
+    const game = await this.prisma.game.findUnique({
+      where: { id: gameId },
+    });
+
+    if (!game) {
+      throw new NotFoundException('Game not found');
+    }
+
+    if (game.whitePlayerId !== userId && game.blackPlayerId !== userId) {
+      throw new ForbiddenException('Not a player in this game');
+    }
+
+    const rollerColor: PlayerSide = game.whitePlayerId === userId ? 'white' : 'black';
+    if ((game.gameState as any).currentPlayer !== rollerColor) {
+      throw new BadRequestException('Not your turn');
+    }
+
+    // 🏁 Don't roll dice if game is finished
+    if (game.status === 'COMPLETED' || game.winner) {
+      throw new BadRequestException('Game has ended - cannot roll dice');
+    }
+
+    const gameState = game.gameState as any;
+    const currentPlayer = gameState.currentPlayer;
+
+    // 🎲 No rolling while a double is waiting for an answer
+    if (this.getCube(gameState).offer) {
+      throw new BadRequestException('Waiting for the double to be accepted or dropped');
+    }
+    
+    // 🎲 OPENING PHASE: The server plays the opening roll (playOpeningRoll) - no dice before it
+    if (gameState.phase === 'opening') {
+      throw new BadRequestException('Opening roll has not been played yet');
+    }
+
+    // 🔒 PRIORITY 1: If turn not completed and dice exist, return SAME dice
+    // This handles REFRESH scenario - user rolled but didn't press Done yet
+    if (
+      gameState.turnCompleted === false && 
+      gameState.currentTurnDice && 
+      Array.isArray(gameState.currentTurnDice) &&
+      gameState.currentTurnDice.length === 2
+    ) {
+      console.log(
+        `🔒 [${currentPlayer}] Turn not completed! Returning SAME dice (REFRESH):`,
+        gameState.currentTurnDice,
+      );
+      
+      return {
+        dice: gameState.currentTurnDice,
+        source: 'current-turn-refresh',
+        timestamp: new Date().toISOString(),
+        message: 'Returning same dice after page refresh',
+      };
+    }
+
+    // 🎲 PRIORITY 2: Check if current player has nextRoll (ONLY if phase is 'waiting' AND no currentTurnDice)
+    // This ensures nextRoll is used ONLY ONCE (when player first rolls after Done)
+    const playerNextRoll = gameState.nextRoll?.[currentPlayer];
+    if (
       gameState.phase === 'waiting' &&
       playerNextRoll && 
       Array.isArray(playerNextRoll) && 
@@ -641,40 +1588,34 @@ export class GameService {
       (!gameState.currentTurnDice || gameState.currentTurnDice.length === 0)
     ) {
       console.log(`🎲 [${currentPlayer}] Using nextRoll (FIRST ROLL after Done):`, playerNextRoll);
-      console.log(`📋 nextRoll BEFORE use:`, JSON.stringify(gameState.nextRoll));
-      console.log(`⏱️ [BEFORE LOCK] gameState.lastDoneBy:`, gameState.lastDoneBy);
-      console.log(`⏱️ [BEFORE LOCK] gameState.lastDoneAt:`, gameState.lastDoneAt);
       
       const dice = playerNextRoll;
       
       // ✅ CRITICAL: Save currentTurnDice so refresh returns same dice!
-      await this.prisma.game.update({
-        where: { id: gameId },
-        data: {
-          gameState: {
-            ...gameState,
-            currentTurnDice: dice,
-            turnCompleted: false,
-            lastDoneBy: gameState.lastDoneBy,
-            lastDoneAt: gameState.lastDoneAt,
+      // 🔒 Only if nothing changed since the read (see claimGameVersion)
+      const updatedGame = await this.prisma.$transaction(async (tx) => {
+        await this.claimGameVersion(tx, game);
+
+        return tx.game.update({
+          where: { id: gameId },
+          data: {
+            gameState: {
+              ...gameState,
+              currentTurnDice: dice,
+              remainingDice: this.rulesEngine.expandDice(dice),
+              turnCompleted: false,
+              lastDoneBy: gameState.lastDoneBy,
+              lastDoneAt: gameState.lastDoneAt,
+            },
+            whiteHasDiceRolled: currentPlayer === 'white',
+            blackHasDiceRolled: currentPlayer === 'black',
+            currentDiceValues: dice,
           },
-          whiteHasDiceRolled: currentPlayer === 'white',
-          blackHasDiceRolled: currentPlayer === 'black',
-          currentDiceValues: dice,
-        },
+        });
       });
-      
-      console.log(`✅ [${currentPlayer}] Dice locked as currentTurnDice for refresh protection`);
-      console.log(`⏱️ [AFTER LOCK] Saved to DB with lastDoneBy:`, gameState.lastDoneBy);
-      
-      // 🔍 DEBUG: Read back from DB to verify
-      const verifyGame = await this.prisma.game.findUnique({ where: { id: gameId } });
-      console.log(`🔍 [VERIFY] Read from DB - lastDoneBy:`, (verifyGame?.gameState as any)?.lastDoneBy);
-      
+
       // 📡 Emit dice roll via WebSocket
-      if (verifyGame) {
-        this.emitGameStateUpdate(gameId, verifyGame.gameState);
-      }
+      this.emitGameStateUpdate(gameId, updatedGame.gameState);
       
       return {
         dice,
@@ -687,8 +1628,6 @@ export class GameService {
     // 🎲 PRIORITY 2.5: Check nextDiceRoll (compatibility with old system)
     else if (gameState.nextDiceRoll && Array.isArray(gameState.nextDiceRoll) && gameState.nextDiceRoll.length === 2) {
       console.log(`🎲 [${currentPlayer}] Using nextDiceRoll:`, gameState.nextDiceRoll);
-      console.log(`⏱️ [BEFORE LOCK] gameState.lastDoneBy:`, gameState.lastDoneBy);
-      console.log(`⏱️ [BEFORE LOCK] gameState.lastDoneAt:`, gameState.lastDoneAt);
       
       const dice = gameState.nextDiceRoll as [number, number];
       
@@ -700,28 +1639,26 @@ export class GameService {
       const updatedState = {
         ...gameState,
         currentTurnDice: dice,
+        remainingDice: this.rulesEngine.expandDice(dice),
         turnCompleted: false,
         lastDoneBy: preservedLastDoneBy,
         lastDoneAt: preservedLastDoneAt,
       };
       
-      await this.prisma.game.update({
-        where: { id: gameId },
-        data: {
-          gameState: updatedState,
-          whiteHasDiceRolled: currentPlayer === 'white',
-          blackHasDiceRolled: currentPlayer === 'black',
-          currentDiceValues: dice,
-        },
+      await this.prisma.$transaction(async (tx) => {
+        await this.claimGameVersion(tx, game);
+
+        await tx.game.update({
+          where: { id: gameId },
+          data: {
+            gameState: updatedState,
+            whiteHasDiceRolled: currentPlayer === 'white',
+            blackHasDiceRolled: currentPlayer === 'black',
+            currentDiceValues: dice,
+          },
+        });
       });
-      
-      console.log(`✅ [${currentPlayer}] Dice locked as currentTurnDice for refresh protection`);
-      console.log(`⏱️ [AFTER LOCK] Saved to DB with lastDoneBy:`, gameState.lastDoneBy);
-      
-      // 🔍 DEBUG: Read back from DB to verify
-      const verifyGame = await this.prisma.game.findUnique({ where: { id: gameId } });
-      console.log(`🔍 [VERIFY] Read from DB - lastDoneBy:`, (verifyGame?.gameState as any)?.lastDoneBy);
-      
+
       return {
         dice,
         source: 'nextDiceRoll',
@@ -732,29 +1669,33 @@ export class GameService {
     
     else {
       // 🆕 FALLBACK: Generate new dice (for opening phase or first turn)
-      const dice = this.generateDice();
-      console.log(`🎲 [${currentPlayer}] No nextRoll/nextDiceRoll found, generating new:`, dice);
-      console.log(`📋 nextRoll:`, JSON.stringify(gameState.nextRoll || {}));
-      console.log(`📋 nextDiceRoll:`, JSON.stringify(gameState.nextDiceRoll || null));
-
-      // ✅ CRITICAL: Save currentTurnDice so refresh returns same dice!
-      await this.prisma.game.update({
-        where: { id: gameId },
-        data: {
-          gameState: {
-            ...gameState,
-            currentTurnDice: dice,
-            turnCompleted: false,
-            lastDoneBy: gameState.lastDoneBy,
-            lastDoneAt: gameState.lastDoneAt,
+      // 🔒 Claimed first - two rolls at once can't draw two different pairs
+      const dice = await this.prisma.$transaction(async (tx) => {
+        await this.claimGameVersion(tx, game);
+
+        const dice = await this.generateDice(gameId, tx);
+        console.log(`🎲 [${currentPlayer}] No nextRoll/nextDiceRoll found, generating new:`, dice);
+
+        // ✅ CRITICAL: Save currentTurnDice so refresh returns same dice!
+        await tx.game.update({
+          where: { id: gameId },
+          data: {
+            gameState: {
+              ...gameState,
+              currentTurnDice: dice,
+              remainingDice: this.rulesEngine.expandDice(dice),
+              turnCompleted: false,
+              lastDoneBy: gameState.lastDoneBy,
+              lastDoneAt: gameState.lastDoneAt,
+            },
+            whiteHasDiceRolled: currentPlayer === 'white',
+            blackHasDiceRolled: currentPlayer === 'black',
+            currentDiceValues: dice,
           },
-          whiteHasDiceRolled: currentPlayer === 'white',
-          blackHasDiceRolled: currentPlayer === 'black',
-          currentDiceValues: dice,
-        },
+        });
+
+        return dice;
       });
-      
-      console.log(`✅ [${currentPlayer}] Generated dice locked as currentTurnDice for refresh protection`);
 
       return {
         dice,
@@ -780,51 +1721,53 @@ export class GameService {
       throw new NotFoundException('Game not found');
     }
 
-    const AI_PLAYER_ID = '00000000-0000-0000-0000-000000000000';
-    const isAIGame = game.gameType === 'AI';
-    
-    // Verify user is a player (skip for AI games since frontend calls this for AI)
-    if (!isAIGame && game.whitePlayerId !== userId && game.blackPlayerId !== userId) {
+    // Verify user is a player (AI games: the AI seat's Done comes from AITurnService)
+    if (game.whitePlayerId !== userId && game.blackPlayerId !== userId) {
       throw new ForbiddenException('Not a player in this game');
     }
 
+    // 🏁 No Done (and no new dice) once the game is over
+    if (game.status !== 'ACTIVE') {
+      throw new BadRequestException('Game is not active');
+    }
+
     const gameState = game.gameState as any;
     const currentPlayer = gameState.currentPlayer;
 
+    if (this.getCube(gameState).offer) {
+      throw new BadRequestException('Waiting for the double to be accepted or dropped');
+    }
+
     // Verify it's this player's turn
-    // For AI games: determine player color (human is opposite of AI)
-    let playerColor: 'white' | 'black';
-    
-    if (isAIGame) {
-      const isWhiteAI = game.whitePlayerId === AI_PLAYER_ID;
-      playerColor = currentPlayer; // In AI game, whoever's turn it is can call Done
-    } else {
-      const isWhitePlayer = game.whitePlayerId === userId;
-      playerColor = isWhitePlayer ? 'white' : 'black';
-      
-      if (currentPlayer !== playerColor) {
-        throw new BadRequestException('Not your turn');
-      }
+    const playerColor: 'white' | 'black' = game.whitePlayerId === userId ? 'white' : 'black';
+
+    if (currentPlayer !== playerColor) {
+      throw new BadRequestException('Not your turn');
+    }
+
+    // 🎲 Done only after rolling this turn
+    const rolledDice = gameState.currentTurnDice;
+    if (
+      gameState.turnCompleted !== false ||
+      !Array.isArray(rolledDice) ||
+      rolledDice.length !== 2
+    ) {
+      throw new BadRequestException('Roll the dice before ending your turn');
+    }
+
+    // ✅ Every die that can be played must be played (forced moves can't be skipped)
+    const remainingDice: number[] = Array.isArray(gameState.remainingDice)
+      ? gameState.remainingDice
+      : this.rulesEngine.expandDice(rolledDice);
+    const board = this.rulesEngine.fromGameState(gameState);
+    if (this.rulesEngine.getLegalMoves(board, remainingDice, playerColor).length > 0) {
+      throw new BadRequestException('You still have a legal move to play');
     }
 
     console.log(`✅ [${playerColor}] pressed Done - ending turn`);
 
     // Switch player
-    const nextPlayer = currentPlayer === 'white' ? 'black' : 'white';
-    
-    // 🎲 ALWAYS generate NEW random dice for next player on EVERY Done press
-    const nextPlayerDice = this.generateDice();
-    console.log(`🎲 [${playerColor}] Done pressed - Generating NEW random dice for ${nextPlayer}:`, nextPlayerDice);
-
-    // ✅ CRITICAL: nextRoll should have dice for NEXT player, NOT current player!
-    // If white pressed Done → nextPlayer is black → black gets dice
-    // If black pressed Done → nextPlayer is white → white gets dice
-    const updatedNextRoll = {
-      white: nextPlayer === 'white' ? nextPlayerDice : null,
-      black: nextPlayer === 'black' ? nextPlayerDice : null,
-    };
-
-    console.log(`📋 nextRoll:`, JSON.stringify(updatedNextRoll));
+    const nextPlayer: PlayerSide = currentPlayer === 'white' ? 'black' : 'white';
 
     const updatedGameState = {
       ...gameState,
@@ -837,9 +1780,8 @@ export class GameService {
       
       phase: 'waiting', // Back to waiting for next roll
       currentTurnDice: [], // ✅ CLEAR currentTurnDice so next player gets fresh dice from nextRoll
+      remainingDice: [], // ✅ No dice left to play until next roll
       diceValues: [], // Clear current dice
-      nextRoll: updatedNextRoll, // ✅ ONLY this field for dice
-      nextDiceRoll: nextPlayerDice, // ✅ ALSO save to nextDiceRoll for compatibility
     };
 
     // ⏱️ Calculate CURRENT timer values (with elapsed time subtracted)
@@ -860,58 +1802,18 @@ export class GameService {
       
       console.log(`⏱️ [TIMEOUT DETECTED] ${loser} ran out of time! Winner: ${winner}`);
       
-      // End game immediately with TIMEOUT reason
-      const setsToWin = 1; // AI game is single-set
-      const endGameData = {
-        winner,
-        whiteSetsWon: winner === 'WHITE' ? setsToWin : 0,
-        blackSetsWon: winner === 'BLACK' ? setsToWin : 0,
-        endReason: 'TIMEOUT' as any,
-        finalGameState: updatedGameState,
-      };
-      
-      // Update game to COMPLETED status
-      const completedGame = await this.prisma.game.update({
-        where: { id: gameId },
-        data: {
-          status: 'COMPLETED',
-          winner: endGameData.winner as any,
-          whiteSetsWon: endGameData.whiteSetsWon,
-          blackSetsWon: endGameData.blackSetsWon,
-          endReason: endGameData.endReason,
-          endedAt: new Date(),
-          gameState: endGameData.finalGameState,
-          whiteTimeRemaining: whiteTime,
-          blackTimeRemaining: blackTime,
-        },
-        include: {
-          whitePlayer: true,
-          blackPlayer: true,
-        },
-      });
-      
-      // Update user stats
-      const winnerUserId = winner === 'WHITE' ? game.whitePlayerId : game.blackPlayerId;
-      const loserUserId = winner === 'WHITE' ? game.blackPlayerId : game.whitePlayerId;
-      
-      if (winnerUserId !== this.AI_PLAYER_ID) {
-        await this.updateUserStats(winnerUserId, true, setsToWin);
-      }
-      if (loserUserId !== this.AI_PLAYER_ID) {
-        await this.updateUserStats(loserUserId, false, setsToWin);
-      }
-      
-      console.log('✅ [TIMEOUT] Game ended and stats updated');
-      
-      // 📡 Emit game end via WebSocket
-      this.emitGameEnd(gameId, {
+      // End game immediately with TIMEOUT reason (stats + gameEnd emit handled by completeGame)
+      const completedGame = await this.completeGame(game, {
         winner,
         endReason: 'TIMEOUT',
-        gameState: completedGame.gameState,
-        whiteTimeRemaining: whiteTime,
-        blackTimeRemaining: blackTime,
+        whiteSetsWon: winner === 'WHITE' ? game.matchLength : game.whiteSetsWon,
+        blackSetsWon: winner === 'BLACK' ? game.matchLength : game.blackSetsWon,
+        gameState: updatedGameState,
+        timers: { white: whiteTime, black: blackTime },
       });
-      
+
+      console.log('✅ [TIMEOUT] Game ended and stats updated');
+
       // Return special response indicating timeout
       return {
         message: 'Game ended due to timeout',
@@ -927,180 +1829,87 @@ export class GameService {
       };
     }
 
-    const updatedGame = await this.prisma.game.update({
-      where: { id: gameId },
-      data: {
-        gameState: updatedGameState,
-        // ✅ Save calculated timers (NOT from frontend)
-        whiteTimeRemaining: whiteTime,
-        blackTimeRemaining: blackTime,
-        updatedAt: new Date(),
-        whiteHasDiceRolled: false, // ✅ Clear both flags when Done pressed
-        blackHasDiceRolled: false,
-        currentDiceValues: undefined, // ✅ Clear current dice values
-      },
-      include: {
-        whitePlayer: true,
-        blackPlayer: true,
-        moves: {
-          orderBy: { createdAt: 'asc' },
-        },
-      },
-    });
-    
-    // 📡 Emit game state and timer update via WebSocket
-    this.emitGameStateUpdate(gameId, updatedGame.gameState);
-    this.emitTimerUpdate(gameId, {
-      white: whiteTime,
-      black: blackTime,
-    });
-    
-    console.log('✅ [endTurn] Game updated in DB:', {
-      gameId: updatedGame.id,
-      lastDoneBy: (updatedGame.gameState as any).lastDoneBy,
-      lastDoneAt: (updatedGame.gameState as any).lastDoneAt,
-      phase: (updatedGame.gameState as any).phase,
-      whiteTime: updatedGame.whiteTimeRemaining,
-      blackTime: updatedGame.blackTimeRemaining,
-    });
-
-    return {
-      message: 'Turn ended successfully',
-      nextPlayer,
-      nextRoll: updatedNextRoll, // ✅ ONLY this field
-      game: {
-        id: updatedGame.id,
-        gameState: updatedGame.gameState,
-        status: updatedGame.status,
-      },
-    };
-  }
-
-  /**
-   * ⏱️ Start a new set (reset board and timers)
-   * Called when a player wins a set and next set begins
-   */
-  async startNewSet(gameId: string, userId: string, winner: 'white' | 'black') {
-    const game = await this.prisma.game.findUnique({
-      where: { id: gameId },
-    });
-
-    if (!game) {
-      throw new NotFoundException('Game not found');
-    }
-
-    // Verify user is a player
-    const AI_PLAYER_ID = '00000000-0000-0000-0000-000000000000';
-    const isAIGame = game.gameType === 'AI';
-    
-    if (!isAIGame && game.whitePlayerId !== userId && game.blackPlayerId !== userId) {
-      throw new ForbiddenException('Not a player in this game');
-    }
-
-    const gameState = game.gameState as any;
-    const loser = winner === 'white' ? 'black' : 'white';
-
-    console.log(`🏆 Starting new set - Winner: ${winner}`);
-
-    // ✅ Reset board to initial state
-    const resetBoardState = {
-      points: [
-        { checkers: ['white', 'white'], count: 2 },  // Point 0
-        { checkers: [], count: 0 },
-        { checkers: [], count: 0 },
-        { checkers: [], count: 0 },
-        { checkers: [], count: 0 },
-        { checkers: ['black', 'black', 'black', 'black', 'black'], count: 5 },  // Point 5
-        { checkers: [], count: 0 },
-        { checkers: ['black', 'black', 'black'], count: 3 },  // Point 7
-        { checkers: [], count: 0 },
-        { checkers: [], count: 0 },
-        { checkers: [], count: 0 },
-        { checkers: ['white', 'white', 'white', 'white', 'white'], count: 5 },  // Point 11
-        { checkers: ['white', 'white', 'white', 'white', 'white'], count: 5 },  // Point 12
-        { checkers: [], count: 0 },
-        { checkers: [], count: 0 },
-        { checkers: [], count: 0 },
-        { checkers: ['black', 'black', 'black'], count: 3 },  // Point 16
-        { checkers: [], count: 0 },
-        { checkers: ['black', 'black', 'black', 'black', 'black'], count: 5 },  // Point 18
-        { checkers: [], count: 0 },
-        { checkers: [], count: 0 },
-        { checkers: [], count: 0 },
-        { checkers: [], count: 0 },
-        { checkers: ['white', 'white'], count: 2 },  // Point 23
-      ],
-      bar: { white: 0, black: 0 },
-      off: { white: 0, black: 0 },
-    };
-
-    // ✅ Generate new dice for winner
-    const newDice = this.generateDice();
-    console.log(`🎲 New set - Generating dice for winner ${winner}:`, newDice);
-
-    const updatedNextRoll = {
-      white: winner === 'white' ? newDice : null,
-      black: winner === 'black' ? newDice : null,
+    // 📼 Turn marker for replay / export (moves alone don't carry the full roll or dances)
+    const turnDice = Array.isArray(gameState.currentTurnDice) ? gameState.currentTurnDice : [];
+    const turnRecord = {
+      type: 'turn',
+      player: playerColor.toUpperCase(),
+      dice: turnDice.length === 2 ? turnDice : null,
+      timeRemaining: playerColor === 'white' ? whiteTime : blackTime,
+      timestamp: new Date().toISOString(),
     };
 
-    // ⏱️ CRITICAL: Reset timers and lastDoneAt for new set
-    const timeControl = game.timeControl || 1800;
-    
-    const updatedGameState = {
-      ...gameState,
-      ...resetBoardState,
-      currentPlayer: winner,
-      phase: 'waiting',
-      diceValues: [],
-      nextRoll: updatedNextRoll,
-      nextDiceRoll: newDice,
-      currentTurnDice: null,
-      
-      // ⏱️ CRITICAL: Reset timer tracking
-      lastDoneBy: loser, // Winner's timer starts (loser "pressed Done")
-      lastDoneAt: new Date().toISOString(), // Reset to NOW
-      turnCompleted: false,
-    };
+    // 🔒 Claimed before the next dice are drawn - a second Done for the same turn gets 409
+    // and uses up no dice nonce (the whole transaction rolls back)
+    const { updatedGame, updatedNextRoll } = await this.prisma.$transaction(async (tx) => {
+      await this.claimGameVersion(tx, game);
+
+      // 🎲 ALWAYS generate NEW random dice for next player on EVERY Done press
+      const nextPlayerDice = await this.generateDice(gameId, tx);
+      console.log(
+        `🎲 [${playerColor}] Done pressed - Generating NEW random dice for ${nextPlayer}:`,
+        nextPlayerDice,
+      );
+
+      // ✅ CRITICAL: nextRoll should have dice for NEXT player, NOT current player!
+      // If white pressed Done → nextPlayer is black → black gets dice
+      // If black pressed Done → nextPlayer is white → white gets dice
+      const updatedNextRoll = {
+        white: nextPlayer === 'white' ? nextPlayerDice : null,
+        black: nextPlayer === 'black' ? nextPlayerDice : null,
+      };
 
-    const updatedGame = await this.prisma.game.update({
-      where: { id: gameId },
-      data: {
-        gameState: updatedGameState,
-        // ⏱️ Reset timers to full time
-        whiteTimeRemaining: timeControl,
-        blackTimeRemaining: timeControl,
-        updatedAt: new Date(),
-      },
-      include: {
-        whitePlayer: true,
-        blackPlayer: true,
-      },
-    });
+      const updatedGame = await tx.game.update({
+        where: { id: gameId },
+        data: {
+          gameState: {
+            ...updatedGameState,
+            nextRoll: updatedNextRoll, // ✅ ONLY this field for dice
+            nextDiceRoll: nextPlayerDice, // ✅ ALSO save to nextDiceRoll for compatibility
+          },
+          moveHistory: { push: turnRecord },
+          // ✅ Save calculated timers (NOT from frontend)
+          whiteTimeRemaining: whiteTime,
+          blackTimeRemaining: blackTime,
+          whiteHasDiceRolled: false, // ✅ Clear both flags when Done pressed
+          blackHasDiceRolled: false,
+          currentDiceValues: undefined, // ✅ Clear current dice values
+        },
+        include: {
+          whitePlayer: true,
+          blackPlayer: true,
+          moves: {
+            orderBy: { createdAt: 'asc' },
+          },
+        },
+      });
 
-    console.log('⏱️ New set timers reset:', {
-      timeControl,
-      lastDoneBy: loser,
-      lastDoneAt: updatedGameState.lastDoneAt,
-      winner,
+      return { updatedGame, updatedNextRoll };
     });
-
-    // 📡 Emit game state update via WebSocket
+    
+    // 📡 Emit game state and timer update via WebSocket
     this.emitGameStateUpdate(gameId, updatedGame.gameState);
-
-    // 📡 Emit timer update
     this.emitTimerUpdate(gameId, {
-      white: timeControl,
-      black: timeControl,
+      white: whiteTime,
+      black: blackTime,
+    });
+    
+    console.log('✅ [endTurn] Game updated in DB:', {
+      gameId: updatedGame.id,
+      lastDoneBy: (updatedGame.gameState as any).lastDoneBy,
+      lastDoneAt: (updatedGame.gameState as any).lastDoneAt,
+      phase: (updatedGame.gameState as any).phase,
+      whiteTime: updatedGame.whiteTimeRemaining,
+      blackTime: updatedGame.blackTimeRemaining,
     });
 
+    // 🤖 AI games: the server plays the AI's turn
+    this.scheduleAITurnIfDue(game, nextPlayer);
+
     return {
-      message: 'New set started',
-      winner,
-      nextRoll: updatedNextRoll,
-      timers: {
-        white: timeControl,
-        black: timeControl,
-      },
+      message: 'Turn ended successfully',
+      nextPlayer,
+      nextRoll: updatedNextRoll, // ✅ ONLY this field
       game: {
         id: updatedGame.id,
         gameState: updatedGame.gameState,
@@ -1130,20 +1939,7 @@ export class GameService {
     const gameState = game.gameState as any;
     const currentPlayer = gameState.currentPlayer;
     const turnCompleted = gameState.turnCompleted !== false; // Default true if not set
-    
-    // 📋 Log complete gameState structure
-    console.log('🎮 gameState:', {
-      currentPlayer: gameState.currentPlayer,
-      lastDoneBy: gameState.lastDoneBy || null,
-      lastDoneAt: gameState.lastDoneAt || null,
-      turnCompleted: gameState.turnCompleted !== false,
-      phase: gameState.phase || 'waiting',
-      aiPlayerColor: gameState.aiPlayerColor || null,
-      diceValues: gameState.diceValues || null,
-      currentTurnDice: gameState.currentTurnDice || null,
-      nextDiceRoll: gameState.nextDiceRoll || null,
-    });
-    
+
     // Determine user's color
     const isWhitePlayer = game.whitePlayerId === userId;
     const playerColor = isWhitePlayer ? 'white' : 'black';
@@ -1217,9 +2013,9 @@ export class GameService {
       throw new NotFoundException('Game not found');
     }
 
-    // Users can only view their own games
+    // 👀 Non-players get the read-only spectator view
     if (game.whitePlayerId !== userId && game.blackPlayerId !== userId) {
-      throw new ForbiddenException('You are not a player in this game');
+      return this.toSpectatorView(game);
     }
 
     // ⏱️ Calculate current timers with elapsed time
@@ -1247,6 +2043,107 @@ export class GameService {
     };
   }
 
+  /**
+   * 🔐 Provably fair dice - commitment while the game runs, full proof once it has ended
+   * - Running: serverSeedHash, clientSeed and roll count (server seed stays secret)
+   * - Ended: server seed revealed + every roll recomputed, hash checked against the commitment
+   */
+  async getDiceFairness(gameId: string) {
+    const game = await this.prisma.game.findUnique({
+      where: { id: gameId },
+      select: {
+        id: true,
+        status: true,
+        serverSeed: true,
+        serverSeedHash: true,
+        clientSeed: true,
+        diceNonce: true,
+      },
+    });
+
+    if (!game) {
+      throw new NotFoundException('Game not found');
+    }
+    if (!game.serverSeed || !game.serverSeedHash || !game.clientSeed) {
+      throw new BadRequestException('This game was created before provably fair dice');
+    }
+
+    const fairness = {
+      gameId: game.id,
+      algorithm: 'HMAC-SHA256(serverSeed, `${clientSeed}:${nonce}`), bytes >= 252 skipped, die = byte % 6 + 1',
+      serverSeedHash: game.serverSeedHash,
+      clientSeed: game.clientSeed,
+      rollCount: game.diceNonce,
+    };
+
+    // 🔒 Server seed stays secret until the game is over
+    if (game.status === 'ACTIVE' || game.status === 'WAITING') {
+      return { ...fairness, revealed: false };
+    }
+
+    return {
+      ...fairness,
+      revealed: true,
+      revealedServerSeed: game.serverSeed,
+      hashMatches: this.diceService.hashServerSeed(game.serverSeed) === game.serverSeedHash,
+      // Nonce order: opening attempts ([white, black], ties re-rolled), opening winner's first roll, then one per turn
+      rolls: this.diceService.replayFairRolls(game.serverSeed, game.clientSeed, game.diceNonce),
+    };
+  }
+
+  /**
+   * 📺 Live ONLINE games anyone can watch (newest first)
+   */
+  async getLiveGames(limit: number = 20) {
+    const games = await this.prisma.game.findMany({
+      where: { status: 'ACTIVE', gameType: 'ONLINE' },
+      select: {
+        id: true,
+        whitePlayer: { select: { id: true, username: true, displayName: true, avatar: true } },
+        blackPlayer: { select: { id: true, username: true, displayName: true, avatar: true } },
+        timeControl: true,
+        matchLength: true,
+        betAmount: true,
+        whiteSetsWon: true,
+        blackSetsWon: true,
+        startedAt: true,
+      },
+      orderBy: { startedAt: 'desc' },
+      take: Math.min(Math.max(limit, 1), 50),
+    });
+
+    return games.map((game) => ({
+      ...game,
+      spectatorCount: this.gameGateway?.getSpectatorCount(game.id) ?? 0,
+    }));
+  }
+
+  /**
+   * ⏳ How far spectators lag behind the live board
+   * Bet games only (stops spectators feeding moves/dice to a player) - game.spectator_delay_seconds
+   */
+  async getSpectatorDelaySeconds(game: { betAmount: Prisma.Decimal | null }): Promise<number> {
+    if (!game.betAmount || game.betAmount.lte(0)) return 0;
+
+    const setting = await this.settingsService.getGameSetting('game.spectator_delay_seconds');
+    const delay = setting ? parseInt(setting.value, 10) : NaN;
+    return Number.isFinite(delay) && delay > 0 ? delay : 0;
+  }
+
+  /**
+   * 👀 Read-only view for non-players
+   * Delayed bet games: no live board, dice or clocks over REST / socket join -
+   * spectators get them from the delayed socket stream
+   */
+  private async toSpectatorView(game: any) {
+    const spectatorDelaySeconds = await this.getSpectatorDelaySeconds(game);
+
+    return serializeGamePayload(
+      { ...game, isSpectator: true, spectatorDelaySeconds },
+      spectatorDelaySeconds > 0 ? 'delayed-spectator' : 'spectator',
+    );
+  }
+
   async getUserGameHistory(userId: string, limit: number = 20, offset: number = 0) {
     const games = await this.prisma.game.findMany({
       where: {
@@ -1329,6 +2226,9 @@ export class GameService {
         blackPlayerId: true,
         whiteSetsWon: true,
         blackSetsWon: true,
+        setHistory: true,
+        gameType: true,
+        aiDifficulty: true,
         createdAt: true,
         endedAt: true,
         status: true,
@@ -1347,8 +2247,15 @@ export class GameService {
     let bestStreak = 0;
     let tempStreak = 0;
     let lastGameWasWin = false;
+    const setResults = { marsWon: 0, marsLost: 0, backgammonsWon: 0, backgammonsLost: 0 };
+    const aiStats: Record<
+      string,
+      { gamesPlayed: number; wins: number; losses: number; winRate: number }
+    > = {};
 
     games.forEach((game) => {
+      this.countSetResults(game.setHistory, game.whitePlayerId === userId ? 'WHITE' : 'BLACK', setResults);
+
       if (game.status === 'ACTIVE') {
         activeGames++;
       } else if (!game.winner) {
@@ -1361,6 +2268,17 @@ export class GameService {
           (isWhitePlayer && game.winner === 'WHITE') ||
           (!isWhitePlayer && game.winner === 'BLACK');
         
+        // 🤖 Results per AI level
+        if (game.gameType === 'AI' && game.aiDifficulty) {
+          if (!aiStats[game.aiDifficulty]) {
+            aiStats[game.aiDifficulty] = { gamesPlayed: 0, wins: 0, losses: 0, winRate: 0 };
+          }
+          const level = aiStats[game.aiDifficulty];
+          level.gamesPlayed++;
+          level[userWon ? 'wins' : 'losses']++;
+          level.winRate = Math.round((level.wins / level.gamesPlayed) * 1000) / 10;
+        }
+
         if (userWon) {
           wins++;
           tempStreak++;
@@ -1382,6 +2300,11 @@ export class GameService {
     const completedGames = gamesPlayed - activeGames;
     const winRate = completedGames > 0 ? (wins / completedGames) * 100 : 0;
 
+    const userStats = await this.prisma.userStats.findUnique({
+      where: { userId },
+      select: { rating: true, gamesAbandoned: true },
+    });
+
     return {
       gamesPlayed,
       wins,
@@ -1395,6 +2318,10 @@ export class GameService {
       netProfit: 0,
       bestStreak,
       currentStreak,
+      ...setResults, // 🏆 Mars / backgammon sets won and lost
+      aiStats, // 🤖 { EASY: { gamesPlayed, wins, losses, winRate }, ... } - finished AI games per level
+      rating: userStats?.rating ?? 1500,
+      gamesAbandoned: userStats?.gamesAbandoned ?? 0,
       averageGameDuration: 0, // TODO: Calculate from createdAt/endedAt
       lastGameAt: games.length > 0 ? (games[games.length - 1].endedAt || games[games.length - 1].createdAt) : null,
     };
@@ -1460,7 +2387,7 @@ export class GameService {
   }
 
   /**
-   * Sync game state (for dice rolls, phase changes, etc.)
+   * Sync the client's display state (gameState.ui) - game fields are server-owned
    */
   async syncGameState(gameId: string, userId: string, syncStateDto: any) {
     // Verify game exists and user is a player
@@ -1476,28 +2403,26 @@ export class GameService {
       throw new ForbiddenException('Not a player in this game');
     }
 
-    // ⏱️ CRITICAL FIX: Preserve existing timer fields from DB!
-    const existingGameState = game.gameState as any;
-    
-    // Merge dice values into game state, but PRESERVE lastDoneBy/lastDoneAt
+    // 🤖 The AI seat's turn belongs to the server
+    if (this.aiTurnService.isAITurn(game)) {
+      throw new ForbiddenException('The AI is playing its turn');
+    }
+
+    // 🔒 Only display fields are taken from the client - board, dice, turn, cube and
+    // timers change through the game actions (recordMove, rollDiceForGame, endTurn, ...)
     const updatedGameState = {
-      ...existingGameState, // ✅ Start with existing state (includes lastDoneBy/lastDoneAt)
-      ...syncStateDto.gameState, // ✅ Then merge incoming changes
-      diceValues: syncStateDto.diceValues || [],
-      // ⏱️ FORCE preserve timer fields (in case frontend accidentally sends undefined)
-      lastDoneBy: existingGameState.lastDoneBy,
-      lastDoneAt: existingGameState.lastDoneAt,
+      ...(game.gameState as any),
+      ...this.pickClientStateFields(syncStateDto.gameState),
     };
 
-    console.log('⏱️ [syncGameState] Preserving lastDoneBy:', existingGameState.lastDoneBy);
+    // Update game state (🔒 never over a move / Done that landed after the read)
+    const updatedGame = await this.prisma.$transaction(async (tx) => {
+      await this.claimGameVersion(tx, game);
 
-    // Update game state
-    const updatedGame = await this.prisma.game.update({
-      where: { id: gameId },
-      data: {
-        gameState: updatedGameState,
-        updatedAt: new Date(),
-      },
+      return tx.game.update({
+        where: { id: gameId },
+        data: { gameState: updatedGameState },
+      });
     });
 
     // 📡 Emit game state update via WebSocket
@@ -1510,7 +2435,7 @@ export class GameService {
   }
 
   /**
-   * Update game state directly (for opening roll, phase changes, etc.)
+   * Update the client's display state (gameState.ui) - game fields are server-owned
    */
   async updateGameState(gameId: string, userId: string, newGameState: any) {
     // Verify game exists and user is a player
@@ -1526,36 +2451,34 @@ export class GameService {
       throw new ForbiddenException('Not a player in this game');
     }
 
-    // ⏱️ CRITICAL FIX: Preserve timer fields from existing state!
-    const existingGameState = game.gameState as any;
+    // 🤖 The AI seat's turn belongs to the server
+    if (this.aiTurnService.isAITurn(game)) {
+      throw new ForbiddenException('The AI is playing its turn');
+    }
+
+    // 🔒 Only display fields are taken from the client (see syncGameState)
     const mergedGameState = {
-      ...existingGameState, // Start with existing (includes lastDoneBy/lastDoneAt)
-      ...newGameState, // Merge incoming changes
-      // ⏱️ Force preserve timer fields
-      lastDoneBy: existingGameState.lastDoneBy,
-      lastDoneAt: existingGameState.lastDoneAt,
+      ...(game.gameState as any),
+      ...this.pickClientStateFields(newGameState),
     };
 
-    console.log('⏱️ [updateGameState] Preserving lastDoneBy:', existingGameState.lastDoneBy);
+    // Update game state without creating a move (🔒 same guard as syncGameState)
+    const updatedGame = await this.prisma.$transaction(async (tx) => {
+      await this.claimGameVersion(tx, game);
 
-    // Update game state without creating a move
-    const updatedGame = await this.prisma.game.update({
-      where: { id: gameId },
-      data: {
-        gameState: mergedGameState,
-        updatedAt: new Date(),
-      },
-      include: {
-        whitePlayer: true,
-        blackPlayer: true,
-        moves: {
-          orderBy: { createdAt: 'asc' },
+      return tx.game.update({
+        where: { id: gameId },
+        data: { gameState: mergedGameState },
+        include: {
+          whitePlayer: true,
+          blackPlayer: true,
+          moves: {
+            orderBy: { createdAt: 'asc' },
+          },
         },
-      },
+      });
     });
 
-    console.log('✅ Game state updated (no move created)');
-
     return {
       id: updatedGame.id,
       whitePlayerId: updatedGame.whitePlayerId,
@@ -1571,145 +2494,113 @@ export class GameService {
   }
 
   /**
-   * ⛔⛔⛔ DELEGATED TO ai-move.service.ts ⛔⛔⛔
-   * 
-   * AI move calculation and execution moved to separate service
-   * ⚠️ This now ONLY executes moves, does NOT call Done
-   * ⚠️ Frontend must call endTurn() after AI moves (like human)
-   * 
-   * File: core/ai-move.service.ts
+   * 🤖 Nudge the AI turn of a game (the server plays it - core/ai-turn.service.ts)
+   * - Turns are scheduled on their own (Done, opening roll, taken double, new set);
+   *   this only restarts one that stalled
+   * - Moves are streamed over the socket (diceRolled, opponentMove, turnChanged)
    */
-  async makeAIMove(gameId: string) {
-    // Delegate to protected AI move service
-    return this.aiMoveService.executeAIMoves(gameId);
-  }
+  async makeAIMove(gameId: string, userId: string) {
+    const game = await this.prisma.game.findUnique({
+      where: { id: gameId },
+    });
 
-  /**
-   * Apply a single move to board state (helper function)
-   */
-  private applyMove(boardState: any, move: { from: number; to: number }) {
-    const newBoard = JSON.parse(JSON.stringify(boardState));
-    const color = boardState.currentPlayer;
-    const opponentColor = color === 'white' ? 'black' : 'white';
+    if (!game) {
+      throw new NotFoundException('Game not found');
+    }
 
-    // ✅ Ensure bar and off objects exist (prevent undefined errors)
-    if (!newBoard.bar) {
-      newBoard.bar = { white: 0, black: 0 };
+    if (game.whitePlayerId !== userId && game.blackPlayerId !== userId) {
+      throw new ForbiddenException('Not a player in this game');
     }
-    if (!newBoard.off) {
-      newBoard.off = { white: 0, black: 0 };
+
+    if (!this.aiTurnService.getAISeat(game)) {
+      throw new BadRequestException('This is not an AI game');
     }
 
-    // Move from bar
-    if (move.from === -1) {
-      newBoard.bar[color]--;
-      
-      // ✅ Check for hit at destination
-      const destPoint = newBoard.points[move.to];
-      if (!destPoint) {
-        throw new Error(`Invalid move.to: ${move.to} - point does not exist`);
-      }
-      if (destPoint[opponentColor] === 1) {
-        // Hit opponent checker
-        destPoint[opponentColor] = 0;
-        newBoard.bar[opponentColor]++;
-      }
-      
-      newBoard.points[move.to][color]++;
+    if (!this.aiTurnService.isAITurn(game)) {
+      throw new BadRequestException('Not AI turn');
     }
-    // Bear off
-    else if (move.to === -1 || move.to === 24) {
-      newBoard.points[move.from][color]--;
-      newBoard.off[color]++;
+
+    this.aiTurnService.scheduleAITurn(gameId);
+
+    return { message: 'AI turn is played by the server', gameId };
+  }
+
+  /**
+   * 🤖 Hand the turn to AITurnService when the AI / bot seat is next
+   */
+  private scheduleAITurnIfDue(
+    game: Pick<Game, 'id' | 'gameType' | 'whitePlayerId' | 'blackPlayerId' | 'gameState'>,
+    nextPlayer: PlayerSide,
+  ) {
+    if (this.aiTurnService.getAISeat(game)?.color === nextPlayer) {
+      this.aiTurnService.scheduleAITurn(game.id);
     }
-    // Normal move
-    else {
-      // ✅ Validate points exist
-      if (!newBoard.points[move.from]) {
-        throw new Error(`Invalid move.from: ${move.from} - point does not exist`);
-      }
-      if (!newBoard.points[move.to]) {
-        throw new Error(`Invalid move.to: ${move.to} - point does not exist`);
-      }
-      
-      newBoard.points[move.from][color]--;
-      
-      // ✅ Check for hit at destination
-      const destPoint = newBoard.points[move.to];
-      if (destPoint[opponentColor] === 1) {
-        // Hit opponent checker
-        destPoint[opponentColor] = 0;
-        newBoard.bar[opponentColor]++;
+  }
+
+  /**
+   * 🏆 Add a player's mars / backgammon sets (from Game.setHistory) to the counters
+   */
+  private countSetResults(
+    setHistory: any[],
+    playerColor: 'WHITE' | 'BLACK',
+    counters: { marsWon: number; marsLost: number; backgammonsWon: number; backgammonsLost: number },
+  ) {
+    for (const set of (setHistory || []) as SetResult[]) {
+      const won = set.winner === playerColor;
+      if (set.resultType === 'MARS') {
+        counters[won ? 'marsWon' : 'marsLost']++;
+      } else if (set.resultType === 'BACKGAMMON') {
+        counters[won ? 'backgammonsWon' : 'backgammonsLost']++;
       }
-      
-      newBoard.points[move.to][color]++;
     }
+  }
 
-    return newBoard;
+  /**
+   * Boolean game setting ('true' / 'false')
+   */
+  private async isSettingEnabled(key: string): Promise<boolean> {
+    const setting = await this.settingsService.getGameSetting(key);
+    return setting?.value === 'true';
   }
 
   /**
-   * Convert frontend board state format to AI service format
+   * Cube from gameState (games created before the cube get a centered 1-cube)
    */
-  private convertToAIFormat(gameState: any): any {
-    // Frontend format: points: Array<{ checkers: ['white', 'black', ...], count: number }>
-    // AI format: points: Array<{ white: number, black: number }>
-    
-    const aiPoints = gameState.points.map((point: any) => {
-      const whiteCount = point.checkers?.filter((c: string) => c === 'white').length || 0;
-      const blackCount = point.checkers?.filter((c: string) => c === 'black').length || 0;
-      
-      return {
-        white: whiteCount,
-        black: blackCount,
-      };
-    });
+  private getCube(gameState: any): DoublingCube {
+    return gameState?.cube || { value: 1, owner: null, offer: null };
+  }
 
-    return {
-      points: aiPoints,
-      bar: gameState.bar || { white: 0, black: 0 },
-      off: gameState.off || { white: 0, black: 0 },
-      currentPlayer: gameState.currentPlayer || 'black',
-    };
+  /**
+   * 💰 Bet amount must be one of game.allowed_bet_amounts (JSON array setting)
+   */
+  async assertAllowedBetAmount(betAmount: number) {
+    const setting = await this.settingsService.getGameSetting('game.allowed_bet_amounts');
+    let allowed: number[] = [];
+    try {
+      allowed = setting ? JSON.parse(setting.value).map(Number) : [];
+    } catch (error) {
+      console.warn('Invalid game.allowed_bet_amounts setting:', setting?.value);
+    }
+
+    if (!allowed.includes(betAmount)) {
+      throw new BadRequestException(`Bet amount must be one of: ${allowed.join(', ')}`);
+    }
   }
 
   /**
-   * Convert AI board state format back to frontend format
+   * Keep only the client-owned display fields of a client-supplied state patch
    */
-  private convertFromAIFormat(aiBoard: any, originalGameState: any): any {
-    // AI format: points: Array<{ white: number, black: number }>
-    // Frontend format: points: Array<{ checkers: ['white', 'black', ...], count: number }>
-    
-    const frontendPoints = aiBoard.points.map((point: any) => {
-      const checkers: string[] = [];
-      
-      // Add white checkers
-      for (let i = 0; i < point.white; i++) {
-        checkers.push('white');
-      }
-      
-      // Add black checkers
-      for (let i = 0; i < point.black; i++) {
-        checkers.push('black');
+  private pickClientStateFields(state: any) {
+    const patch: Record<string, any> = {};
+    for (const key of CLIENT_STATE_KEYS) {
+      if (state && state[key] !== undefined) {
+        patch[key] = state[key];
       }
-      
-      return {
-        checkers,
-        count: checkers.length,
-      };
-    });
-
-    return {
-      ...originalGameState,
-      points: frontendPoints,
-      bar: aiBoard.bar,
-      off: aiBoard.off,
-      currentPlayer: 'white', // AI finished, player's turn
-      diceValues: [], // Clear dice values
-    };
+    }
+    return patch;
   }
 
-  private async updateUserStats(userId: string, isWin: boolean, totalSets: number) {
+  private async updateUserStats(userId: string, isWin: boolean, setsWon: number, setsLost: number) {
     const stats = await this.prisma.userStats.findUnique({
       where: { userId },
     });
@@ -1722,8 +2613,8 @@ export class GameService {
           gamesPlayed: 1,
           gamesWon: isWin ? 1 : 0,
           gamesLost: isWin ? 0 : 1,
-          totalSetsWon: isWin ? totalSets : 0,
-          totalSetsLost: isWin ? 0 : totalSets,
+          totalSetsWon: setsWon,
+          totalSetsLost: setsLost,
           currentStreak: isWin ? 1 : 0,
           bestStreak: isWin ? 1 : 0,
         },
@@ -1739,8 +2630,8 @@ export class GameService {
           gamesPlayed: { increment: 1 },
           gamesWon: { increment: isWin ? 1 : 0 },
           gamesLost: { increment: isWin ? 0 : 1 },
-          totalSetsWon: { increment: isWin ? totalSets : 0 },
-          totalSetsLost: { increment: isWin ? 0 : totalSets },
+          totalSetsWon: { increment: setsWon },
+          totalSetsLost: { increment: setsLost },
           currentStreak: newStreak,
           bestStreak: newBestStreak,
         },
@@ -1748,6 +2639,25 @@ export class GameService {
     }
   }
 
+  /**
+   * 📈 Elo rating update after an ONLINE game (K = 32)
+   */
+  private async updateRatings(winnerUserId: string, loserUserId: string) {
+    const [winnerStats, loserStats] = await Promise.all([
+      this.prisma.userStats.findUnique({ where: { userId: winnerUserId }, select: { rating: true } }),
+      this.prisma.userStats.findUnique({ where: { userId: loserUserId }, select: { rating: true } }),
+    ]);
+    if (!winnerStats || !loserStats) return;
+
+    const expectedWin = 1 / (1 + Math.pow(10, (loserStats.rating - winnerStats.rating) / 400));
+    const change = Math.round(32 * (1 - expectedWin));
+
+    await this.prisma.userStats.update({ where: { userId: winnerUserId }, data: { rating: { increment: change } } });
+    await this.prisma.userStats.update({ where: { userId: loserUserId }, data: { rating: { decrement: change } } });
+
+    console.log(`📈 Rating ${winnerUserId} +${change}, ${loserUserId} -${change}`);
+  }
+
   /**
    * Get leaderboard with rankings
    */
@@ -1803,6 +2713,10 @@ export class GameService {
         draws: number;
         gamesPlayed: number;
         totalEarnings: number;
+        marsWon: number;
+        marsLost: number;
+        backgammonsWon: number;
+        backgammonsLost: number;
       }
     >();
 
@@ -1820,10 +2734,15 @@ export class GameService {
             draws: 0,
             gamesPlayed: 0,
             totalEarnings: 0,
+            marsWon: 0,
+            marsLost: 0,
+            backgammonsWon: 0,
+            backgammonsLost: 0,
           });
         }
         const stats = userStatsMap.get(userId)!;
         stats.gamesPlayed++;
+        this.countSetResults(game.setHistory, 'WHITE', stats);
         if (game.winner === 'WHITE') {
           stats.wins++;
           stats.totalEarnings += Number(game.betAmount || 0);
@@ -1847,10 +2766,15 @@ export class GameService {
             draws: 0,
             gamesPlayed: 0,
             totalEarnings: 0,
+            marsWon: 0,
+            marsLost: 0,
+            backgammonsWon: 0,
+            backgammonsLost: 0,
           });
         }
         const stats = userStatsMap.get(userId)!;
         stats.gamesPlayed++;
+        this.countSetResults(game.setHistory, 'BLACK', stats);
         if (game.winner === 'BLACK') {
           stats.wins++;
           stats.totalEarnings += Number(game.betAmount || 0);
@@ -1895,19 +2819,16 @@ export class GameService {
   // ==========================================
 
   /**
-   * Generate first dice for opening roll winner
-   * This is called ONCE after opening roll completes
-   * Prevents refresh-to-get-better-dice exploit
-   * 
-   * ✅ NEW: Stores in nextRoll.{winner} instead of firstDiceRoll
-   */
-  /**
-   * ⛔⛔⛔ DELEGATED TO opening-roll.service.ts ⛔⛔⛔
-   * 
+   * 🎲 Opening roll - played entirely by the server (either player may trigger it)
+   * - One die each from a provably fair roll ([white, black]), ties re-rolled
+   * - Every attempt is kept in gameState.openingRolls (tie history)
+   * - Higher die plays first; winner's first 2d6 is the next fair roll
+   * - Claimed once before any dice are drawn (openingRolledAt) - later calls get the recorded result
+   *
+   * ⛔⛔⛔ Timer start DELEGATED TO opening-roll.service.ts ⛔⛔⛔
    * این متد به فایل جداگانه منتقل شده برای محافظت از لاجیک تایمر
-   * فایل: opening-roll.service.ts
    */
-  async completeOpeningRoll(gameId: string, winner: 'white' | 'black') {
+  async playOpeningRoll(gameId: string, userId: string) {
     const game = await this.prisma.game.findUnique({
       where: { id: gameId },
     });
@@ -1915,11 +2836,94 @@ export class GameService {
     if (!game) {
       throw new NotFoundException('Game not found');
     }
+    if (game.whitePlayerId !== userId && game.blackPlayerId !== userId) {
+      throw new ForbiddenException('You are not a player in this game');
+    }
+    if (game.openingDiceWhite !== null) {
+      return this.getOpeningRollResult(game);
+    }
+    if (game.status !== 'ACTIVE') {
+      throw new BadRequestException('Game is not active');
+    }
 
-    const nextPlayerDice = game.firstRollDice as [number, number];
-    
-    // ⏱️ Delegate to protected service
-    return this.openingRollService.completeOpeningRoll(gameId, winner, nextPlayerDice);
+    // 🔒 Claim the opening roll first - a second call can't use up dice nonces
+    // (a claim left by a crashed call is taken over after OPENING_CLAIM_TIMEOUT_MS)
+    const { count: claimed } = await this.prisma.game.updateMany({
+      where: {
+        id: gameId,
+        status: 'ACTIVE',
+        openingDiceWhite: null,
+        OR: [
+          { openingRolledAt: null },
+          { openingRolledAt: { lt: new Date(Date.now() - OPENING_CLAIM_TIMEOUT_MS) } },
+        ],
+      },
+      data: { openingRolledAt: new Date() },
+    });
+
+    if (claimed === 0) {
+      const recordedGame = await this.prisma.game.findUniqueOrThrow({ where: { id: gameId } });
+      if (recordedGame.openingDiceWhite === null) {
+        throw new BadRequestException('Opening roll is already being played');
+      }
+      return this.getOpeningRollResult(recordedGame);
+    }
+
+    // 🎲 One die each - re-roll on ties
+    const openingRolls: { white: number; black: number }[] = [];
+    let roll: [number, number];
+    do {
+      roll = await this.generateDice(gameId);
+      openingRolls.push({ white: roll[0], black: roll[1] });
+    } while (roll[0] === roll[1]);
+
+    const [whiteDie, blackDie] = roll;
+    const winner: PlayerSide = whiteDie > blackDie ? 'white' : 'black';
+    const firstRollDice = await this.generateDice(gameId);
+
+    console.log(
+      `🎲 Opening roll: white ${whiteDie} vs black ${blackDie} → ${winner} starts (ties: ${openingRolls.length - 1})`,
+    );
+
+    // 🔒 Still guarded: a claim taken over from a slow call must not record twice
+    const { count } = await this.prisma.game.updateMany({
+      where: { id: gameId, status: 'ACTIVE', openingDiceWhite: null },
+      data: {
+        openingDiceWhite: whiteDie,
+        openingDiceBlack: blackDie,
+        firstRollDice,
+        gameState: { ...(game.gameState as any), openingRolls, openingWinner: winner },
+      },
+    });
+
+    if (count === 0) {
+      const recordedGame = await this.prisma.game.findUniqueOrThrow({ where: { id: gameId } });
+      return this.getOpeningRollResult(recordedGame);
+    }
+
+    // ⏱️ Winner's clock starts now (protected service)
+    await this.openingRollService.completeOpeningRoll(gameId, winner, firstRollDice);
+
+    const updatedGame = await this.prisma.game.findUniqueOrThrow({ where: { id: gameId } });
+    const result = this.getOpeningRollResult(updatedGame);
+
+    this.emitOpeningRoll(gameId, result);
+    this.emitGameStateUpdate(gameId, updatedGame.gameState);
+    this.scheduleAITurnIfDue(game, winner);
+
+    return result;
+  }
+
+  private getOpeningRollResult(game: Game): OpeningRollResult {
+    const gameState = game.gameState as any;
+
+    return {
+      winner: gameState.openingWinner as PlayerSide,
+      white: game.openingDiceWhite,
+      black: game.openingDiceBlack,
+      openingRolls: gameState.openingRolls || [],
+      gameState,
+    };
   }
 
   /**
@@ -1981,31 +2985,30 @@ export class GameService {
 
     const gameState = game.gameState as any;
     const currentPlayer = gameState.currentPlayer?.toLowerCase() || 'white';
-    const lastDoneAt = gameState.lastDoneAt;
-
-    let whiteTime = game.whiteTimeRemaining || 0;
-    let blackTime = game.blackTimeRemaining || 0;
-
-    // Calculate elapsed time for current player
-    if (lastDoneAt) {
-      const now = Date.now();
-      const lastDoneTime = new Date(lastDoneAt).getTime();
-      const elapsedSeconds = Math.floor((now - lastDoneTime) / 1000);
 
-      if (currentPlayer === 'white') {
-        whiteTime = Math.max(0, whiteTime - elapsedSeconds);
-      } else if (currentPlayer === 'black') {
-        blackTime = Math.max(0, blackTime - elapsedSeconds);
-      }
-    }
+    // ⏱️ Same clock as the watchdog (a pending double runs the answerer's clock)
+    const { whiteTime, blackTime } = this.calculateCurrentTimers(game);
 
     const whiteTimeUp = whiteTime <= 0;
     const blackTimeUp = blackTime <= 0;
     let winner: 'white' | 'black' | null = null;
+    let gameStatus = game.status;
 
-    // ✅ If someone's time is up, determine winner (but don't end game here - frontend will call endGame with full details)
+    // ✅ If someone's time is up, the server ends the game with TIMEOUT (clients can't report results)
     if (whiteTimeUp || blackTimeUp) {
       winner = whiteTimeUp ? 'black' : 'white';
+
+      if (game.status === 'ACTIVE') {
+        const completedGame = await this.completeGame(game, {
+          winner: winner === 'white' ? 'WHITE' : 'BLACK',
+          endReason: 'TIMEOUT',
+          whiteSetsWon: winner === 'white' ? game.matchLength : game.whiteSetsWon,
+          blackSetsWon: winner === 'black' ? game.matchLength : game.blackSetsWon,
+          gameState: game.gameState,
+          timers: { white: whiteTime, black: blackTime },
+        });
+        gameStatus = completedGame.status;
+      }
     }
 
     return {
@@ -2015,8 +3018,79 @@ export class GameService {
       blackTimeUp,
       winner,
       currentPlayer,
-      gameStatus: game.status, // Return actual game status (frontend will end game)
+      gameStatus,
     };
   }
-}
 
+  /**
+   * ⏱️ Timeout watchdog (called by GameCronService)
+   * Ends ACTIVE games whose active player's clock ran out, even if nobody is connected
+   * - Same TIMEOUT path as endTurn / checkTimeStatus: stats, bet settlement, gameEnd emit
+   * - Polls only the clocks and the turn keys of gameState - the full game is loaded only once it timed out
+   */
+  async enforceTimeouts() {
+    const clocks = await this.prisma.$queryRaw<
+      Array<{
+        id: string;
+        whiteTimeRemaining: number | null;
+        blackTimeRemaining: number | null;
+        lastDoneBy: string | null;
+        lastDoneAt: string | null;
+        phase: string | null;
+      }>
+    >`
+      SELECT
+        id,
+        "whiteTimeRemaining",
+        "blackTimeRemaining",
+        "gameState"->>'lastDoneBy' AS "lastDoneBy",
+        "gameState"->>'lastDoneAt' AS "lastDoneAt",
+        "gameState"->>'phase' AS phase
+      FROM games
+      WHERE status = 'ACTIVE'
+    `;
+
+    let endedCount = 0;
+
+    for (const clock of clocks) {
+      const { lastDoneBy, lastDoneAt, phase, ...timers } = clock;
+      const expired = this.calculateCurrentTimers({
+        ...timers,
+        gameState: { lastDoneBy, lastDoneAt, phase },
+      });
+      if (expired.whiteTime > 0 && expired.blackTime > 0) continue;
+
+      try {
+        const game = await this.prisma.game.findUnique({ where: { id: clock.id } });
+        if (!game || game.status !== 'ACTIVE') continue;
+
+        // Re-check on the full row - a Done may have landed since the poll
+        const { whiteTime, blackTime } = this.calculateCurrentTimers(game);
+        if (whiteTime > 0 && blackTime > 0) continue;
+
+        const winner = whiteTime <= 0 ? 'BLACK' : 'WHITE';
+
+        await this.completeGame(game, {
+          winner,
+          endReason: 'TIMEOUT',
+          whiteSetsWon: winner === 'WHITE' ? game.matchLength : game.whiteSetsWon,
+          blackSetsWon: winner === 'BLACK' ? game.matchLength : game.blackSetsWon,
+          gameState: game.gameState,
+          timers: { white: whiteTime, black: blackTime },
+        });
+        endedCount++;
+        this.logger.log(`⏱️ [WATCHDOG] Game ${game.id} ended by timeout - Winner: ${winner}`);
+      } catch (error) {
+        // Already ended by a player request in the meantime - nothing to do
+        if (!(error instanceof BadRequestException)) {
+          this.logger.error(
+            `⏱️ [WATCHDOG] Failed to end game ${clock.id}: ${error.message}`,
+            error.stack,
+          );
+        }
+      }
+    }
+
+    return endedCount;
+  }
+}
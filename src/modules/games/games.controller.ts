@@ -1,29 +1,21 @@
-import { Controller, Get, Post, Param, UseGuards } from '@nestjs/common';
+import { Controller, Get, Param, UseGuards, UseInterceptors } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { JwtAuthGuard } from '@/common/guards/jwt-auth.guard';
 import { CurrentUser } from '@/common/decorators/current-user.decorator';
-import { GamesService } from './games.service';
+import { GameService } from '../game/game.service';
+import { GameSerializerInterceptor } from '../game/game.serializer';
 
 @ApiTags('games')
 @ApiBearerAuth('JWT-auth')
 @UseGuards(JwtAuthGuard)
+@UseInterceptors(GameSerializerInterceptor)
 @Controller('games')
 export class GamesController {
-  constructor(private readonly gamesService: GamesService) {}
+  constructor(private readonly gameService: GameService) {}
 
   @Get(':id')
-  @ApiOperation({ summary: 'Get game by ID' })
-  async getGame(@Param('id') gameId: string) {
-    return this.gamesService.getGame(gameId);
-  }
-
-  @Post('create')
-  @ApiOperation({ summary: 'Create new game' })
-  async createGame(
-    @CurrentUser('sub') userId: string,
-    // TODO: Add opponent selection logic
-  ) {
-    // For now, create game with same user (testing)
-    return this.gamesService.createGame(userId, userId);
+  @ApiOperation({ summary: 'Get game by ID (same view as GET /game/:id)' })
+  async getGame(@CurrentUser('userId') userId: string, @Param('id') gameId: string) {
+    return this.gameService.getGame(gameId, userId);
   }
 }
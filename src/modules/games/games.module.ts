@@ -3,19 +3,30 @@ import { AuthModule } from '../auth/auth.module';
 import { DatabaseModule } from '../../database/database.module';
 import { SettingsModule } from '../settings/settings.module';
 import { GamesController } from './games.controller';
-import { GamesService } from './games.service';
-import { GameGateway } from './game.gateway';
+import { GameGateway } from '../game/game.gateway';
 import { GameService } from '../game/game.service';
 import { GameController } from '../game/game.controller';
 import { AIPlayerService } from '../game/ai/ai-player.service';
+import { ExpertEngineService } from '../game/ai/expert-engine.service';
+import { CubeDecisionService } from '../game/ai/cube-decision.service';
+import { BuiltinAIEngine } from '../game/ai/engines/builtin-ai.engine';
+import { GnubgEngine } from '../game/ai/engines/gnubg.engine';
+import { AIEngineRegistry } from '../game/ai/engines/ai-engine.registry';
+import { AdaptiveDifficultyService } from '../game/ai/adaptive-difficulty.service';
 import { DiceService } from '../game/dice.service';
 import { OpeningRollService } from '../game/core/opening-roll.service';
-import { AIMoveService } from '../game/core/ai-move.service';
+import { AITurnService } from '../game/core/ai-turn.service';
+import { RulesEngineService } from '../game/core/rules-engine.service';
+import { BetEscrowService } from '../game/core/bet-escrow.service';
+import { GameReplayService } from '../game/core/game-replay.service';
+import { MatchFileService } from '../game/core/match-file.service';
+import { GameAnalysisService } from '../game/core/game-analysis.service';
+import { GameCronService } from '../game/game-cron.service';
 
 @Module({
   imports: [AuthModule, DatabaseModule, SettingsModule],
   controllers: [GamesController, GameController],
-  providers: [GamesService, GameService, GameGateway, AIPlayerService, DiceService, OpeningRollService, AIMoveService],
-  exports: [GamesService, GameService, AIPlayerService, DiceService, OpeningRollService, AIMoveService],
+  providers: [GameService, GameGateway, AIPlayerService, ExpertEngineService, CubeDecisionService, BuiltinAIEngine, GnubgEngine, AIEngineRegistry, AdaptiveDifficultyService, DiceService, OpeningRollService, AITurnService, RulesEngineService, BetEscrowService, GameReplayService, MatchFileService, GameAnalysisService, GameCronService],
+  exports: [GameService, GameGateway, AIPlayerService, ExpertEngineService, CubeDecisionService, BuiltinAIEngine, GnubgEngine, AIEngineRegistry, AdaptiveDifficultyService, DiceService, OpeningRollService, AITurnService, RulesEngineService, BetEscrowService, GameReplayService, MatchFileService, GameAnalysisService],
 })
 export class GamesModule {}
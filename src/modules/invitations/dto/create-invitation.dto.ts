@@ -0,0 +1,45 @@
+import { IsOptional, IsString, IsInt, IsNumber, IsPositive, Min, Max } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateInvitationDto {
+  @ApiProperty({
+    example: 'player123',
+    required: false,
+    description: 'Username to challenge. Omit to create a private invite link/code',
+  })
+  @IsOptional()
+  @IsString()
+  toUsername?: string;
+
+  @ApiProperty({
+    example: 120,
+    required: false,
+    description: 'Time control in seconds per player. Defaults to game.total_time_per_game',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(30)
+  timeControl?: number;
+
+  @ApiProperty({
+    example: 3,
+    required: false,
+    description: 'Match length in points. Defaults to 1',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(25)
+  matchLength?: number;
+
+  @ApiProperty({
+    example: 10,
+    required: false,
+    description:
+      'Bet amount in USDT. Must be one of game.allowed_bet_amounts (omit for a free game)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  betAmount?: number;
+}
@@ -0,0 +1,66 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  Req,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { InvitationsService } from './invitations.service';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { GameSerializerInterceptor } from '../game/game.serializer';
+
+@ApiTags('invitations')
+@Controller('invitations')
+@UseGuards(JwtAuthGuard)
+@UseInterceptors(GameSerializerInterceptor)
+@ApiBearerAuth()
+export class InvitationsController {
+  constructor(private readonly invitationsService: InvitationsService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Challenge a user by username, or create a private invite link/code' })
+  @ApiResponse({ status: 201, description: 'Invitation created' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async createInvitation(@Req() req: any, @Body() createInvitationDto: CreateInvitationDto) {
+    const userId = req.user.userId;
+    return this.invitationsService.createInvitation(userId, createInvitationDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List my pending invitations (received and sent)' })
+  @ApiResponse({ status: 200, description: 'Invitations retrieved' })
+  async listInvitations(@Req() req: any) {
+    const userId = req.user.userId;
+    return this.invitationsService.listInvitations(userId);
+  }
+
+  @Get('code/:code')
+  @ApiOperation({ summary: 'Get an invitation by its share code' })
+  @ApiResponse({ status: 200, description: 'Invitation found' })
+  @ApiResponse({ status: 404, description: 'Invitation not found' })
+  async getByCode(@Param('code') code: string) {
+    return this.invitationsService.getByCode(code);
+  }
+
+  @Post(':id/accept')
+  @ApiOperation({ summary: 'Accept an invitation (id or share code) and start the game' })
+  @ApiResponse({ status: 200, description: 'Invitation accepted - game created' })
+  @ApiResponse({ status: 400, description: 'Invitation is no longer pending' })
+  async acceptInvitation(@Req() req: any, @Param('id') id: string) {
+    const userId = req.user.userId;
+    return this.invitationsService.acceptInvitation(id, userId);
+  }
+
+  @Post(':id/decline')
+  @ApiOperation({ summary: 'Decline an invitation (or withdraw your own)' })
+  @ApiResponse({ status: 200, description: 'Invitation declined' })
+  async declineInvitation(@Req() req: any, @Param('id') id: string) {
+    const userId = req.user.userId;
+    return this.invitationsService.declineInvitation(id, userId);
+  }
+}
@@ -0,0 +1,278 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { GameInvitation } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { SettingsService } from '../settings/settings.service';
+import { GameService } from '../game/game.service';
+import { GameGateway } from '../game/game.gateway';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+
+const USER_SELECT = { id: true, username: true, displayName: true, avatar: true };
+
+/**
+ * ✉️ Invitations Service - Direct challenges and private invite links
+ *
+ * - Direct challenge: toUsername given → only that user can accept / decline
+ * - Private link: no recipient → anyone with the code can accept
+ * - PENDING → ACCEPTED (game created) | DECLINED | EXPIRED (game.invitation_expiry_minutes)
+ * - Both parties are notified on the /game socket (room user_{userId}, joined at handshake)
+ */
+@Injectable()
+export class InvitationsService {
+  private readonly logger = new Logger(InvitationsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private settingsService: SettingsService,
+    private gameService: GameService,
+    private gameGateway: GameGateway,
+  ) {}
+
+  /**
+   * Create a challenge (toUsername) or a private invite link (no recipient)
+   */
+  async createInvitation(fromUserId: string, dto: CreateInvitationDto) {
+    let toUserId: string | null = null;
+
+    if (dto.toUsername) {
+      const toUser = await this.prisma.user.findUnique({
+        where: { username: dto.toUsername },
+        select: { id: true, status: true },
+      });
+
+      if (!toUser || toUser.status !== 'ACTIVE') {
+        throw new NotFoundException('User not found');
+      }
+      if (toUser.id === fromUserId) {
+        throw new BadRequestException('You cannot challenge yourself');
+      }
+      toUserId = toUser.id;
+    }
+
+    if (dto.betAmount !== undefined) {
+      await this.gameService.assertAllowedBetAmount(dto.betAmount);
+    }
+
+    await this.expireStaleInvitations();
+
+    // 🛡️ Limit open invitations per player (game.max_board_requests)
+    const maxPending = await this.getNumberSetting('game.max_board_requests', 5);
+    const pendingCount = await this.prisma.gameInvitation.count({
+      where: { fromUserId, status: 'PENDING' },
+    });
+    if (pendingCount >= maxPending) {
+      throw new BadRequestException(`You can have at most ${maxPending} pending invitations`);
+    }
+
+    const timeControl =
+      dto.timeControl ?? (await this.getNumberSetting('game.total_time_per_game', 1800));
+    const expiryMinutes = await this.getNumberSetting('game.invitation_expiry_minutes', 15);
+
+    const invitation = await this.prisma.gameInvitation.create({
+      data: {
+        code: this.generateCode(),
+        fromUserId,
+        toUserId,
+        timeControl,
+        matchLength: dto.matchLength ?? 1,
+        betAmount: dto.betAmount,
+        expiresAt: new Date(Date.now() + expiryMinutes * 60 * 1000),
+      },
+      include: { fromUser: { select: USER_SELECT }, toUser: { select: USER_SELECT } },
+    });
+
+    this.logger.log(
+      `✉️ Invitation ${invitation.code} created by ${fromUserId}${toUserId ? ` for ${toUserId}` : ' (private link)'}`,
+    );
+
+    if (toUserId) {
+      this.gameGateway.emitToUser(toUserId, 'invitation_received', { invitation });
+    }
+
+    return invitation;
+  }
+
+  /**
+   * Pending invitations sent by and sent to a user
+   */
+  async listInvitations(userId: string) {
+    await this.expireStaleInvitations();
+
+    const include = { fromUser: { select: USER_SELECT }, toUser: { select: USER_SELECT } };
+    const [received, sent] = await Promise.all([
+      this.prisma.gameInvitation.findMany({
+        where: { toUserId: userId, status: 'PENDING' },
+        include,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.gameInvitation.findMany({
+        where: { fromUserId: userId, status: 'PENDING' },
+        include,
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    return { received, sent };
+  }
+
+  /**
+   * Look up an invitation by its share code (invite link preview)
+   */
+  async getByCode(code: string) {
+    await this.expireStaleInvitations();
+
+    const invitation = await this.prisma.gameInvitation.findUnique({
+      where: { code: code.toUpperCase() },
+      include: { fromUser: { select: USER_SELECT }, toUser: { select: USER_SELECT } },
+    });
+
+    if (!invitation) {
+      throw new NotFoundException('Invitation not found');
+    }
+
+    return invitation;
+  }
+
+  /**
+   * Accept an invitation (by id or share code) → ONLINE game via GameService.createGame
+   * Inviter plays white
+   */
+  async acceptInvitation(idOrCode: string, userId: string) {
+    const invitation = await this.findInvitation(idOrCode);
+
+    if (invitation.fromUserId === userId) {
+      throw new BadRequestException('You cannot accept your own invitation');
+    }
+    if (invitation.toUserId && invitation.toUserId !== userId) {
+      throw new ForbiddenException('This invitation is for another player');
+    }
+
+    // 🔒 Claim PENDING → ACCEPTED exactly once (two accepts of one link can't both win)
+    const { count } = await this.prisma.gameInvitation.updateMany({
+      where: { id: invitation.id, status: 'PENDING', expiresAt: { gt: new Date() } },
+      data: { status: 'ACCEPTED', toUserId: userId, respondedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('Invitation is no longer pending');
+    }
+
+    let game;
+    try {
+      game = await this.gameService.createGame(
+        invitation.fromUserId,
+        {
+          gameType: 'ONLINE',
+          opponentId: userId,
+          ...(invitation.betAmount && { betAmount: invitation.betAmount.toNumber() }),
+          matchLength: invitation.matchLength,
+        },
+        { timeControl: invitation.timeControl, allowBet: true },
+      );
+    } catch (error) {
+      // Game could not start (e.g. insufficient balance) → invitation stays open
+      await this.prisma.gameInvitation.update({
+        where: { id: invitation.id },
+        data: { status: 'PENDING', toUserId: invitation.toUserId, respondedAt: null },
+      });
+      throw error;
+    }
+
+    await this.prisma.gameInvitation.update({
+      where: { id: invitation.id },
+      data: { gameId: game.id },
+    });
+
+    this.logger.log(`✅ Invitation ${invitation.code} accepted by ${userId} → game ${game.id}`);
+
+    this.gameGateway.emitToUser(invitation.fromUserId, 'invitation_accepted', {
+      invitationId: invitation.id,
+      gameId: game.id,
+      color: 'white',
+    });
+    this.gameGateway.emitToUser(userId, 'invitation_accepted', {
+      invitationId: invitation.id,
+      gameId: game.id,
+      color: 'black',
+    });
+
+    return { invitationId: invitation.id, gameId: game.id, game };
+  }
+
+  /**
+   * Decline an invitation (recipient) or withdraw it (sender)
+   */
+  async declineInvitation(idOrCode: string, userId: string) {
+    const invitation = await this.findInvitation(idOrCode);
+
+    const isSender = invitation.fromUserId === userId;
+    if (!isSender && invitation.toUserId !== userId) {
+      throw new ForbiddenException('Not your invitation');
+    }
+
+    const { count } = await this.prisma.gameInvitation.updateMany({
+      where: { id: invitation.id, status: 'PENDING' },
+      data: { status: 'DECLINED', respondedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('Invitation is no longer pending');
+    }
+
+    this.logger.log(`❌ Invitation ${invitation.code} declined by ${userId}`);
+
+    // Notify the other party
+    const otherUserId = isSender ? invitation.toUserId : invitation.fromUserId;
+    if (otherUserId) {
+      this.gameGateway.emitToUser(otherUserId, 'invitation_declined', {
+        invitationId: invitation.id,
+        declinedBy: userId,
+      });
+    }
+
+    return { invitationId: invitation.id, status: 'DECLINED' };
+  }
+
+  private async findInvitation(idOrCode: string): Promise<GameInvitation> {
+    await this.expireStaleInvitations();
+
+    const invitation = await this.prisma.gameInvitation.findFirst({
+      where: { OR: [{ id: idOrCode }, { code: idOrCode.toUpperCase() }] },
+    });
+
+    if (!invitation) {
+      throw new NotFoundException('Invitation not found');
+    }
+
+    return invitation;
+  }
+
+  /**
+   * PENDING invitations past expiresAt → EXPIRED
+   */
+  private async expireStaleInvitations() {
+    await this.prisma.gameInvitation.updateMany({
+      where: { status: 'PENDING', expiresAt: { lte: new Date() } },
+      data: { status: 'EXPIRED' },
+    });
+  }
+
+  /**
+   * 8-character share code (hex, upper case)
+   */
+  private generateCode(): string {
+    return randomBytes(4).toString('hex').toUpperCase();
+  }
+
+  private async getNumberSetting(key: string, fallback: number): Promise<number> {
+    const setting = await this.settingsService.getGameSetting(key);
+    const value = setting ? parseFloat(setting.value) : NaN;
+    return Number.isFinite(value) ? value : fallback;
+  }
+}
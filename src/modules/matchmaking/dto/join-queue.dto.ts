@@ -0,0 +1,36 @@
+import { IsOptional, IsInt, IsNumber, IsPositive, Min, Max } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class JoinQueueDto {
+  @ApiProperty({
+    example: 120,
+    required: false,
+    description: 'Time control in seconds per player. Defaults to game.total_time_per_game',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(30)
+  timeControl?: number;
+
+  @ApiProperty({
+    example: 10,
+    required: false,
+    description:
+      'Bet amount in USDT. Must be one of game.allowed_bet_amounts (omit for a free game)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  betAmount?: number;
+
+  @ApiProperty({
+    example: 1,
+    required: false,
+    description: 'Match length in points. Defaults to 1',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(25)
+  matchLength?: number;
+}
@@ -0,0 +1,44 @@
+import { Controller, Post, Get, Delete, Body, UseGuards, Req } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { MatchmakingService } from './matchmaking.service';
+import { JoinQueueDto } from './dto/join-queue.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+
+@ApiTags('matchmaking')
+@Controller('matchmaking')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class MatchmakingController {
+  constructor(private readonly matchmakingService: MatchmakingService) {}
+
+  @Post('queue')
+  @ApiOperation({ summary: 'Join the matchmaking queue for an ONLINE game' })
+  @ApiResponse({
+    status: 201,
+    description: 'Joined queue (matchFound is pushed on /matchmaking socket)',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid bet, insufficient balance or already in a game',
+  })
+  async joinQueue(@Req() req: any, @Body() joinQueueDto: JoinQueueDto) {
+    const userId = req.user.userId;
+    return this.matchmakingService.joinQueue(userId, joinQueueDto);
+  }
+
+  @Delete('queue')
+  @ApiOperation({ summary: 'Leave the matchmaking queue' })
+  @ApiResponse({ status: 200, description: 'Left queue' })
+  async leaveQueue(@Req() req: any) {
+    const userId = req.user.userId;
+    return this.matchmakingService.leaveQueue(userId);
+  }
+
+  @Get('queue')
+  @ApiOperation({ summary: 'Get my queue status' })
+  @ApiResponse({ status: 200, description: 'Queue status' })
+  async getStatus(@Req() req: any) {
+    const userId = req.user.userId;
+    return this.matchmakingService.getStatus(userId);
+  }
+}
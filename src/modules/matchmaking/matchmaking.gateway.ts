@@ -0,0 +1,138 @@
+import {
+  WebSocketGateway,
+  WebSocketServer,
+  SubscribeMessage,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  ConnectedSocket,
+  MessageBody,
+} from '@nestjs/websockets';
+import { Server, Socket } from 'socket.io';
+import { Logger, Inject, forwardRef, UseGuards } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { MatchmakingService } from './matchmaking.service';
+import { JoinQueueDto } from './dto/join-queue.dto';
+import { WsJwtAuthGuard, authenticateSocket } from '../../common/guards/ws-jwt-auth.guard';
+
+/**
+ * 🎯 Matchmaking Gateway - Queue join/leave and matchFound push
+ *
+ * - JWT handshake: each authenticated socket joins room user:{userId}, so players
+ *   who queued over REST get matchFound too
+ * - Socket disconnect → player leaves the queue (if they queued / watched on this socket)
+ */
+@WebSocketGateway({
+  cors: {
+    origin: process.env.CORS_ORIGIN?.split(',').map((o) => o.trim()) || '*',
+    credentials: true,
+  },
+  namespace: '/matchmaking',
+})
+@UseGuards(WsJwtAuthGuard)
+export class MatchmakingGateway implements OnGatewayConnection, OnGatewayDisconnect {
+  @WebSocketServer()
+  server: Server;
+
+  private readonly logger = new Logger(MatchmakingGateway.name);
+
+  // Track queued sockets: socketId -> userId
+  private socketUsers = new Map<string, string>();
+
+  constructor(
+    @Inject(forwardRef(() => MatchmakingService)) private matchmakingService: MatchmakingService,
+    private jwtService: JwtService,
+  ) {}
+
+  /**
+   * Handle new connection - unauthenticated sockets are disconnected
+   */
+  async handleConnection(client: Socket) {
+    const user = await authenticateSocket(this.jwtService, client);
+
+    if (!user) {
+      client.emit('unauthorized', { error: 'Invalid or missing token' });
+      client.disconnect(true);
+      return;
+    }
+
+    await client.join(`user:${user.userId}`);
+  }
+
+  /**
+   * Handle client disconnect - leave the queue
+   */
+  handleDisconnect(client: Socket) {
+    const userId = this.socketUsers.get(client.id);
+    if (!userId) return;
+
+    this.socketUsers.delete(client.id);
+    this.matchmakingService.leaveQueue(userId);
+  }
+
+  /**
+   * Tie a REST queue entry to this socket (disconnect → leave queue)
+   */
+  @SubscribeMessage('watchQueue')
+  handleWatchQueue(@ConnectedSocket() client: Socket) {
+    this.socketUsers.set(client.id, client.data.user.userId);
+
+    return { success: true };
+  }
+
+  /**
+   * Join the matchmaking queue
+   */
+  @SubscribeMessage('joinQueue')
+  async handleJoinQueue(@ConnectedSocket() client: Socket, @MessageBody() data: JoinQueueDto) {
+    const userId: string = client.data.user.userId;
+
+    try {
+      this.socketUsers.set(client.id, userId);
+
+      const status = await this.matchmakingService.joinQueue(userId, data);
+      client.emit('queueJoined', status);
+
+      return { success: true, ...status };
+    } catch (error) {
+      this.logger.error(`Error joining queue: ${error.message}`);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Leave the matchmaking queue
+   */
+  @SubscribeMessage('leaveQueue')
+  handleLeaveQueue(@ConnectedSocket() client: Socket) {
+    this.socketUsers.delete(client.id);
+
+    return { success: true, ...this.matchmakingService.leaveQueue(client.data.user.userId) };
+  }
+
+  // ========================================================================
+  // Emit Events (called from service layer)
+  // ========================================================================
+
+  /**
+   * Notify a paired player
+   */
+  emitMatchFound(
+    userId: string,
+    match: { gameId: string; color: 'white' | 'black'; opponentId: string },
+  ) {
+    this.server.to(`user:${userId}`).emit('matchFound', {
+      ...match,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Notify a player that pairing failed (player is out of the queue)
+   */
+  emitMatchError(userId: string, error: string) {
+    this.server.to(`user:${userId}`).emit('matchError', {
+      error,
+      timestamp: Date.now(),
+    });
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { MatchmakingController } from './matchmaking.controller';
+import { MatchmakingService } from './matchmaking.service';
+import { MatchmakingGateway } from './matchmaking.gateway';
+import { DatabaseModule } from '../../database/database.module';
+import { AuthModule } from '../auth/auth.module';
+import { SettingsModule } from '../settings/settings.module';
+import { GamesModule } from '../games/games.module';
+
+@Module({
+  imports: [DatabaseModule, AuthModule, SettingsModule, GamesModule],
+  controllers: [MatchmakingController],
+  providers: [MatchmakingService, MatchmakingGateway],
+  exports: [MatchmakingService],
+})
+export class MatchmakingModule {}
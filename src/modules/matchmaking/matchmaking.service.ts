@@ -0,0 +1,339 @@
+import { Injectable, Logger, BadRequestException, Inject, forwardRef } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { PrismaService } from '../../database/prisma.service';
+import { SettingsService } from '../settings/settings.service';
+import { GameService } from '../game/game.service';
+import { MatchmakingGateway } from './matchmaking.gateway';
+import { JoinQueueDto } from './dto/join-queue.dto';
+import { CreateGameDto } from '../game/dto/create-game.dto';
+
+export interface QueueEntry {
+  userId: string;
+  rating: number;
+  timeControl: number;
+  betAmount: number | null;
+  matchLength: number;
+  joinedAt: number;
+}
+
+type BotDifficulty = CreateGameDto['aiDifficulty'];
+
+/**
+ * 🎯 Matchmaking Service - Random opponent queue for ONLINE games
+ *
+ * - Players are paired only with the same time control, bet amount and match length
+ * - Rating band: matchmaking.rating_band, widened by matchmaking.band_widen_per_10s
+ *   for every 10 seconds a player has waited
+ * - Paired → GameService.createGame() (random colors) + matchFound to both players
+ * - No human after matchmaking.bot_fallback_seconds → optional isBot opponent (free games only),
+ *   played by the server at matchmaking.bot_difficulty (AITurnService)
+ * - Abandoned games in the last 24h lock the queue (matchmaking.abandon_penalty_seconds each)
+ *
+ * ⚠️ Queue is kept in memory (single backend instance)
+ */
+@Injectable()
+export class MatchmakingService {
+  private readonly logger = new Logger(MatchmakingService.name);
+
+  // userId -> queue entry
+  private queue = new Map<string, QueueEntry>();
+
+  // Prevent overlapping pairing runs
+  private isProcessing = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private settingsService: SettingsService,
+    private gameService: GameService,
+    @Inject(forwardRef(() => MatchmakingGateway)) private gateway: MatchmakingGateway,
+  ) {}
+
+  /**
+   * Join (or re-join with new preferences) the matchmaking queue
+   */
+  async joinQueue(userId: string, dto: JoinQueueDto) {
+    const timeControl =
+      dto.timeControl ?? (await this.getNumberSetting('game.total_time_per_game', 1800));
+    const betAmount = dto.betAmount ?? null;
+
+    if (betAmount !== null) {
+      await this.gameService.assertAllowedBetAmount(betAmount);
+    }
+
+    const stats = await this.prisma.userStats.findUnique({
+      where: { userId },
+      select: { rating: true, balance: true },
+    });
+
+    if (betAmount !== null && (!stats || stats.balance.lessThan(betAmount))) {
+      throw new BadRequestException('Insufficient balance for this bet');
+    }
+
+    const activeGame = await this.prisma.game.findFirst({
+      where: {
+        status: { in: ['WAITING', 'ACTIVE'] },
+        OR: [{ whitePlayerId: userId }, { blackPlayerId: userId }],
+      },
+      select: { id: true },
+    });
+
+    if (activeGame) {
+      throw new BadRequestException('You already have an active game');
+    }
+
+    // 🚪 Repeat abandoners wait before they can queue again
+    const penaltySeconds = await this.getAbandonPenaltySeconds(userId);
+    if (penaltySeconds > 0) {
+      throw new BadRequestException(
+        `Matchmaking is locked for ${penaltySeconds}s because of abandoned games`,
+      );
+    }
+
+    const entry: QueueEntry = {
+      userId,
+      rating: stats?.rating ?? 1500,
+      timeControl,
+      betAmount,
+      matchLength: dto.matchLength ?? 1,
+      joinedAt: this.queue.get(userId)?.joinedAt ?? Date.now(),
+    };
+    this.queue.set(userId, entry);
+
+    this.logger.log(
+      `🎯 ${userId} joined queue (rating ${entry.rating}, ${timeControl}s, bet ${betAmount ?? 'free'})`,
+    );
+
+    return { queued: true, position: this.queue.size, ...entry };
+  }
+
+  /**
+   * Leave the queue (no-op if not queued)
+   */
+  leaveQueue(userId: string) {
+    const removed = this.queue.delete(userId);
+    if (removed) {
+      this.logger.log(`👋 ${userId} left queue`);
+    }
+    return { queued: false };
+  }
+
+  /**
+   * Current queue status of a user
+   */
+  async getStatus(userId: string) {
+    const entry = this.queue.get(userId);
+    if (!entry) {
+      return { queued: false };
+    }
+
+    const baseBand = await this.getNumberSetting('matchmaking.rating_band', 100);
+    const widenPer10s = await this.getNumberSetting('matchmaking.band_widen_per_10s', 50);
+
+    return {
+      queued: true,
+      waitSeconds: Math.floor((Date.now() - entry.joinedAt) / 1000),
+      ratingBand: this.getBand(entry, Date.now(), baseBand, widenPer10s),
+      ...entry,
+    };
+  }
+
+  /**
+   * 🔄 Pair waiting players every 2 seconds
+   */
+  @Interval(2000)
+  async processQueue() {
+    if (this.isProcessing || this.queue.size === 0) return;
+    this.isProcessing = true;
+
+    try {
+      const now = Date.now();
+      const baseBand = await this.getNumberSetting('matchmaking.rating_band', 100);
+      const widenPer10s = await this.getNumberSetting('matchmaking.band_widen_per_10s', 50);
+
+      // Longest waiting players are paired first
+      const waiting = [...this.queue.values()].sort((a, b) => a.joinedAt - b.joinedAt);
+      const paired = new Set<string>();
+
+      for (const entry of waiting) {
+        if (paired.has(entry.userId)) continue;
+
+        const opponent = waiting.find(
+          (other) =>
+            other.userId !== entry.userId &&
+            !paired.has(other.userId) &&
+            this.isCompatible(entry, other) &&
+            Math.abs(entry.rating - other.rating) <=
+              Math.max(
+                this.getBand(entry, now, baseBand, widenPer10s),
+                this.getBand(other, now, baseBand, widenPer10s),
+              ),
+        );
+
+        if (opponent) {
+          paired.add(entry.userId);
+          paired.add(opponent.userId);
+          await this.createMatch(entry, opponent);
+        }
+      }
+
+      await this.processBotFallback(now, paired);
+    } catch (error) {
+      this.logger.error(`Matchmaking run failed: ${error.message}`);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * 🤖 Players waiting longer than matchmaking.bot_fallback_seconds get an isBot opponent
+   */
+  private async processBotFallback(now: number, paired: Set<string>) {
+    const setting = await this.settingsService.getGameSetting('matchmaking.bot_fallback_enabled');
+    if (setting?.value !== 'true') return;
+
+    const fallbackSeconds = await this.getNumberSetting('matchmaking.bot_fallback_seconds', 30);
+    const difficulty = await this.settingsService.getGameSetting('matchmaking.bot_difficulty');
+
+    for (const entry of this.queue.values()) {
+      if (paired.has(entry.userId)) continue;
+      if (entry.betAmount !== null) continue; // 💰 Never wager against a bot
+      if (now - entry.joinedAt < fallbackSeconds * 1000) continue;
+
+      const bot = await this.findAvailableBot();
+      if (!bot) {
+        this.logger.warn('No available bot user for matchmaking fallback');
+        return;
+      }
+
+      const botStats = await this.prisma.userStats.findUnique({
+        where: { userId: bot.id },
+        select: { rating: true },
+      });
+
+      paired.add(entry.userId);
+      await this.createMatch(
+        entry,
+        { ...entry, userId: bot.id, rating: botStats?.rating ?? 1500 },
+        { botPlayerId: bot.id, aiDifficulty: (difficulty?.value || 'MEDIUM') as BotDifficulty },
+      );
+    }
+  }
+
+  /**
+   * Create the ONLINE game for a pair and notify both players
+   * (bot fallback: the bot's seat is played by the server)
+   */
+  private async createMatch(
+    a: QueueEntry,
+    b: QueueEntry,
+    bot?: { botPlayerId: string; aiDifficulty: BotDifficulty },
+  ) {
+    this.queue.delete(a.userId);
+    this.queue.delete(b.userId);
+
+    // 🎲 Random colors
+    const [white, black] = Math.random() < 0.5 ? [a, b] : [b, a];
+
+    try {
+      const game = await this.gameService.createGame(
+        white.userId,
+        {
+          gameType: 'ONLINE',
+          opponentId: black.userId,
+          ...(a.betAmount !== null && { betAmount: a.betAmount }),
+          ...(bot && { aiDifficulty: bot.aiDifficulty }),
+          matchLength: a.matchLength,
+        },
+        { timeControl: a.timeControl, allowBet: true, botPlayerId: bot?.botPlayerId },
+      );
+
+      this.logger.log(
+        `✅ Match found: ${white.userId} (white) vs ${black.userId} (black) → game ${game.id}`,
+      );
+
+      this.gateway.emitMatchFound(white.userId, {
+        gameId: game.id,
+        color: 'white',
+        opponentId: black.userId,
+      });
+      this.gateway.emitMatchFound(black.userId, {
+        gameId: game.id,
+        color: 'black',
+        opponentId: white.userId,
+      });
+    } catch (error) {
+      this.logger.error(`Failed to create match game: ${error.message}`);
+
+      // Both players leave the queue - they get the reason and can re-join
+      this.gateway.emitMatchError(a.userId, error.message);
+      this.gateway.emitMatchError(b.userId, error.message);
+    }
+  }
+
+  /**
+   * Remaining queue lockout: matchmaking.abandon_penalty_seconds per game abandoned
+   * in the last 24 hours, counted from the latest abandonment
+   */
+  private async getAbandonPenaltySeconds(userId: string): Promise<number> {
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const abandoned = await this.prisma.game.findMany({
+      where: {
+        endReason: 'ABANDONMENT',
+        endedAt: { gte: since },
+        OR: [
+          { whitePlayerId: userId, winner: 'BLACK' },
+          { blackPlayerId: userId, winner: 'WHITE' },
+        ],
+      },
+      select: { endedAt: true },
+      orderBy: { endedAt: 'desc' },
+    });
+
+    if (abandoned.length === 0) return 0;
+
+    const penaltyPerGame = await this.getNumberSetting('matchmaking.abandon_penalty_seconds', 120);
+    const lockedUntil = abandoned[0].endedAt!.getTime() + abandoned.length * penaltyPerGame * 1000;
+
+    return Math.max(0, Math.ceil((lockedUntil - Date.now()) / 1000));
+  }
+
+  private isCompatible(a: QueueEntry, b: QueueEntry): boolean {
+    return (
+      a.timeControl === b.timeControl &&
+      a.betAmount === b.betAmount &&
+      a.matchLength === b.matchLength
+    );
+  }
+
+  /**
+   * Allowed rating difference for an entry (widens every 10 seconds of waiting)
+   */
+  private getBand(entry: QueueEntry, now: number, baseBand: number, widenPer10s: number): number {
+    const waitedSteps = Math.floor((now - entry.joinedAt) / 10000);
+    return baseBand + waitedSteps * widenPer10s;
+  }
+
+  /**
+   * Random active bot user that is not already playing
+   */
+  private async findAvailableBot() {
+    const bots = await this.prisma.user.findMany({
+      where: {
+        isBot: true,
+        status: 'ACTIVE',
+        gamesAsWhite: { none: { status: { in: ['WAITING', 'ACTIVE'] } } },
+        gamesAsBlack: { none: { status: { in: ['WAITING', 'ACTIVE'] } } },
+      },
+      select: { id: true },
+      take: 20,
+    });
+
+    return bots.length > 0 ? bots[Math.floor(Math.random() * bots.length)] : null;
+  }
+
+  private async getNumberSetting(key: string, fallback: number): Promise<number> {
+    const setting = await this.settingsService.getGameSetting(key);
+    const value = setting ? parseFloat(setting.value) : NaN;
+    return Number.isFinite(value) ? value : fallback;
+  }
+}
@@ -7,8 +7,11 @@ import {
   Param,
   UseGuards,
 } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
 import { SettingsService } from './settings.service';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
 import { UpdateSettingDto, UpdateMultipleSettingsDto } from './dto/settings.dto';
 
 @Controller('settings')
@@ -66,7 +69,8 @@ export class SettingsController {
    * PUT /settings/game/:key
    */
   @Put('game/:key')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
   async updateGameSetting(
     @Param('key') key: string,
     @Body() dto: UpdateSettingDto
@@ -79,7 +83,8 @@ export class SettingsController {
    * PATCH /settings/game/bulk
    */
   @Patch('game/bulk')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
   async updateGameSettingsBulk(
     @Body() dto: { settings: { key: string; value: string }[] }
   ) {
@@ -116,11 +121,12 @@ export class SettingsController {
   }
 
   /**
-   * Update multiple settings
+   * Update multiple settings (admin only)
    * PUT /settings
    */
   @Put()
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
   async updateMultipleSettings(@Body() dto: UpdateMultipleSettingsDto) {
     return this.settingsService.updateMultipleSettings(dto.settings);
   }
@@ -146,11 +152,12 @@ export class SettingsController {
   }
 
   /**
-   * Update single setting
+   * Update single setting (admin only)
    * PUT /settings/:key
    */
   @Put(':key')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
   async updateSetting(
     @Param('key') key: string,
     @Body() dto: UpdateSettingDto